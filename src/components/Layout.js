@@ -7,6 +7,8 @@ import {
   TrendingUp, 
   BarChart3, 
   PieChart, 
+  LineChart,
+  DollarSign,
   Settings, 
   Moon, 
   Sun, 
@@ -14,6 +16,8 @@ import {
   X,
   LogOut,
   User,
+  Users,
+  History,
   ChevronDown
 } from 'lucide-react'
 import {
@@ -34,7 +38,7 @@ import {
 import { Button } from './ui/button'
 
 const Layout = ({ children }) => {
-  const { user, profile, signOut } = useAuth()
+  const { user, profile, isAdmin, signOut } = useAuth()
   const { toggleTheme, setLightTheme, setDarkTheme } = useTheme()
   const router = useRouter()
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false)
@@ -62,12 +66,35 @@ const Layout = ({ children }) => {
       icon: PieChart,
       current: router.pathname.startsWith('/snapshots')
     },
+    {
+      name: 'Dividends',
+      href: '/dividends',
+      icon: DollarSign,
+      current: router.pathname.startsWith('/dividends')
+    },
+    {
+      name: 'Performance',
+      href: '/performance',
+      icon: LineChart,
+      current: router.pathname.startsWith('/performance')
+    },
     {
       name: 'Settings',
       href: '/settings',
       icon: Settings,
       current: router.pathname.startsWith('/settings')
-    }
+    },
+    ...(isAdmin ? [{
+      name: 'Users',
+      href: '/admin/users',
+      icon: Users,
+      current: router.pathname.startsWith('/admin/users')
+    }, {
+      name: 'Audit Log',
+      href: '/admin/audit',
+      icon: History,
+      current: router.pathname.startsWith('/admin/audit')
+    }] : [])
   ]
 
   const handleSignOut = async () => {
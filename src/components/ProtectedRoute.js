@@ -1,6 +1,7 @@
 import { useEffect, useState } from 'react'
 import { useRouter } from 'next/router'
 import { useAuth } from '../contexts/AuthContext'
+import { hasRole } from '../lib/auth/roles'
 
 const ProtectedRoute = ({ children, requiredRole = null, allowDemo = false }) => {
   const { user, profile, loading } = useAuth()
@@ -26,16 +27,10 @@ const ProtectedRoute = ({ children, requiredRole = null, allowDemo = false }) =>
       return
     }
 
-    // If role is required, check user has the required role
-    if (requiredRole && profile) {
-      // For now, we'll implement basic role checking
-      // This would need to be extended based on your role system
-      const hasRequiredRole = profile.role === requiredRole || profile.role === 'admin'
-      
-      if (!hasRequiredRole) {
-        router.push('/unauthorized')
-        return
-      }
+    // If role is required, check user has the required role (admins have every role)
+    if (requiredRole && !hasRole(profile, requiredRole)) {
+      router.push('/unauthorized')
+      return
     }
 
     setIsAuthorized(true)
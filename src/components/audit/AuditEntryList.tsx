@@ -0,0 +1,106 @@
+import { useState } from 'react'
+import { ChevronDown, ChevronRight } from 'lucide-react'
+import {
+  AUDIT_ACTION_LABELS,
+  changedFields,
+  describeAuditRow,
+  formatAuditValue,
+  tableLabel,
+  type AuditAction,
+  type AuditEntry,
+} from '@/lib/audit'
+
+interface AuditEntryListProps {
+  entries: AuditEntry[]
+  emptyText?: string
+}
+
+const ACTION_CLASS_NAMES: Record<AuditAction, string> = {
+  INSERT: 'bg-profit-green-100 text-profit-green-800 dark:bg-profit-green-900 dark:text-profit-green-200',
+  UPDATE: 'bg-finance-blue-100 text-finance-blue-800 dark:bg-finance-blue-900 dark:text-finance-blue-200',
+  DELETE: 'bg-destructive/10 text-destructive',
+}
+
+// Audit entries, newest first as given. Each expands to the fields it changed.
+const AuditEntryList = ({ entries, emptyText = 'No changes recorded yet.' }: AuditEntryListProps) => {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set())
+
+  const toggle = (id: string) => setExpanded(prev => {
+    const next = new Set(prev)
+    if (next.has(id)) {
+      next.delete(id)
+    } else {
+      next.add(id)
+    }
+    return next
+  })
+
+  if (entries.length === 0) {
+    return <p className="text-sm text-muted-foreground">{emptyText}</p>
+  }
+
+  return (
+    <ul className="divide-y divide-border">
+      {entries.map(entry => {
+        const isOpen = expanded.has(entry.id)
+        const fields = changedFields(entry)
+        return (
+          <li key={entry.id} className="py-2">
+            <button
+              type="button"
+              onClick={() => toggle(entry.id)}
+              className="w-full flex items-center justify-between gap-4 text-left"
+            >
+              <span className="flex items-center gap-2 text-sm">
+                {isOpen ? <ChevronDown className="h-4 w-4 text-muted-foreground" /> : <ChevronRight className="h-4 w-4 text-muted-foreground" />}
+                <span className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${ACTION_CLASS_NAMES[entry.action]}`}>
+                  {AUDIT_ACTION_LABELS[entry.action]}
+                </span>
+                <span className="text-muted-foreground">{tableLabel(entry.table_name)}</span>
+                <span className="font-medium text-foreground">{describeAuditRow(entry)}</span>
+                {entry.action === 'UPDATE' && fields.length > 0 && (
+                  <span className="text-xs text-muted-foreground">
+                    ({fields.map(f => f.field).join(', ')})
+                  </span>
+                )}
+              </span>
+              <span className="text-sm text-muted-foreground whitespace-nowrap">
+                {entry.actor_name ?? entry.actor ?? 'System'} · {new Date(entry.changed_at).toLocaleString()}
+              </span>
+            </button>
+            {isOpen && (
+              <div className="mt-2 ml-6 rounded-md bg-muted/50 p-3 overflow-x-auto">
+                {fields.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">Only bookkeeping columns changed.</p>
+                ) : (
+                  <table className="text-xs">
+                    <tbody>
+                      {fields.map(change => (
+                        <tr key={change.field}>
+                          <td className="pr-4 py-0.5 font-medium text-foreground align-top">{change.field}</td>
+                          {entry.action === 'UPDATE' ? (
+                            <td className="py-0.5 text-muted-foreground">
+                              <span className="line-through">{formatAuditValue(change.before)}</span>
+                              {' → '}
+                              <span className="text-foreground">{formatAuditValue(change.after)}</span>
+                            </td>
+                          ) : (
+                            <td className="py-0.5 text-muted-foreground">
+                              {formatAuditValue(entry.action === 'DELETE' ? change.before : change.after)}
+                            </td>
+                          )}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            )}
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
+
+export default AuditEntryList
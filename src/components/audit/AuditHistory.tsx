@@ -0,0 +1,64 @@
+import { useEffect, useState } from 'react'
+import { supabase } from '@/utils/supabase'
+import { AUDIT_COLUMNS, withActorNames, type AuditEntry } from '@/lib/audit'
+import AuditEntryList from './AuditEntryList'
+
+interface AuditHistoryProps {
+  // Exactly one: the position's or the snapshot's own row plus its child rows
+  positionId?: string
+  snapshotId?: string
+}
+
+const HISTORY_LIMIT = 200
+
+// The change history tab on the position and snapshot pages
+const AuditHistory = ({ positionId, snapshotId }: AuditHistoryProps) => {
+  const [entries, setEntries] = useState<AuditEntry[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const loadHistory = async () => {
+      setLoading(true)
+      try {
+        let query = supabase
+          .from('audit_log')
+          .select(AUDIT_COLUMNS)
+          .order('changed_at', { ascending: false })
+          .limit(HISTORY_LIMIT)
+        query = positionId ? query.eq('position_id', positionId) : query.eq('snapshot_id', snapshotId)
+
+        const { data, error } = await query
+        if (error) {
+          console.error('Error fetching change history:', error)
+          return
+        }
+        setEntries(await withActorNames(supabase, data || []))
+      } catch (error) {
+        console.error('Error fetching change history:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadHistory()
+  }, [positionId, snapshotId])
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-finance-blue-500"></div>
+      </div>
+    )
+  }
+
+  return (
+    <>
+      <AuditEntryList entries={entries} />
+      {entries.length === HISTORY_LIMIT && (
+        <p className="mt-2 text-xs text-muted-foreground">Showing the latest {HISTORY_LIMIT} changes.</p>
+      )}
+    </>
+  )
+}
+
+export default AuditHistory
@@ -0,0 +1,34 @@
+import { useMemo } from 'react'
+import { AgCharts } from 'ag-charts-react'
+import { AllCommunityModule, ModuleRegistry, type AgChartOptions } from 'ag-charts-community'
+import { useTheme } from '@/contexts/ThemeContext'
+
+ModuleRegistry.registerModules([AllCommunityModule])
+
+interface ThemedChartProps {
+  options: AgChartOptions
+  height?: number
+  className?: string
+}
+
+// AG Charts wrapper that follows the app's light/dark theme. Load it with
+// next/dynamic and `ssr: false` - the chart draws to a canvas.
+const ThemedChart = ({ options, height = 320, className }: ThemedChartProps) => {
+  const { isDark } = useTheme() as { isDark: boolean }
+
+  const themedOptions = useMemo<AgChartOptions>(() => ({
+    ...options,
+    theme: {
+      baseTheme: isDark ? 'ag-default-dark' : 'ag-default',
+      overrides: {
+        common: {
+          background: { visible: false },
+        },
+      },
+    },
+  }) as AgChartOptions, [options, isDark])
+
+  return <AgCharts options={themedOptions} style={{ height }} className={className} />
+}
+
+export default ThemedChart
@@ -0,0 +1,289 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Edit, Plus, Trash2, X } from 'lucide-react'
+import { supabase } from '@/utils/supabase'
+import { toNumber } from '@/lib/returns'
+import {
+  EMPTY_DIVIDEND_FILTERS,
+  filterDividends,
+  sumAmounts,
+  validateDividend,
+  type DividendFilters,
+  type LedgerDividend,
+} from '@/lib/dividends'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+
+export interface DrawerPosition {
+  id: string
+  ticker: string
+  company_name: string | null
+  start_date: string
+  end_date: string | null
+}
+
+interface PositionDividendsDrawerProps {
+  position: DrawerPosition | null
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Called with the position's new ledger total after every add, edit or delete
+  onChange?: (positionId: string, total: number) => void
+}
+
+const emptyForm = { payment_date: '', amount: '' }
+
+// Side panel listing one position's dividend payments, with add/edit/delete
+const PositionDividendsDrawer = ({ position, open, onOpenChange, onChange }: PositionDividendsDrawerProps) => {
+  const [dividends, setDividends] = useState<LedgerDividend[]>([])
+  const [loading, setLoading] = useState(false)
+  const [filters, setFilters] = useState<DividendFilters>(EMPTY_DIVIDEND_FILTERS)
+  const [form, setForm] = useState(emptyForm)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    if (!open || !position) return
+
+    const fetchDividends = async () => {
+      setLoading(true)
+      try {
+        const { data, error } = await supabase
+          .from('dividends')
+          .select('id, position_id, payment_date, amount, ticker, created_at')
+          .eq('position_id', position.id)
+          .order('payment_date', { ascending: false })
+
+        if (error) {
+          console.error('Error fetching dividends:', error)
+          return
+        }
+
+        setDividends(data || [])
+      } catch (error) {
+        console.error('Error fetching dividends:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    setFilters(EMPTY_DIVIDEND_FILTERS)
+    setForm(emptyForm)
+    setEditingId(null)
+    fetchDividends()
+  }, [open, position])
+
+  const visibleDividends = useMemo(() => filterDividends(dividends, filters), [dividends, filters])
+
+  const applyChange = (next: LedgerDividend[]) => {
+    const sorted = [...next].sort((a, b) => b.payment_date.localeCompare(a.payment_date))
+    setDividends(sorted)
+    onChange?.(position.id, sumAmounts(sorted))
+  }
+
+  const handleEdit = (dividend: LedgerDividend) => {
+    setEditingId(dividend.id)
+    setForm({ payment_date: dividend.payment_date, amount: String(toNumber(dividend.amount) ?? '') })
+  }
+
+  const handleCancelEdit = () => {
+    setEditingId(null)
+    setForm(emptyForm)
+  }
+
+  const handleSave = async () => {
+    const problem = validateDividend(form, position)
+    if (problem) {
+      alert(problem)
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const values = {
+        payment_date: form.payment_date,
+        amount: parseFloat(form.amount),
+        ticker: position.ticker,
+      }
+
+      if (editingId) {
+        const { error } = await supabase
+          .from('dividends')
+          .update(values)
+          .eq('id', editingId)
+
+        if (error) {
+          console.error('Error updating dividend:', error)
+          alert('Error updating dividend. Please try again.')
+          return
+        }
+
+        applyChange(dividends.map(d => d.id === editingId ? { ...d, ...values } : d))
+      } else {
+        const { data, error } = await supabase
+          .from('dividends')
+          .insert([{ ...values, position_id: position.id }])
+          .select('id, position_id, payment_date, amount, ticker, created_at')
+          .single()
+
+        if (error) {
+          console.error('Error adding dividend:', error)
+          alert('Error adding dividend. Please try again.')
+          return
+        }
+
+        applyChange([data, ...dividends])
+      }
+
+      setEditingId(null)
+      setForm(emptyForm)
+    } catch (error) {
+      console.error('Error saving dividend:', error)
+      alert('Error saving dividend. Please try again.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (dividend: LedgerDividend) => {
+    if (!confirm(`Delete the ${dividend.payment_date} payment of $${(toNumber(dividend.amount) ?? 0).toFixed(2)}?`)) {
+      return
+    }
+
+    try {
+      const { error } = await supabase
+        .from('dividends')
+        .delete()
+        .eq('id', dividend.id)
+
+      if (error) {
+        console.error('Error deleting dividend:', error)
+        alert('Error deleting dividend. Please try again.')
+        return
+      }
+
+      if (editingId === dividend.id) handleCancelEdit()
+      applyChange(dividends.filter(d => d.id !== dividend.id))
+    } catch (error) {
+      console.error('Error deleting dividend:', error)
+      alert('Error deleting dividend. Please try again.')
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="left-auto right-0 top-0 h-full max-w-md translate-x-0 translate-y-0 content-start overflow-y-auto sm:rounded-none">
+        <DialogHeader>
+          <DialogTitle>{position?.ticker} Dividends</DialogTitle>
+          <DialogDescription>
+            {position?.company_name ? `${position.company_name} · ` : ''}
+            {visibleDividends.length} payment{visibleDividends.length === 1 ? '' : 's'}, ${sumAmounts(visibleDividends).toFixed(2)} total
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Add / edit */}
+        <div className="rounded-lg border border-border p-4 space-y-3">
+          <p className="text-sm font-medium text-foreground">{editingId ? 'Edit Payment' : 'Add Payment'}</p>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label htmlFor="drawer-payment-date" className="block text-xs font-medium text-muted-foreground mb-1">
+                Payment Date
+              </label>
+              <Input
+                id="drawer-payment-date"
+                type="date"
+                value={form.payment_date}
+                onChange={(e) => setForm({ ...form, payment_date: e.target.value })}
+              />
+            </div>
+            <div>
+              <label htmlFor="drawer-amount" className="block text-xs font-medium text-muted-foreground mb-1">
+                Amount per Share
+              </label>
+              <Input
+                id="drawer-amount"
+                type="number"
+                step="0.0001"
+                min="0"
+                value={form.amount}
+                onChange={(e) => setForm({ ...form, amount: e.target.value })}
+                placeholder="0.24"
+              />
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            {editingId && (
+              <Button variant="outline" size="sm" onClick={handleCancelEdit} disabled={isSaving}>
+                Cancel
+              </Button>
+            )}
+            <Button size="sm" onClick={handleSave} disabled={isSaving} className="flex items-center gap-2">
+              {!editingId && <Plus className="h-4 w-4" />}
+              {isSaving ? 'Saving...' : editingId ? 'Save Changes' : 'Add Payment'}
+            </Button>
+          </div>
+        </div>
+
+        {/* Date range */}
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label htmlFor="drawer-from" className="block text-xs font-medium text-muted-foreground mb-1">From</label>
+            <Input id="drawer-from" type="date" value={filters.from} onChange={(e) => setFilters({ ...filters, from: e.target.value })} />
+          </div>
+          <div>
+            <label htmlFor="drawer-to" className="block text-xs font-medium text-muted-foreground mb-1">To</label>
+            <Input id="drawer-to" type="date" value={filters.to} onChange={(e) => setFilters({ ...filters, to: e.target.value })} />
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-finance-blue-500"></div>
+          </div>
+        ) : visibleDividends.length === 0 ? (
+          <div className="text-center py-8 text-sm text-muted-foreground">
+            {dividends.length === 0 ? 'No dividends recorded for this position.' : 'No payments in this date range.'}
+          </div>
+        ) : (
+          <ul className="divide-y divide-border">
+            {visibleDividends.map(dividend => (
+              <li key={dividend.id} className={`flex items-center justify-between py-2 ${editingId === dividend.id ? 'bg-muted/50' : ''}`}>
+                <div>
+                  <p className="text-sm font-medium text-foreground">${(toNumber(dividend.amount) ?? 0).toFixed(4)}</p>
+                  <p className="text-xs text-muted-foreground">{new Date(`${dividend.payment_date}T00:00:00`).toLocaleDateString()}</p>
+                </div>
+                <div className="flex gap-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0 text-foreground hover:text-accent-foreground hover:bg-accent"
+                    onClick={() => editingId === dividend.id ? handleCancelEdit() : handleEdit(dividend)}
+                  >
+                    <span className="sr-only">{editingId === dividend.id ? 'Cancel edit' : 'Edit payment'}</span>
+                    {editingId === dividend.id ? <X className="h-4 w-4" /> : <Edit className="h-4 w-4" />}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0 text-destructive hover:text-destructive-foreground hover:bg-destructive"
+                    onClick={() => handleDelete(dividend)}
+                  >
+                    <span className="sr-only">Delete payment</span>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default PositionDividendsDrawer
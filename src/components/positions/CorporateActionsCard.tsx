@@ -0,0 +1,242 @@
+import { useState } from 'react'
+import { Plus, Trash2 } from 'lucide-react'
+import { supabase } from '@/utils/supabase'
+import {
+  CORPORATE_ACTION_COLUMNS,
+  CORPORATE_ACTION_TYPES,
+  actionsForTicker,
+  describeAction,
+  validateCorporateAction,
+  type CorporateAction,
+  type CorporateActionInput,
+  type CorporateActionType,
+} from '@/lib/corporateActions'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+
+interface CorporateActionsCardProps {
+  ticker: string
+  // Every recorded action; the card shows the ones that reach `ticker`
+  actions: CorporateAction[]
+  onChange: (actions: CorporateAction[]) => void
+}
+
+const emptyForm: CorporateActionInput & { notes: string } = {
+  action_type: 'split',
+  effective_date: '',
+  ratio: '',
+  new_ticker: '',
+  cash_price: '',
+  notes: '',
+}
+
+// Splits, ticker changes, spin-offs and delistings for one ticker
+const CorporateActionsCard = ({ ticker, actions, onChange }: CorporateActionsCardProps) => {
+  const [form, setForm] = useState(emptyForm)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const tickerActions = actionsForTicker(actions, ticker).reverse()
+
+  const handleAdd = async () => {
+    const problem = validateCorporateAction(form, ticker)
+    if (problem) {
+      alert(problem)
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const { data, error } = await supabase
+        .from('corporate_actions')
+        .insert([{
+          ticker,
+          action_type: form.action_type,
+          effective_date: form.effective_date,
+          ratio: form.action_type === 'split' || form.action_type === 'spin_off' ? parseFloat(form.ratio) : null,
+          new_ticker: form.action_type === 'ticker_change' ? form.new_ticker.trim().toUpperCase() : null,
+          cash_price: form.action_type === 'delisting' ? parseFloat(form.cash_price) : null,
+          notes: form.notes || null,
+        }])
+        .select(CORPORATE_ACTION_COLUMNS)
+        .single()
+
+      if (error) {
+        console.error('Error adding corporate action:', error)
+        alert('Error adding corporate action. Please try again.')
+        return
+      }
+
+      onChange([...actions, data])
+      setForm(emptyForm)
+    } catch (error) {
+      console.error('Error adding corporate action:', error)
+      alert('Error adding corporate action. Please try again.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (action: CorporateAction) => {
+    if (!confirm(`Delete "${describeAction(action)}" on ${action.effective_date}? Returns computed from now on will no longer be adjusted for it.`)) {
+      return
+    }
+
+    try {
+      const { error } = await supabase
+        .from('corporate_actions')
+        .delete()
+        .eq('id', action.id)
+
+      if (error) {
+        console.error('Error deleting corporate action:', error)
+        alert('Error deleting corporate action. Please try again.')
+        return
+      }
+
+      onChange(actions.filter(a => a.id !== action.id))
+    } catch (error) {
+      console.error('Error deleting corporate action:', error)
+      alert('Error deleting corporate action. Please try again.')
+    }
+  }
+
+  return (
+    <div className="bg-card rounded-lg border border-border p-6">
+      <h2 className="text-xl font-semibold text-foreground mb-1">Corporate Actions</h2>
+      <p className="text-sm text-muted-foreground mb-4">
+        Prices before a split or spin-off are adjusted so returns compare like for like. A delisting cashes the holding out.
+      </p>
+
+      <div className="rounded-lg border border-border p-4 space-y-3 mb-4">
+        <p className="text-sm font-medium text-foreground">Add Action</p>
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label htmlFor="action-type" className="block text-xs font-medium text-muted-foreground mb-1">Type</label>
+            <select
+              id="action-type"
+              value={form.action_type}
+              onChange={(e) => setForm({ ...form, action_type: e.target.value as CorporateActionType })}
+              className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+            >
+              {CORPORATE_ACTION_TYPES.map(type => (
+                <option key={type.value} value={type.value}>{type.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="action-date" className="block text-xs font-medium text-muted-foreground mb-1">Effective Date</label>
+            <Input
+              id="action-date"
+              type="date"
+              value={form.effective_date}
+              onChange={(e) => setForm({ ...form, effective_date: e.target.value })}
+            />
+          </div>
+          <div>
+            {form.action_type === 'split' && (
+              <>
+                <label htmlFor="action-ratio" className="block text-xs font-medium text-muted-foreground mb-1">New Shares per Old</label>
+                <Input
+                  id="action-ratio"
+                  type="number"
+                  step="any"
+                  min="0"
+                  value={form.ratio}
+                  onChange={(e) => setForm({ ...form, ratio: e.target.value })}
+                  placeholder="0.1 for 1-for-10"
+                />
+              </>
+            )}
+            {form.action_type === 'spin_off' && (
+              <>
+                <label htmlFor="action-ratio" className="block text-xs font-medium text-muted-foreground mb-1">Value Kept (0–1)</label>
+                <Input
+                  id="action-ratio"
+                  type="number"
+                  step="any"
+                  min="0"
+                  max="1"
+                  value={form.ratio}
+                  onChange={(e) => setForm({ ...form, ratio: e.target.value })}
+                  placeholder="0.85"
+                />
+              </>
+            )}
+            {form.action_type === 'ticker_change' && (
+              <>
+                <label htmlFor="action-new-ticker" className="block text-xs font-medium text-muted-foreground mb-1">New Ticker</label>
+                <Input
+                  id="action-new-ticker"
+                  value={form.new_ticker}
+                  onChange={(e) => setForm({ ...form, new_ticker: e.target.value })}
+                  placeholder="NEWT"
+                />
+              </>
+            )}
+            {form.action_type === 'delisting' && (
+              <>
+                <label htmlFor="action-cash-price" className="block text-xs font-medium text-muted-foreground mb-1">Cash-out Price</label>
+                <Input
+                  id="action-cash-price"
+                  type="number"
+                  step="0.0001"
+                  min="0"
+                  value={form.cash_price}
+                  onChange={(e) => setForm({ ...form, cash_price: e.target.value })}
+                  placeholder="0.50"
+                />
+              </>
+            )}
+          </div>
+          <div>
+            <label htmlFor="action-notes" className="block text-xs font-medium text-muted-foreground mb-1">Notes</label>
+            <Input
+              id="action-notes"
+              value={form.notes}
+              onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              placeholder="Optional"
+            />
+          </div>
+        </div>
+        <div className="flex justify-end">
+          <Button size="sm" onClick={handleAdd} disabled={isSaving} className="flex items-center gap-2">
+            <Plus className="h-4 w-4" />
+            {isSaving ? 'Saving...' : 'Add Action'}
+          </Button>
+        </div>
+      </div>
+
+      {tickerActions.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No corporate actions recorded for {ticker}.</p>
+      ) : (
+        <ul className="divide-y divide-border">
+          {tickerActions.map(action => (
+            <li key={action.id} className="flex items-center justify-between py-2">
+              <div>
+                <p className="text-sm font-medium text-foreground">
+                  {describeAction(action)}
+                  {action.ticker !== ticker && <span className="ml-2 text-xs text-muted-foreground">(as {action.ticker})</span>}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {new Date(`${action.effective_date}T00:00:00`).toLocaleDateString()}
+                  {action.notes ? ` · ${action.notes}` : ''}
+                </p>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0 text-destructive hover:text-destructive-foreground hover:bg-destructive"
+                onClick={() => handleDelete(action)}
+              >
+                <span className="sr-only">Delete action</span>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export default CorporateActionsCard
@@ -0,0 +1,280 @@
+import { useState } from 'react'
+import { Edit, Plus, Trash2, X } from 'lucide-react'
+import { supabase } from '@/utils/supabase'
+import { toNumber } from '@/lib/returns'
+import {
+  costBasisSummary,
+  oversoldDate,
+  sortTransactions,
+  validateTransaction,
+  type LotTransaction,
+  type TransactionInput,
+  type TransactionType,
+} from '@/lib/positions/lots'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+
+export interface LotPosition {
+  id: string
+  start_date: string
+  end_date: string | null
+}
+
+interface PositionLotsCardProps {
+  position: LotPosition
+  transactions: LotTransaction[]
+  // Called with the position's full trade list after every add, edit or delete
+  onChange: (transactions: LotTransaction[]) => void
+}
+
+const TRANSACTION_COLUMNS = 'id, position_id, type, trade_date, quantity, price, notes'
+
+const emptyForm: TransactionInput & { notes: string } = { type: 'buy', trade_date: '', quantity: '', price: '', notes: '' }
+
+const formatMoney = (value: number | null) => value === null ? '-' : `$${value.toFixed(2)}`
+
+// Buys and sells recorded under one position, with a running cost-basis summary
+const PositionLotsCard = ({ position, transactions, onChange }: PositionLotsCardProps) => {
+  const [form, setForm] = useState(emptyForm)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const summary = costBasisSummary(transactions)
+  const sorted = sortTransactions(transactions).reverse()
+
+  const handleEdit = (transaction: LotTransaction) => {
+    setEditingId(transaction.id)
+    setForm({
+      type: transaction.type,
+      trade_date: transaction.trade_date,
+      quantity: String(toNumber(transaction.quantity) ?? ''),
+      price: String(toNumber(transaction.price) ?? ''),
+      notes: transaction.notes || '',
+    })
+  }
+
+  const handleCancelEdit = () => {
+    setEditingId(null)
+    setForm(emptyForm)
+  }
+
+  const handleSave = async () => {
+    const problem = validateTransaction(form, transactions.filter(t => t.id !== editingId), position)
+    if (problem) {
+      alert(problem)
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const values = {
+        type: form.type,
+        trade_date: form.trade_date,
+        quantity: parseFloat(form.quantity),
+        price: parseFloat(form.price),
+        notes: form.notes || null,
+      }
+
+      if (editingId) {
+        const { error } = await supabase
+          .from('position_transactions')
+          .update(values)
+          .eq('id', editingId)
+
+        if (error) {
+          console.error('Error updating trade:', error)
+          alert('Error updating trade. Please try again.')
+          return
+        }
+
+        onChange(transactions.map(t => t.id === editingId ? { ...t, ...values } : t))
+      } else {
+        const { data, error } = await supabase
+          .from('position_transactions')
+          .insert([{ ...values, position_id: position.id }])
+          .select(TRANSACTION_COLUMNS)
+          .single()
+
+        if (error) {
+          console.error('Error adding trade:', error)
+          alert('Error adding trade. Please try again.')
+          return
+        }
+
+        onChange([...transactions, data])
+      }
+
+      setEditingId(null)
+      setForm(emptyForm)
+    } catch (error) {
+      console.error('Error saving trade:', error)
+      alert('Error saving trade. Please try again.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (transaction: LotTransaction) => {
+    const remaining = transactions.filter(t => t.id !== transaction.id)
+    // Removing a buy can leave a later sell uncovered
+    const oversold = oversoldDate(remaining)
+    if (oversold) {
+      alert(`Deleting this trade would leave the sells on ${oversold} without enough shares`)
+      return
+    }
+    if (!confirm(`Delete the ${transaction.trade_date} ${transaction.type} of ${toNumber(transaction.quantity) ?? 0} shares?`)) {
+      return
+    }
+
+    try {
+      const { error } = await supabase
+        .from('position_transactions')
+        .delete()
+        .eq('id', transaction.id)
+
+      if (error) {
+        console.error('Error deleting trade:', error)
+        alert('Error deleting trade. Please try again.')
+        return
+      }
+
+      if (editingId === transaction.id) handleCancelEdit()
+      onChange(remaining)
+    } catch (error) {
+      console.error('Error deleting trade:', error)
+      alert('Error deleting trade. Please try again.')
+    }
+  }
+
+  return (
+    <div className="bg-card rounded-lg border border-border p-6">
+      <h2 className="text-xl font-semibold text-foreground mb-1">Lots</h2>
+      <p className="text-sm text-muted-foreground mb-4">
+        {transactions.length === 0
+          ? 'No trades recorded; returns use the start and end prices as a single lot.'
+          : `${summary.shares} shares held · average cost ${formatMoney(summary.averageCost)} · ${formatMoney(summary.invested)} invested · ${formatMoney(summary.realizedGain)} realized`}
+      </p>
+
+      {/* Add / edit */}
+      <div className="rounded-lg border border-border p-4 space-y-3 mb-4">
+        <p className="text-sm font-medium text-foreground">{editingId ? 'Edit Trade' : 'Add Trade'}</p>
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label htmlFor="lot-type" className="block text-xs font-medium text-muted-foreground mb-1">Type</label>
+            <select
+              id="lot-type"
+              value={form.type}
+              onChange={(e) => setForm({ ...form, type: e.target.value as TransactionType })}
+              className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+            >
+              <option value="buy">Buy</option>
+              <option value="sell">Sell</option>
+            </select>
+          </div>
+          <div>
+            <label htmlFor="lot-date" className="block text-xs font-medium text-muted-foreground mb-1">Trade Date</label>
+            <Input
+              id="lot-date"
+              type="date"
+              value={form.trade_date}
+              onChange={(e) => setForm({ ...form, trade_date: e.target.value })}
+            />
+          </div>
+          <div>
+            <label htmlFor="lot-quantity" className="block text-xs font-medium text-muted-foreground mb-1">Shares</label>
+            <Input
+              id="lot-quantity"
+              type="number"
+              step="any"
+              min="0"
+              value={form.quantity}
+              onChange={(e) => setForm({ ...form, quantity: e.target.value })}
+              placeholder="100"
+            />
+          </div>
+          <div>
+            <label htmlFor="lot-price" className="block text-xs font-medium text-muted-foreground mb-1">Price</label>
+            <Input
+              id="lot-price"
+              type="number"
+              step="0.0001"
+              min="0"
+              value={form.price}
+              onChange={(e) => setForm({ ...form, price: e.target.value })}
+              placeholder="42.50"
+            />
+          </div>
+          <div>
+            <label htmlFor="lot-notes" className="block text-xs font-medium text-muted-foreground mb-1">Notes</label>
+            <Input
+              id="lot-notes"
+              value={form.notes}
+              onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              placeholder="Optional"
+            />
+          </div>
+        </div>
+        <div className="flex justify-end gap-2">
+          {editingId && (
+            <Button variant="outline" size="sm" onClick={handleCancelEdit} disabled={isSaving}>
+              Cancel
+            </Button>
+          )}
+          <Button size="sm" onClick={handleSave} disabled={isSaving} className="flex items-center gap-2">
+            {!editingId && <Plus className="h-4 w-4" />}
+            {isSaving ? 'Saving...' : editingId ? 'Save Changes' : 'Add Trade'}
+          </Button>
+        </div>
+      </div>
+
+      {sorted.length > 0 && (
+        <ul className="divide-y divide-border">
+          {sorted.map(transaction => (
+            <li key={transaction.id} className={`flex items-center justify-between py-2 ${editingId === transaction.id ? 'bg-muted/50' : ''}`}>
+              <div className="flex items-center gap-3">
+                <span className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${
+                  transaction.type === 'buy'
+                    ? 'bg-profit-green-100 text-profit-green-800 dark:bg-profit-green-900 dark:text-profit-green-200'
+                    : 'bg-muted text-muted-foreground'
+                }`}>
+                  {transaction.type === 'buy' ? 'Buy' : 'Sell'}
+                </span>
+                <div>
+                  <p className="text-sm font-medium text-foreground">
+                    {toNumber(transaction.quantity) ?? 0} @ {formatMoney(toNumber(transaction.price))}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(`${transaction.trade_date}T00:00:00`).toLocaleDateString()}
+                    {transaction.notes ? ` · ${transaction.notes}` : ''}
+                  </p>
+                </div>
+              </div>
+              <div className="flex gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0 text-foreground hover:text-accent-foreground hover:bg-accent"
+                  onClick={() => editingId === transaction.id ? handleCancelEdit() : handleEdit(transaction)}
+                >
+                  <span className="sr-only">{editingId === transaction.id ? 'Cancel edit' : 'Edit trade'}</span>
+                  {editingId === transaction.id ? <X className="h-4 w-4" /> : <Edit className="h-4 w-4" />}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0 text-destructive hover:text-destructive-foreground hover:bg-destructive"
+                  onClick={() => handleDelete(transaction)}
+                >
+                  <span className="sr-only">Delete trade</span>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export default PositionLotsCard
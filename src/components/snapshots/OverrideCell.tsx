@@ -0,0 +1,113 @@
+import { useState } from 'react'
+import { Check, Pencil, RotateCcw, X } from 'lucide-react'
+
+interface OverrideCellProps {
+  // Value as fetched or computed, kept even while overridden
+  original: number | null
+  override: number | null
+  disabled?: boolean
+  onSave: (override: number | null) => Promise<void>
+}
+
+const formatMoney = (value: number | null) => value === null ? '-' : `$${value.toFixed(2)}`
+
+// Table cell that shows the effective value and lets a row be corrected in place.
+// Clearing the input (or Reset) removes the override and falls back to the original.
+const OverrideCell = ({ original, override, disabled = false, onSave }: OverrideCellProps) => {
+  const [isEditing, setIsEditing] = useState(false)
+  const [draft, setDraft] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  const overridden = override !== null
+  const value = override ?? original
+
+  const startEditing = () => {
+    setDraft(value !== null ? value.toString() : '')
+    setIsEditing(true)
+  }
+
+  const save = async (next: number | null) => {
+    setIsSaving(true)
+    try {
+      await onSave(next)
+      setIsEditing(false)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleSubmit = () => {
+    if (draft.trim() === '') {
+      save(null)
+      return
+    }
+    const parsed = parseFloat(draft)
+    if (!Number.isFinite(parsed) || parsed < 0) {
+      alert('Enter a non-negative number')
+      return
+    }
+    // Typing the original value back in is the same as clearing the override
+    save(parsed === original ? null : parsed)
+  }
+
+  if (isEditing) {
+    return (
+      <div className="flex items-center gap-1">
+        <input
+          type="number"
+          step="0.01"
+          min="0"
+          autoFocus
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleSubmit()
+            if (e.key === 'Escape') setIsEditing(false)
+          }}
+          disabled={isSaving}
+          className="h-8 w-24 rounded-md border border-input bg-background px-2 text-sm"
+        />
+        <button onClick={handleSubmit} disabled={isSaving} className="text-profit-green-600 hover:text-profit-green-700">
+          <span className="sr-only">Save</span>
+          <Check className="h-4 w-4" />
+        </button>
+        <button onClick={() => setIsEditing(false)} disabled={isSaving} className="text-muted-foreground hover:text-foreground">
+          <span className="sr-only">Cancel</span>
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="group flex items-center gap-1">
+      <span
+        className={overridden ? 'text-foreground underline decoration-dotted decoration-finance-blue-500' : 'text-foreground'}
+        title={overridden ? `Overridden - fetched value ${formatMoney(original)}` : undefined}
+      >
+        {formatMoney(value)}
+      </span>
+      {overridden && (
+        <span className="px-1 rounded text-[10px] font-medium bg-finance-blue-100 text-finance-blue-800 dark:bg-finance-blue-900 dark:text-finance-blue-200">
+          overridden
+        </span>
+      )}
+      {!disabled && (
+        <>
+          <button onClick={startEditing} className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-foreground">
+            <span className="sr-only">Edit value</span>
+            <Pencil className="h-3 w-3" />
+          </button>
+          {overridden && (
+            <button onClick={() => save(null)} disabled={isSaving} className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-foreground">
+              <span className="sr-only">Reset to fetched value</span>
+              <RotateCcw className="h-3 w-3" />
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
+
+export default OverrideCell
@@ -0,0 +1,51 @@
+import type { Table } from '@tanstack/react-table'
+import { Columns3 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+
+interface ColumnsMenuProps<T> {
+  table: Table<T>
+}
+
+// Show/hide toggles for every column that can be hidden. Exports follow the same selection.
+const ColumnsMenu = <T,>({ table }: ColumnsMenuProps<T>) => {
+  const columns = table.getAllLeafColumns().filter(column => column.getCanHide())
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" className="flex items-center gap-2">
+          <Columns3 className="h-4 w-4" />
+          Columns
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-48">
+        <DropdownMenuLabel>Visible columns</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {columns.map(column => {
+          const header = column.columnDef.header
+          return (
+            <DropdownMenuCheckboxItem
+              key={column.id}
+              checked={column.getIsVisible()}
+              onCheckedChange={(value: boolean) => column.toggleVisibility(value)}
+              // Keep the menu open while several columns are toggled
+              onSelect={(e: Event) => e.preventDefault()}
+            >
+              {typeof header === 'string' && header ? header : column.id}
+            </DropdownMenuCheckboxItem>
+          )
+        })}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
+
+export default ColumnsMenu
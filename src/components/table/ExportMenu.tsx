@@ -0,0 +1,63 @@
+import { useState } from 'react'
+import type { Row, Table } from '@tanstack/react-table'
+import { FileDown, FileSpreadsheet, FileText } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { exportMatrixToCsv, exportMatrixToXlsx, tableMatrix } from '@/lib/tableExport'
+
+interface ExportMenuProps<T> {
+  table: Table<T>
+  // File name without extension
+  fileName: string
+  sheetName?: string
+  includeRow?: (row: Row<T>) => boolean
+}
+
+// CSV / Excel download of the rows and columns currently shown in the table
+const ExportMenu = <T,>({ table, fileName, sheetName, includeRow }: ExportMenuProps<T>) => {
+  const [isExporting, setIsExporting] = useState(false)
+
+  const handleCsv = () => {
+    exportMatrixToCsv(tableMatrix(table, includeRow), fileName)
+  }
+
+  const handleXlsx = async () => {
+    setIsExporting(true)
+    try {
+      await exportMatrixToXlsx(tableMatrix(table, includeRow), fileName, sheetName)
+    } catch (error) {
+      console.error('Error exporting to Excel:', error)
+      alert('Error exporting to Excel. Please try again.')
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" disabled={isExporting} className="flex items-center gap-2">
+          <FileDown className="h-4 w-4" />
+          {isExporting ? 'Exporting...' : 'Download'}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={handleCsv}>
+          <FileText className="mr-2 h-4 w-4" />
+          CSV
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={handleXlsx}>
+          <FileSpreadsheet className="mr-2 h-4 w-4" />
+          Excel (.xlsx)
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
+
+export default ExportMenu
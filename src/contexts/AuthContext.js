@@ -1,5 +1,6 @@
 import React, { createContext, useContext, useEffect, useState, useCallback } from 'react'
 import { supabase } from '../utils/supabase'
+import { isAdmin } from '../lib/auth/roles'
 
 const AuthContext = createContext(null)
 
@@ -49,27 +50,6 @@ export const AuthProvider = ({ children }) => {
   }, [fetchProfile])
 
   useEffect(() => {
-    // Development bypass - auto login as lindsayleeds@gmail.com
-    if (process.env.NODE_ENV === 'development') {
-      const devUser = {
-        id: 'dev-user-id',
-        email: 'lindsayleeds@gmail.com',
-        user_metadata: {
-          full_name: 'Lindsay Leeds'
-        }
-      }
-      const devProfile = {
-        id: 'dev-user-id',
-        username: 'lindsayleeds',
-        full_name: 'Lindsay Leeds'
-      }
-      
-      setUser(devUser)
-      setProfile(devProfile)
-      setLoading(false)
-      return
-    }
-
     // Get initial session
     getInitialSession()
 
@@ -101,6 +81,22 @@ export const AuthProvider = ({ children }) => {
     }
   }
 
+  // Emails a one-time sign-in link that lands on /auth/callback
+  const signInWithOtp = async (email) => {
+    try {
+      const { data, error } = await supabase.auth.signInWithOtp({
+        email,
+        options: {
+          emailRedirectTo: `${window.location.origin}/auth/callback`,
+        },
+      })
+      if (error) throw error
+      return { data, error: null }
+    } catch (error) {
+      return { data: null, error }
+    }
+  }
+
   const signUp = async (email, password, userData = {}) => {
     try {
       const { data, error } = await supabase.auth.signUp({
@@ -109,17 +105,17 @@ export const AuthProvider = ({ children }) => {
       })
       if (error) throw error
 
-      // Create profile if signup successful
+      // Fill in the profile the database created for the new user
       if (data.user) {
         const { error: profileError } = await supabase
           .from('profiles')
-          .insert([
-            {
-              id: data.user.id,
-              username: userData.username,
-              full_name: userData.full_name,
-            }
-          ])
+          .upsert({
+            id: data.user.id,
+            username: userData.username,
+            full_name: userData.full_name,
+          }, {
+            onConflict: 'id'
+          })
         
         if (profileError) {
           console.error('Error creating profile:', profileError)
@@ -190,8 +186,10 @@ export const AuthProvider = ({ children }) => {
   const value = {
     user,
     profile,
+    isAdmin: isAdmin(profile),
     loading,
     signIn,
+    signInWithOtp,
     signUp,
     signOut,
     updateProfile,
@@ -0,0 +1,61 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import type { SupabaseClient, User } from '@supabase/supabase-js'
+import { isAdmin } from '@/lib/auth/roles'
+import { getUserSupabase } from '@/utils/supabaseServer'
+import { sendError } from './gateway'
+
+// Caller checks for the /api routes. The browser client sends the signed-in user's access
+// token as a bearer token. Only import this from src/pages/api.
+
+export interface Caller {
+  user: User
+  // Acts as the caller, so their writes pass row-level security and the audit log names them
+  db: SupabaseClient
+}
+
+const bearerToken = (req: NextApiRequest) => {
+  const header = req.headers.authorization
+  return header?.startsWith('Bearer ') ? header.slice('Bearer '.length) : null
+}
+
+// Sends a 401 (or a 503 without Supabase) unless the request carries a valid session.
+// Returns the caller when the request may proceed, null otherwise.
+export const requireUser = async (req: NextApiRequest, res: NextApiResponse): Promise<Caller | null> => {
+  const token = bearerToken(req)
+  if (!token) {
+    sendError(res, 401, 'unauthenticated', 'Sign in to continue')
+    return null
+  }
+
+  const db = getUserSupabase(token)
+  if (!db) {
+    sendError(res, 503, 'database_not_configured', 'Supabase is not configured')
+    return null
+  }
+
+  const { data: { user }, error } = await db.auth.getUser(token)
+  if (error || !user) {
+    sendError(res, 401, 'unauthenticated', 'Your session has expired. Sign in again.')
+    return null
+  }
+  return { user, db }
+}
+
+// As requireUser, plus a 403 unless the caller is an admin
+export const requireAdmin = async (req: NextApiRequest, res: NextApiResponse): Promise<Caller | null> => {
+  const caller = await requireUser(req, res)
+  if (!caller) return null
+
+  const { data: profile, error } = await caller.db
+    .from('profiles')
+    .select('role')
+    .eq('id', caller.user.id)
+    .maybeSingle()
+  if (error) throw error
+
+  if (!isAdmin(profile)) {
+    sendError(res, 403, 'forbidden', 'Only an admin can do this')
+    return null
+  }
+  return caller
+}
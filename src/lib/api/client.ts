@@ -0,0 +1,126 @@
+import type {
+  AddSnapshotPositionRequest,
+  AddSnapshotPositionResponse,
+  ApiErrorBody,
+  CreateSnapshotRequest,
+  CreateSnapshotResponse,
+  FetchPricesResponse,
+  InviteUserRequest,
+  ListUsersResponse,
+  PopulateDividendsResponse,
+  PortfolioReturnResponse,
+  SnapshotBenchmarksResponse,
+  SyncCompanyNamesRequest,
+  SyncCompanyNamesResponse,
+  UpdateUserRequest,
+  UserResponse,
+} from './types'
+import { supabase } from '@/utils/supabase'
+
+// Browser client for the /api gateway. Pages call these instead of talking to the backend directly.
+
+export class ApiError extends Error {
+  status: number
+  code: string
+  details?: unknown
+
+  constructor(status: number, code: string, message: string, details?: unknown) {
+    super(message)
+    this.name = 'ApiError'
+    this.status = status
+    this.code = code
+    this.details = details
+  }
+}
+
+// The signed-in user's access token, so routes can check who is calling
+const authHeaders = async (): Promise<Record<string, string>> => {
+  const { data } = await supabase.auth.getSession()
+  const token = data?.session?.access_token
+  return token ? { Authorization: `Bearer ${token}` } : {}
+}
+
+const request = async <T>(path: string, init: RequestInit = {}): Promise<T> => {
+  let response: Response
+  try {
+    response = await fetch(`/api${path}`, {
+      ...init,
+      headers: { 'Content-Type': 'application/json', ...await authHeaders(), ...init.headers },
+    })
+  } catch (error) {
+    throw new ApiError(0, 'network_error', error.message || 'Network request failed')
+  }
+
+  const payload = await response.json().catch(() => null)
+
+  if (!response.ok) {
+    const body = payload as ApiErrorBody | null
+    throw new ApiError(
+      response.status,
+      body?.error?.code || 'unknown_error',
+      body?.error?.message || `Request failed with status ${response.status}`,
+      body?.error?.details
+    )
+  }
+
+  return payload as T
+}
+
+// Builds the snapshot natively from positions and dividends
+export const createSnapshot = (body: CreateSnapshotRequest) =>
+  request<CreateSnapshotResponse>('/snapshots', {
+    method: 'POST',
+    body: JSON.stringify(body),
+  })
+
+export const fetchSnapshotPrices = (snapshotId: string) =>
+  request<FetchPricesResponse>(`/snapshots/${snapshotId}/fetch-prices`, { method: 'POST' })
+
+// Re-prices the snapshot natively through the configured market-data provider
+export const refreshSnapshotPrices = (snapshotId: string) =>
+  request<FetchPricesResponse>(`/snapshots/${snapshotId}/refresh-prices`, { method: 'POST' })
+
+// Adds the provider's dividend payments to the ledger, then recomputes the snapshot from it
+export const populateSnapshotDividends = (snapshotId: string) =>
+  request<PopulateDividendsResponse>(`/snapshots/${snapshotId}/populate-dividends`, { method: 'POST' })
+
+// Recomputes the snapshot's dividends natively from the dividends ledger
+export const recomputeSnapshotDividends = (snapshotId: string) =>
+  request<PopulateDividendsResponse>(`/snapshots/${snapshotId}/recompute-dividends`, { method: 'POST' })
+
+// Adds a position to an existing snapshot, clipped to its window and priced natively
+export const addSnapshotPosition = (snapshotId: string, body: AddSnapshotPositionRequest) =>
+  request<AddSnapshotPositionResponse>(`/snapshots/${snapshotId}/positions`, {
+    method: 'POST',
+    body: JSON.stringify(body),
+  })
+
+// Recomputes and stores the snapshot's overall_portfolio_return_pct
+export const recalculatePortfolioReturn = (snapshotId: string) =>
+  request<PortfolioReturnResponse>(`/snapshots/${snapshotId}/portfolio-return`, { method: 'POST' })
+
+export const getSnapshotBenchmarks = (snapshotId: string) =>
+  request<SnapshotBenchmarksResponse>(`/snapshots/${snapshotId}/benchmarks`)
+
+// Fills in company names from the configured market-data provider's profiles
+export const syncCompanyNames = (body: SyncCompanyNamesRequest = {}) =>
+  request<SyncCompanyNamesResponse>('/positions/sync-names', {
+    method: 'POST',
+    body: JSON.stringify(body),
+  })
+
+export const listUsers = () => request<ListUsersResponse>('/admin/users')
+
+// Emails a magic-link invitation; the new account starts as a user
+export const inviteUser = (body: InviteUserRequest) =>
+  request<UserResponse>('/admin/users', {
+    method: 'POST',
+    body: JSON.stringify(body),
+  })
+
+// Changes a user's role or deactivates/reactivates their account
+export const updateUser = (userId: string, body: UpdateUserRequest) =>
+  request<UserResponse>(`/admin/users/${userId}`, {
+    method: 'PATCH',
+    body: JSON.stringify(body),
+  })
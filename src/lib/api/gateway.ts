@@ -0,0 +1,100 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import type { ApiErrorBody } from './types'
+
+// Server-side helpers for the /api routes. Only import this from src/pages/api.
+
+const DEFAULT_BACKEND_URL = 'http://localhost:4021'
+const DEFAULT_TIMEOUT_MS = 30000
+
+type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE'
+
+export const getBackendUrl = () => {
+  const url = process.env.BACKEND_API_URL || DEFAULT_BACKEND_URL
+  return url.replace(/\/+$/, '')
+}
+
+const getTimeoutMs = () => {
+  const value = Number(process.env.BACKEND_TIMEOUT_MS)
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_TIMEOUT_MS
+}
+
+export const sendError = (
+  res: NextApiResponse<ApiErrorBody>,
+  status: number,
+  code: string,
+  message: string,
+  details?: unknown
+) => {
+  res.status(status).json({ error: { code, message, ...(details !== undefined && { details }) } })
+}
+
+// Rejects anything other than the listed methods with a 405. Returns true when the request may proceed.
+export const allowMethods = (req: NextApiRequest, res: NextApiResponse, methods: HttpMethod[]) => {
+  if (methods.includes(req.method as HttpMethod)) return true
+
+  res.setHeader('Allow', methods)
+  sendError(res, 405, 'method_not_allowed', `Method ${req.method} not allowed`)
+  return false
+}
+
+export const getQueryParam = (req: NextApiRequest, name: string) => {
+  const value = req.query[name]
+  return typeof value === 'string' && value ? value : null
+}
+
+// As getQueryParam, but sends a 400 when the parameter is missing. Returns null after responding.
+export const requireQueryParam = (req: NextApiRequest, res: NextApiResponse, name: string) => {
+  const value = getQueryParam(req, name)
+  if (!value) sendError(res, 400, 'invalid_request', `${name} is required`)
+  return value
+}
+
+interface ProxyOptions {
+  method: HttpMethod
+  body?: unknown
+  timeoutMs?: number
+}
+
+// Forwards a request to the Python backend and relays its JSON response.
+// Timeouts, unreachable hosts and non-2xx responses become structured error bodies.
+export const proxyToBackend = async (res: NextApiResponse, path: string, options: ProxyOptions) => {
+  const controller = new AbortController()
+  const timeout = setTimeout(() => controller.abort(), options.timeoutMs ?? getTimeoutMs())
+  const url = `${getBackendUrl()}${path}`
+
+  try {
+    const response = await fetch(url, {
+      method: options.method,
+      headers: { 'Content-Type': 'application/json' },
+      body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+      signal: controller.signal,
+    })
+
+    const text = await response.text()
+    let payload: unknown = null
+    if (text) {
+      try {
+        payload = JSON.parse(text)
+      } catch {
+        payload = text
+      }
+    }
+
+    if (!response.ok) {
+      sendError(res, response.status >= 500 ? 502 : response.status, 'backend_error',
+        `Backend responded with status ${response.status}`, payload)
+      return
+    }
+
+    res.status(200).json(payload ?? {})
+  } catch (error) {
+    if (error.name === 'AbortError') {
+      sendError(res, 504, 'backend_timeout', `Backend did not respond within ${options.timeoutMs ?? getTimeoutMs()}ms`)
+      return
+    }
+    console.error(`Error calling backend ${url}:`, error)
+    sendError(res, 502, 'backend_unreachable', 'Could not reach the backend service')
+  } finally {
+    clearTimeout(timeout)
+  }
+}
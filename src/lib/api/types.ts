@@ -0,0 +1,104 @@
+import type { WeightingMethod } from '@/lib/snapshots/portfolioReturn'
+import type { UserRole } from '@/lib/auth/roles'
+
+// Request and response contracts shared by the /api routes and the browser client
+
+export interface ApiErrorBody {
+  error: {
+    code: string
+    message: string
+    details?: unknown
+  }
+}
+
+export interface CreateSnapshotRequest {
+  end_date: string
+  start_date?: string
+  name?: string
+  notes?: string
+  weighting_method?: WeightingMethod
+}
+
+export interface CreateSnapshotResponse {
+  snapshot_id: string
+  positions_created?: number
+  message?: string
+}
+
+export interface FetchPricesResponse {
+  snapshot_id?: string
+  updated?: number
+  message?: string
+}
+
+export interface PopulateDividendsResponse {
+  snapshot_id?: string
+  updated?: number
+  message?: string
+}
+
+export interface AddSnapshotPositionRequest {
+  position_id: string
+}
+
+export interface AddSnapshotPositionResponse {
+  snapshot_id: string
+  snapshot_position_id: string
+}
+
+export interface PortfolioReturnResponse {
+  snapshot_id: string
+  weighting_method: WeightingMethod
+  overall_portfolio_return_pct: number | null
+}
+
+export interface BenchmarkComparison {
+  ticker: string
+  // snapshot_positions.id -> benchmark return over that position's window
+  position_returns: Record<string, number | null>
+  // Over the rows that aren't excluded
+  average_return_pct: number | null
+}
+
+export interface SnapshotBenchmarksResponse {
+  snapshot_id: string
+  benchmarks: BenchmarkComparison[]
+}
+
+export interface SyncCompanyNamesRequest {
+  force_update?: boolean
+}
+
+export interface SyncCompanyNamesResponse {
+  updated?: number
+  message?: string
+}
+
+export interface AdminUser {
+  id: string
+  email: string | null
+  full_name: string | null
+  username: string | null
+  role: UserRole
+  last_sign_in_at: string | null
+  invited_at: string | null
+  // Deactivated accounts are banned in Supabase auth and can't sign in
+  active: boolean
+}
+
+export interface ListUsersResponse {
+  users: AdminUser[]
+}
+
+export interface InviteUserRequest {
+  email: string
+}
+
+export interface UpdateUserRequest {
+  role?: UserRole
+  active?: boolean
+}
+
+export interface UserResponse {
+  user: AdminUser
+}
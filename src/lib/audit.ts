@@ -0,0 +1,104 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+// The `audit_log` table: written by a database trigger on every insert, update and
+// delete (see the audit_log migration). The only rows the app writes itself are account
+// (de)activations, under 'users'.
+
+export type AuditAction = 'INSERT' | 'UPDATE' | 'DELETE'
+
+export interface AuditEntry {
+  id: string
+  table_name: string
+  row_id: string | null
+  action: AuditAction
+  actor: string | null
+  old_data: Record<string, unknown> | null
+  new_data: Record<string, unknown> | null
+  position_id: string | null
+  snapshot_id: string | null
+  changed_at: string
+  // Resolved from profiles by withActorNames
+  actor_name?: string
+}
+
+export interface FieldChange {
+  field: string
+  before: unknown
+  after: unknown
+}
+
+export const AUDIT_COLUMNS = 'id, table_name, row_id, action, actor, old_data, new_data, position_id, snapshot_id, changed_at'
+
+export const AUDITED_TABLES: { value: string, label: string }[] = [
+  { value: 'positions', label: 'Positions' },
+  { value: 'position_transactions', label: 'Trades' },
+  { value: 'position_ticker_aliases', label: 'Ticker renames' },
+  { value: 'dividends', label: 'Dividends' },
+  { value: 'corporate_actions', label: 'Corporate actions' },
+  { value: 'snapshots', label: 'Snapshots' },
+  { value: 'snapshot_positions', label: 'Snapshot positions' },
+  { value: 'snapshot_benchmarks', label: 'Snapshot benchmarks' },
+  { value: 'settings', label: 'Settings' },
+  { value: 'profiles', label: 'Profiles' },
+  { value: 'users', label: 'Accounts' },
+]
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  INSERT: 'Created',
+  UPDATE: 'Updated',
+  DELETE: 'Deleted',
+}
+
+// Bookkeeping columns that change on every save
+const IGNORED_FIELDS = new Set(['updated_at', 'overall_return_computed_at'])
+
+export const tableLabel = (table: string) =>
+  AUDITED_TABLES.find(t => t.value === table)?.label ?? table
+
+// Columns whose value differs between old_data and new_data. Inserts list every set
+// column and deletes every column the row had.
+export const changedFields = (entry: AuditEntry): FieldChange[] => {
+  const before = entry.old_data ?? {}
+  const after = entry.new_data ?? {}
+  return [...new Set([...Object.keys(before), ...Object.keys(after)])]
+    .filter(field => !IGNORED_FIELDS.has(field))
+    .filter(field => JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null))
+    .map(field => ({ field, before: before[field] ?? null, after: after[field] ?? null }))
+}
+
+// A readable name for the row: its ticker, name or settings key, else its id
+export const describeAuditRow = (entry: AuditEntry) => {
+  const data = entry.new_data ?? entry.old_data ?? {}
+  const label = data.ticker ?? data.name ?? data.key ?? data.username ?? data.email
+  return typeof label === 'string' && label ? label : entry.row_id ?? '-'
+}
+
+export const formatAuditValue = (value: unknown) => {
+  if (value === null || value === undefined) return '—'
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+// Fills in actor_name from profiles; entries without an actor came from the service role
+// or the SQL editor
+export const withActorNames = async (db: SupabaseClient, entries: AuditEntry[]): Promise<AuditEntry[]> => {
+  const actorIds = [...new Set(entries.map(e => e.actor).filter(Boolean))]
+  let names: Record<string, string> = {}
+  if (actorIds.length > 0) {
+    const { data, error } = await db
+      .from('profiles')
+      .select('id, username, full_name')
+      .in('id', actorIds)
+
+    if (error) {
+      console.error('Error fetching profiles:', error)
+    } else {
+      names = Object.fromEntries((data || []).map(p => [p.id, p.full_name || p.username || p.id]))
+    }
+  }
+
+  return entries.map(e => ({
+    ...e,
+    actor_name: e.actor ? names[e.actor] || e.actor : 'System',
+  }))
+}
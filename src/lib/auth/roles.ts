@@ -0,0 +1,16 @@
+// profiles.role. The database enforces admin-only actions with triggers (see the
+// profile_roles migration); these checks decide what the UI offers.
+
+export type UserRole = 'admin' | 'user'
+
+export const USER_ROLES: UserRole[] = ['admin', 'user']
+
+interface RoleProfile {
+  role?: string | null
+}
+
+export const isAdmin = (profile: RoleProfile | null | undefined) => profile?.role === 'admin'
+
+// Admins pass every role check
+export const hasRole = (profile: RoleProfile | null | undefined, role: UserRole) =>
+  isAdmin(profile) || profile?.role === role
@@ -0,0 +1,77 @@
+import type { SupabaseClient, User } from '@supabase/supabase-js'
+import type { AdminUser } from '@/lib/api/types'
+import type { UserRole } from '@/lib/auth/roles'
+
+// Accounts for the admin users page: Supabase auth users joined with their profiles.
+// Needs the service-role client, so only import this from src/pages/api.
+
+// Deactivation bans the account for a century; 'none' lifts the ban
+export const DEACTIVATED_BAN = '876000h'
+
+interface ProfileRow {
+  id: string
+  full_name: string | null
+  username: string | null
+  role: UserRole | null
+}
+
+// The admin API returns banned_until, but the User type doesn't declare it
+const isBanned = (user: User & { banned_until?: string | null }) =>
+  !!user.banned_until && new Date(user.banned_until) > new Date()
+
+const toAdminUser = (user: User, profile: ProfileRow | undefined): AdminUser => ({
+  id: user.id,
+  email: user.email ?? null,
+  full_name: profile?.full_name ?? null,
+  username: profile?.username ?? null,
+  role: profile?.role === 'admin' ? 'admin' : 'user',
+  last_sign_in_at: user.last_sign_in_at ?? null,
+  invited_at: user.invited_at ?? null,
+  active: !isBanned(user),
+})
+
+const fetchProfiles = async (db: SupabaseClient, ids: string[]) => {
+  const { data, error } = await db
+    .from('profiles')
+    .select('id, full_name, username, role')
+    .in('id', ids)
+  if (error) throw error
+  return new Map((data as ProfileRow[] || []).map(p => [p.id, p]))
+}
+
+export const listAdminUsers = async (db: SupabaseClient): Promise<AdminUser[]> => {
+  const perPage = 200
+  const users: User[] = []
+  for (let page = 1; ; page++) {
+    const { data, error } = await db.auth.admin.listUsers({ page, perPage })
+    if (error) throw error
+    users.push(...data.users)
+    if (data.users.length < perPage) break
+  }
+
+  const profiles = users.length > 0 ? await fetchProfiles(db, users.map(u => u.id)) : new Map()
+  return users
+    .map(user => toAdminUser(user, profiles.get(user.id)))
+    .sort((a, b) => (a.email ?? '').localeCompare(b.email ?? ''))
+}
+
+export const getAdminUser = async (db: SupabaseClient, userId: string): Promise<AdminUser> => {
+  const { data, error } = await db.auth.admin.getUserById(userId)
+  if (error) throw error
+  const profiles = await fetchProfiles(db, [userId])
+  return toAdminUser(data.user, profiles.get(userId))
+}
+
+// Bans live in auth.users, which has no audit trigger, so (de)activations are logged here
+// with the admin who made them
+export const recordActivation = async (db: SupabaseClient, actorId: string, user: AdminUser, active: boolean) => {
+  const { error } = await db.from('audit_log').insert({
+    table_name: 'users',
+    row_id: user.id,
+    action: 'UPDATE',
+    actor: actorId,
+    old_data: { email: user.email, active: user.active },
+    new_data: { email: user.email, active },
+  })
+  if (error) throw error
+}
@@ -0,0 +1,172 @@
+import { toNumber } from '@/lib/returns'
+
+// The `corporate_actions` table: splits, ticker changes, spin-offs and delistings.
+// Prices, per-share dividends and trades dated before an action are adjusted back so
+// a window's start and end prices compare like for like.
+
+export type CorporateActionType = 'split' | 'ticker_change' | 'spin_off' | 'delisting'
+
+export const CORPORATE_ACTION_TYPES: { value: CorporateActionType, label: string }[] = [
+  { value: 'split', label: 'Split' },
+  { value: 'ticker_change', label: 'Ticker change' },
+  { value: 'spin_off', label: 'Spin-off' },
+  { value: 'delisting', label: 'Delisting' },
+]
+
+export interface CorporateAction {
+  id?: string
+  ticker: string
+  action_type: CorporateActionType
+  effective_date: string
+  // split: new shares per old share; spin_off: share of value kept by the parent
+  ratio: number | string | null
+  new_ticker: string | null
+  cash_price: number | string | null
+  notes?: string | null
+}
+
+// Stored on snapshot_positions; price_adjustment is read by positionReturn
+export interface WindowAdjustment {
+  // Multiplies the window's start price; null when nothing in the window moves prices
+  price_adjustment: number | null
+  adjustment_note: string | null
+  // Per-share cash-out when the ticker was delisted inside the window
+  cash_out_price: number | null
+}
+
+export const CORPORATE_ACTION_COLUMNS = 'id, ticker, action_type, effective_date, ratio, new_ticker, cash_price, notes'
+
+const formatRatio = (value: number) => Number(value.toFixed(4)).toString()
+
+export const describeAction = (action: CorporateAction) => {
+  const ratio = toNumber(action.ratio)
+  switch (action.action_type) {
+    case 'split':
+      if (ratio === null) return 'Split'
+      return ratio >= 1
+        ? `${formatRatio(ratio)}-for-1 split`
+        : `1-for-${formatRatio(1 / ratio)} reverse split`
+    case 'spin_off':
+      return ratio === null ? 'Spin-off' : `Spin-off (${formatRatio(ratio * 100)}% of value kept)`
+    case 'ticker_change':
+      return `Renamed to ${action.new_ticker}`
+    case 'delisting':
+      return `Delisted, cashed out at $${(toNumber(action.cash_price) ?? 0).toFixed(2)}`
+  }
+}
+
+// Every action that applies to `ticker`, following ticker changes forward so actions
+// recorded under the new symbol still count
+export const actionsForTicker = (actions: CorporateAction[], ticker: string) => {
+  const tickers = new Set([ticker])
+  const sorted = [...actions].sort((a, b) => a.effective_date.localeCompare(b.effective_date))
+  const found: CorporateAction[] = []
+  for (const action of sorted) {
+    if (!tickers.has(action.ticker)) continue
+    found.push(action)
+    if (action.action_type === 'ticker_change' && action.new_ticker) tickers.add(action.new_ticker)
+  }
+  return found
+}
+
+// The symbol `ticker` traded under on `date`
+export const tickerOn = (actions: CorporateAction[], ticker: string, date: string) => {
+  const changes = actionsForTicker(actions, ticker)
+    .filter(a => a.action_type === 'ticker_change' && a.new_ticker && a.effective_date <= date)
+  return changes.length > 0 ? changes[changes.length - 1].new_ticker : ticker
+}
+
+// Actions that take effect after `date`, up to and including `asOf`
+const actionsBetween = (actions: CorporateAction[], ticker: string, date: string, asOf: string) =>
+  actionsForTicker(actions, ticker).filter(a => a.effective_date > date && a.effective_date <= asOf)
+
+// New shares per share held on `date`, as of `asOf`
+export const splitRatio = (actions: CorporateAction[], ticker: string, date: string, asOf: string) =>
+  actionsBetween(actions, ticker, date, asOf)
+    .filter(a => a.action_type === 'split')
+    .reduce((ratio, a) => ratio * (toNumber(a.ratio) ?? 1), 1)
+
+// Multiplier that makes a per-share amount quoted on `date` comparable with `asOf`
+export const priceFactor = (actions: CorporateAction[], ticker: string, date: string, asOf: string) =>
+  actionsBetween(actions, ticker, date, asOf).reduce((factor, a) => {
+    const ratio = toNumber(a.ratio) ?? 1
+    if (a.action_type === 'split') return factor / ratio
+    if (a.action_type === 'spin_off') return factor * ratio
+    return factor
+  }, 1)
+
+export const windowAdjustment = (
+  actions: CorporateAction[],
+  ticker: string,
+  start: string,
+  end: string
+): WindowAdjustment => {
+  const applied = actionsBetween(actions, ticker, start, end)
+  const factor = priceFactor(actions, ticker, start, end)
+  const delisting = applied.find(a => a.action_type === 'delisting')
+  return {
+    price_adjustment: factor === 1 ? null : factor,
+    adjustment_note: applied.length > 0
+      ? applied.map(a => `${describeAction(a)} (${a.effective_date})`).join('; ')
+      : null,
+    cash_out_price: delisting ? toNumber(delisting.cash_price) : null,
+  }
+}
+
+// Per-share dividend amounts restated in end-of-window shares
+export const adjustDividends = <T extends { payment_date: string, amount: number | string }>(
+  dividends: T[],
+  actions: CorporateAction[],
+  ticker: string,
+  asOf: string
+): T[] =>
+  dividends.map(d => ({
+    ...d,
+    amount: (toNumber(d.amount) ?? 0) * priceFactor(actions, ticker, d.payment_date, asOf),
+  }))
+
+// Trades restated in end-of-window shares. Quantity times price is unchanged by a split,
+// so cost and proceeds only move with spin-offs.
+export const adjustTransactions = <T extends { trade_date: string, quantity: number | string, price: number | string }>(
+  transactions: T[],
+  actions: CorporateAction[],
+  ticker: string,
+  asOf: string
+): T[] =>
+  transactions.map(t => ({
+    ...t,
+    quantity: (toNumber(t.quantity) ?? 0) * splitRatio(actions, ticker, t.trade_date, asOf),
+    price: (toNumber(t.price) ?? 0) * priceFactor(actions, ticker, t.trade_date, asOf),
+  }))
+
+export interface CorporateActionInput {
+  action_type: CorporateActionType
+  effective_date: string
+  ratio: string
+  new_ticker: string
+  cash_price: string
+}
+
+// Why an action can't be saved, or null when it can
+export const validateCorporateAction = (input: CorporateActionInput, ticker: string): string | null => {
+  if (!input.effective_date) return 'Effective date is required'
+  const ratio = toNumber(input.ratio)
+  switch (input.action_type) {
+    case 'split':
+      if (ratio === null || ratio <= 0) return 'Split ratio must be greater than zero'
+      if (ratio === 1) return 'A 1-for-1 split changes nothing'
+      return null
+    case 'spin_off':
+      if (ratio === null || ratio <= 0 || ratio > 1) return 'Value kept must be between 0 and 1'
+      return null
+    case 'ticker_change':
+      if (!input.new_ticker.trim()) return 'New ticker is required'
+      if (input.new_ticker.trim().toUpperCase() === ticker) return 'New ticker must differ from the current one'
+      return null
+    case 'delisting': {
+      const cash = toNumber(input.cash_price)
+      if (cash === null || cash < 0) return 'Cash-out price must be zero or more'
+      return null
+    }
+  }
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest'
+import { parseCsv, parseCsvRecords, parseCsvRecordsWithLines, parseCsvRows, toCsv } from './csv'
+
+describe('parseCsv', () => {
+  it('reads quoted fields, escaped quotes and CRLF line endings', () => {
+    expect(parseCsv('a,"b,c","say ""hi"""\r\n1,2,3\r\n')).toEqual([
+      ['a', 'b,c', 'say "hi"'],
+      ['1', '2', '3'],
+    ])
+  })
+
+  it('drops blank lines', () => {
+    expect(parseCsv('a\n\n1\n')).toEqual([['a'], ['1']])
+  })
+})
+
+describe('parseCsvRows', () => {
+  it('numbers each row by the line it starts on', () => {
+    const text = 'ticker,notes\n\nAAA,"two\nlines"\r\nBBB,x\r\n\r\nCCC,"a\r\nb"\nDDD,y'
+    expect(parseCsvRows(text).map(row => [row.line, row.fields[0]])).toEqual([
+      [1, 'ticker'],
+      [3, 'AAA'],
+      [5, 'BBB'],
+      [7, 'CCC'],
+      [9, 'DDD'],
+    ])
+  })
+})
+
+describe('parseCsvRecords', () => {
+  it('keys records by the trimmed header and ignores a byte order mark', () => {
+    expect(parseCsvRecords('\uFEFF ticker , amount\nAAA, 1.5 \n')).toEqual([{ ticker: 'AAA', amount: '1.5' }])
+  })
+
+  it('keeps the line each record starts on', () => {
+    expect(parseCsvRecordsWithLines('ticker\n\nAAA\n')).toEqual([{ line: 3, values: { ticker: 'AAA' } }])
+  })
+})
+
+describe('toCsv', () => {
+  it('round-trips fields that need quoting', () => {
+    const rows = [['a,b', 'say "hi"', 'two\nlines', null]]
+    expect(parseCsv(toCsv(['x', 'y', 'z', 'w'], rows))[1]).toEqual(['a,b', 'say "hi"', 'two\nlines', ''])
+  })
+})
@@ -0,0 +1,91 @@
+// Minimal RFC 4180 CSV reader/writer: quoted fields, escaped quotes, CRLF or LF line endings.
+
+export interface CsvRow {
+  // 1-based line the row starts on, counting blank lines and line breaks inside quotes
+  line: number
+  fields: string[]
+}
+
+export const parseCsvRows = (text: string): CsvRow[] => {
+  const rows: CsvRow[] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+  let line = 1
+  let rowLine = 1
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        // A CRLF counts once, at its \n
+        if (char === '\n' || (char === '\r' && text[i + 1] !== '\n')) line++
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push({ line: rowLine, fields: row })
+      row = []
+      field = ''
+      line++
+      rowLine = line
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push({ line: rowLine, fields: row })
+  }
+
+  // Drop blank lines
+  return rows.filter(r => r.fields.length > 1 || r.fields[0] !== '')
+}
+
+export const parseCsv = (text: string): string[][] => parseCsvRows(text).map(row => row.fields)
+
+export interface CsvRecord {
+  line: number
+  values: Record<string, string>
+}
+
+// Parses CSV with a header row into objects keyed by the trimmed header names, with the
+// line each record starts on
+export const parseCsvRecordsWithLines = (text: string): CsvRecord[] => {
+  const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ''))
+  if (!header) return []
+
+  const keys = header.fields.map(h => h.trim())
+  return rows.map(row => ({
+    line: row.line,
+    values: Object.fromEntries(keys.map((key, index) => [key, (row.fields[index] ?? '').trim()])),
+  }))
+}
+
+export const parseCsvRecords = (text: string): Record<string, string>[] =>
+  parseCsvRecordsWithLines(text).map(record => record.values)
+
+const escapeField = (value: unknown) => {
+  if (value === null || value === undefined) return ''
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export const toCsv = (header: string[], rows: unknown[][]) =>
+  [header, ...rows].map(row => row.map(escapeField).join(',')).join('\n') + '\n'
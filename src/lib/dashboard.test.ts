@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest'
+import { dividendsYearToDate } from './dashboard'
+
+const positions = [
+  { id: 'single', capital_allocated: 1000, start_price: 50, start_price_override: null },
+  { id: 'overridden', capital_allocated: 1000, start_price: 50, start_price_override: 25 },
+  { id: 'traded', capital_allocated: null, start_price: null },
+  { id: 'unsized', capital_allocated: null, start_price: 10 },
+]
+
+const transactions = [
+  { position_id: 'traded', type: 'buy' as const, trade_date: '2024-01-10', quantity: 100, price: 10 },
+  { position_id: 'traded', type: 'sell' as const, trade_date: '2024-03-01', quantity: 40, price: 12 },
+]
+
+describe('dividendsYearToDate', () => {
+  it('weights single-lot payments by capital over the start price', () => {
+    const dividends = [
+      { position_id: 'single', payment_date: '2024-02-01', amount: '0.50' },
+      { position_id: 'overridden', payment_date: '2024-02-01', amount: 0.5 },
+    ]
+    expect(dividendsYearToDate(dividends, positions, [], '2024-06-30'))
+      .toEqual({ income: 30, payments: 2, unsized: 0 })
+  })
+
+  it('weights payments on traded positions by the shares held before the payment date', () => {
+    const dividends = [
+      { position_id: 'traded', payment_date: '2024-02-01', amount: 1 },
+      { position_id: 'traded', payment_date: '2024-03-01', amount: 1 },
+      { position_id: 'traded', payment_date: '2024-04-01', amount: 1 },
+    ]
+    expect(dividendsYearToDate(dividends, positions, transactions, '2024-06-30').income).toBe(260)
+  })
+
+  it('counts payments it can\'t size without adding them', () => {
+    const dividends = [{ position_id: 'unsized', payment_date: '2024-02-01', amount: 1 }]
+    expect(dividendsYearToDate(dividends, positions, [], '2024-06-30'))
+      .toEqual({ income: 0, payments: 1, unsized: 1 })
+  })
+
+  it('only counts payments from 1 January through today', () => {
+    const dividends = [
+      { position_id: 'single', payment_date: '2023-12-31', amount: 1 },
+      { position_id: 'single', payment_date: '2024-07-01', amount: 1 },
+    ]
+    expect(dividendsYearToDate(dividends, positions, [], '2024-06-30').payments).toBe(0)
+  })
+})
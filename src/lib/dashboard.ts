@@ -0,0 +1,108 @@
+import { effectivePrice, positionReturn, toNumber } from '@/lib/returns'
+import { isExited } from '@/lib/positions/status'
+import { sharesHeldBefore, type LotTransaction } from '@/lib/positions/lots'
+
+// Summaries for the dashboard: performers from the latest finalized snapshot, dividend
+// income received this year, and positions recently opened or closed.
+
+interface RankedRow {
+  start_price: number | string | null
+  end_price: number | string | null
+  dividends_paid?: number | string | null
+  start_price_override?: number | string | null
+  end_price_override?: number | string | null
+  dividends_paid_override?: number | string | null
+  price_adjustment?: number | string | null
+  opening_shares?: number | string | null
+  excluded?: boolean
+}
+
+interface ActivityPosition {
+  id: string
+  start_date: string
+  end_date: string | null
+  status: string
+}
+
+export interface PositionActivity<T extends ActivityPosition> {
+  position: T
+  kind: 'opened' | 'closed'
+  date: string
+}
+
+// Best `count` and worst `count` rows by total return; excluded and unpriced rows are
+// left out, and a row never appears on both lists
+export const rankPerformers = <T extends RankedRow>(rows: T[], count = 5) => {
+  const ranked = rows
+    .filter(row => !row.excluded)
+    .map(row => ({ row, returnPct: positionReturn(row) }))
+    .filter((r): r is { row: T, returnPct: number } => r.returnPct !== null)
+    .sort((a, b) => b.returnPct - a.returnPct)
+
+  const top = ranked.slice(0, count)
+  const bottom = ranked.slice(Math.max(top.length, ranked.length - count)).reverse()
+  return { top, bottom }
+}
+
+interface IncomeDividend {
+  position_id: string
+  payment_date: string
+  amount: number | string
+}
+
+interface IncomePosition {
+  id: string
+  capital_allocated: number | string | null
+  start_price: number | string | null
+  start_price_override?: number | string | null
+}
+
+export interface DividendIncome {
+  income: number
+  payments: number
+  // Payments left out because the shares held couldn't be worked out
+  unsized: number
+}
+
+// Dollars received from 1 January of `today`'s year through `today`. Ledger amounts are
+// per share, so each payment is weighted by the shares held: from the position's trades
+// when it has any, else capital_allocated over its start price.
+export const dividendsYearToDate = (
+  dividends: IncomeDividend[],
+  positions: IncomePosition[],
+  transactions: LotTransaction[],
+  today = new Date().toISOString().slice(0, 10)
+): DividendIncome => {
+  const yearStart = `${today.slice(0, 4)}-01-01`
+  const byId = new Map(positions.map(p => [p.id, p]))
+
+  const sharesFor = (d: IncomeDividend) => {
+    const trades = transactions.filter(t => t.position_id === d.position_id)
+    if (trades.length > 0) return sharesHeldBefore(trades, d.payment_date)
+    const position = byId.get(d.position_id)
+    const capital = toNumber(position?.capital_allocated)
+    const startPrice = position ? effectivePrice(position.start_price, position.start_price_override) : null
+    return capital !== null && startPrice ? capital / startPrice : null
+  }
+
+  return dividends
+    .filter(d => d.payment_date >= yearStart && d.payment_date <= today)
+    .reduce((total, d) => {
+      const shares = sharesFor(d)
+      return shares === null
+        ? { ...total, payments: total.payments + 1, unsized: total.unsized + 1 }
+        : { ...total, payments: total.payments + 1, income: total.income + shares * (toNumber(d.amount) ?? 0) }
+    }, { income: 0, payments: 0, unsized: 0 })
+}
+
+// Opens and exits, newest first. A position opened and closed in the window appears twice.
+export const recentActivity = <T extends ActivityPosition>(positions: T[], count = 8): PositionActivity<T>[] =>
+  positions
+    .flatMap(position => [
+      { position, kind: 'opened' as const, date: position.start_date },
+      ...(isExited(position.status) && position.end_date
+        ? [{ position, kind: 'closed' as const, date: position.end_date }]
+        : []),
+    ])
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .slice(0, count)
@@ -0,0 +1,56 @@
+import { toNumber } from '@/lib/returns'
+
+// The `dividends` ledger: one row per payment received on a position. Snapshot
+// dividends_paid is summed from here (see recomputeSnapshotDividends).
+
+export interface LedgerDividend {
+  id: string
+  position_id: string
+  payment_date: string
+  amount: number | string
+  ticker: string | null
+  created_at?: string
+}
+
+export interface DividendFilters {
+  ticker: string
+  // Inclusive ISO dates; '' means unbounded
+  from: string
+  to: string
+}
+
+export interface DividendInput {
+  payment_date: string
+  amount: string
+}
+
+interface HoldingPeriod {
+  start_date: string
+  end_date: string | null
+}
+
+export const EMPTY_DIVIDEND_FILTERS: DividendFilters = { ticker: '', from: '', to: '' }
+
+export const filterDividends = <T extends LedgerDividend>(dividends: T[], filters: DividendFilters) =>
+  dividends.filter(d =>
+    (!filters.ticker || d.ticker === filters.ticker) &&
+    (!filters.from || d.payment_date >= filters.from) &&
+    (!filters.to || d.payment_date <= filters.to))
+
+export const sumAmounts = (dividends: LedgerDividend[]) =>
+  dividends.reduce((sum, d) => sum + (toNumber(d.amount) ?? 0), 0)
+
+// Why a payment can't be saved against this position, or null when it can
+export const validateDividend = (input: DividendInput, position: HoldingPeriod | null): string | null => {
+  if (!position) return 'Choose a position'
+  if (!input.payment_date) return 'Payment date is required'
+  const amount = toNumber(input.amount)
+  if (amount === null || amount <= 0) return 'Amount must be greater than zero'
+  if (input.payment_date < position.start_date) {
+    return `Payment date is before the position opened (${position.start_date})`
+  }
+  if (position.end_date && input.payment_date > position.end_date) {
+    return `Payment date is after the position closed (${position.end_date})`
+  }
+  return null
+}
@@ -0,0 +1,42 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { CompanyProfile, PriceProvider } from '@/lib/prices'
+
+export interface SyncCompanyNamesResult {
+  updated: number
+}
+
+// Native replacement for the backend's POST /snapshots/populate-all-company-names. Fills
+// each position's company_name from the provider's company profile. Names already set are
+// kept unless `force` is on, and tickers without a profile are left alone.
+export const syncCompanyNames = async (
+  db: SupabaseClient,
+  provider: PriceProvider,
+  force = false
+): Promise<SyncCompanyNamesResult> => {
+  const { data: positions, error: positionsError } = await db
+    .from('positions')
+    .select('id, ticker, company_name')
+  if (positionsError) throw positionsError
+
+  // One lookup per ticker, however many positions hold it
+  const profiles = new Map<string, Promise<CompanyProfile | null>>()
+
+  let updated = 0
+  for (const position of positions) {
+    if (position.company_name && !force) continue
+
+    const ticker = position.ticker.toUpperCase()
+    if (!profiles.has(ticker)) profiles.set(ticker, provider.getCompanyProfile(ticker))
+    const name = (await profiles.get(ticker))?.company_name
+    if (!name || name === position.company_name) continue
+
+    const { error } = await db
+      .from('positions')
+      .update({ company_name: name, updated_at: new Date().toISOString() })
+      .eq('id', position.id)
+    if (error) throw error
+    updated++
+  }
+
+  return { updated }
+}
@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest'
+import { parseCsvRecordsWithLines } from '@/lib/csv'
+import { guessMapping, parseImportRows, planImport, type ExistingPosition } from './import'
+
+// Parses `text` with the mapping the import page would guess from its header
+const parse = (text: string) => {
+  const records = parseCsvRecordsWithLines(text)
+  return parseImportRows(records, guessMapping(Object.keys(records[0].values)))
+}
+
+const existing = (overrides: Partial<ExistingPosition>): ExistingPosition => ({
+  id: 'p1',
+  ticker: 'AAA',
+  company_name: 'Alpha Inc',
+  start_date: '2024-01-02',
+  end_date: null,
+  start_price_override: null,
+  end_price_override: null,
+  capital_allocated: '1000',
+  status: 'Open',
+  blog_post_url: null,
+  ...overrides,
+})
+
+describe('guessMapping', () => {
+  it('matches header aliases regardless of case, spacing and dashes', () => {
+    const mapping = guessMapping(['Symbol', 'Buy Date', 'sell-date', 'Buy Price', 'Capital', 'Blog'])
+
+    expect(mapping).toMatchObject({
+      ticker: 'Symbol',
+      start_date: 'Buy Date',
+      end_date: 'sell-date',
+      start_price_override: 'Buy Price',
+      capital_allocated: 'Capital',
+      blog_post_url: 'Blog',
+      company_name: '',
+      status: '',
+    })
+  })
+
+  it('prefers the exact field name over a looser alias', () => {
+    expect(guessMapping(['name', 'company_name']).company_name).toBe('company_name')
+  })
+})
+
+describe('parseImportRows', () => {
+  it('normalises tickers, US dates and currency amounts', () => {
+    const [row] = parse('symbol,opened,capital,buy_price\naaa,3/5/2024,"$1,250.50", 10 \n')
+
+    expect(row.errors).toEqual([])
+    expect(row.values).toMatchObject({
+      ticker: 'AAA',
+      start_date: '2024-03-05',
+      capital_allocated: 1250.5,
+      start_price_override: 10,
+      status: 'Open',
+    })
+  })
+
+  it('reports bad dates, numbers, statuses and links without building values', () => {
+    const [row] = parse('ticker,start_date,end_date,capital,status,url\nAAA,2024-02-30,soon,-5,Sold,ftp://x\n')
+
+    expect(row.values).toBeNull()
+    expect(row.start_date).toBe('2024-02-30')
+    expect(row.errors).toEqual([
+      'Start date "2024-02-30" is not a valid date',
+      'End date "soon" is not a valid date',
+      'Capital allocated "-5" must be a non-negative number',
+      'Status "Sold" must be Open, Closed or Delisted',
+      'Blog post URL "ftp://x" must be an http(s) link',
+    ])
+  })
+
+  it('rejects an end date before the start date', () => {
+    const [row] = parse('ticker,start_date,end_date\nAAA,2024-03-01,2024-02-01\n')
+
+    expect(row.errors).toEqual(['End date is before the start date'])
+  })
+
+  it('defaults the status from the end date and reads Delisted in any case', () => {
+    const rows = parse('ticker,start_date,end_date,status\nAAA,2024-01-02,2024-06-28,\nBBB,2024-01-02,2024-06-28,delisted\n')
+
+    expect(rows.map(row => row.values?.status)).toEqual(['Closed', 'Delisted'])
+  })
+
+  it('only lists non-blank cells as provided', () => {
+    const [row] = parse('ticker,start_date,company,capital\nAAA,2024-01-02,, \n')
+
+    expect(row.provided).toEqual(['ticker', 'start_date'])
+  })
+
+  it('reports the line a row spanning several lines starts on', () => {
+    const rows = parse('ticker,start_date,company\n\nAAA,2024-01-02,"Alpha\nInc"\n,2024-01-02,Beta\n')
+
+    expect(rows.map(row => row.line)).toEqual([3, 5])
+    expect(rows[1].errors).toEqual(['Ticker is required'])
+  })
+})
+
+describe('planImport', () => {
+  it('inserts new positions and flags repeats of the same ticker and start date', () => {
+    const rows = parse('ticker,start_date\nBBB,2024-01-02\nbbb,1/2/2024\n')
+    const plan = planImport(rows, [existing({})])
+
+    expect(plan.map(row => row.action)).toEqual(['insert', 'error'])
+    expect(plan[1].errors).toEqual(['Duplicate of line 2 (same ticker and start date)'])
+  })
+
+  it('keeps existing values for blank cells and lists only real changes', () => {
+    const rows = parse('ticker,start_date,company,capital\nAAA,2024-01-02,,1000\nAAA,2024-01-02,Alpha Corp,\n')
+
+    const [unchanged] = planImport(rows.slice(0, 1), [existing({})])
+    expect(unchanged.action).toBe('unchanged')
+
+    const [updated] = planImport(rows.slice(1), [existing({})])
+    expect(updated).toMatchObject({ action: 'update', existingId: 'p1' })
+    expect(updated.changes).toEqual([{ field: 'company_name', from: 'Alpha Inc', to: 'Alpha Corp' }])
+  })
+
+  it('closes an open position when the file adds an end date', () => {
+    const rows = parse('ticker,start_date,end_date\nAAA,2024-01-02,2024-06-28\n')
+    const [row] = planImport(rows, [existing({})])
+
+    expect(row.changes).toEqual([
+      { field: 'end_date', from: null, to: '2024-06-28' },
+      { field: 'status', from: 'Open', to: 'Closed' },
+    ])
+  })
+
+  it('keeps a Delisted status when the file only sets an end date', () => {
+    const rows = parse('ticker,start_date,end_date\nAAA,2024-01-02,2024-06-28\n')
+    const [row] = planImport(rows, [existing({ end_date: '2024-05-31', status: 'Delisted' })])
+
+    expect(row.changes).toEqual([{ field: 'end_date', from: '2024-05-31', to: '2024-06-28' }])
+    expect(row.values?.status).toBe('Delisted')
+  })
+
+  it('lets an explicit status override the end date rule', () => {
+    const rows = parse('ticker,start_date,end_date,status\nAAA,2024-01-02,2024-06-28,Delisted\n')
+    const [row] = planImport(rows, [existing({ end_date: '2024-06-28', status: 'Closed' })])
+
+    expect(row.changes).toEqual([{ field: 'status', from: 'Closed', to: 'Delisted' }])
+  })
+})
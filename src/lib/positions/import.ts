@@ -0,0 +1,285 @@
+import type { CsvRecord } from '@/lib/csv'
+import { toNumber } from '@/lib/returns'
+import { POSITION_STATUSES, isExited, type PositionStatus } from '@/lib/positions/status'
+import { isValidUrl } from '@/lib/url'
+
+// Bulk position import: map CSV columns onto position fields, validate every row, then
+// diff against the existing positions. Rows match on ticker + start_date.
+
+export type ImportField =
+  | 'ticker'
+  | 'company_name'
+  | 'start_date'
+  | 'end_date'
+  | 'start_price_override'
+  | 'end_price_override'
+  | 'capital_allocated'
+  | 'status'
+  | 'blog_post_url'
+
+export interface ImportFieldDefinition {
+  field: ImportField
+  label: string
+  required?: boolean
+  // Lower-case header names recognised when guessing the mapping
+  aliases: string[]
+}
+
+export const IMPORT_FIELDS: ImportFieldDefinition[] = [
+  { field: 'ticker', label: 'Ticker', required: true, aliases: ['ticker', 'symbol'] },
+  { field: 'company_name', label: 'Company', aliases: ['company_name', 'company', 'name'] },
+  { field: 'start_date', label: 'Start Date', required: true, aliases: ['start_date', 'start', 'opened', 'buy_date'] },
+  { field: 'end_date', label: 'End Date', aliases: ['end_date', 'end', 'closed', 'sell_date'] },
+  { field: 'start_price_override', label: 'Start Price Override', aliases: ['start_price_override', 'start_price', 'buy_price'] },
+  { field: 'end_price_override', label: 'End Price Override', aliases: ['end_price_override', 'end_price', 'sell_price'] },
+  { field: 'capital_allocated', label: 'Capital Allocated', aliases: ['capital_allocated', 'capital', 'amount'] },
+  { field: 'status', label: 'Status', aliases: ['status'] },
+  { field: 'blog_post_url', label: 'Blog Post URL', aliases: ['blog_post_url', 'blog_url', 'blog', 'url'] },
+]
+
+// CSV header for each field, or '' when the field isn't imported
+export type ColumnMapping = Record<ImportField, string>
+
+export interface ImportValues {
+  ticker: string
+  company_name: string | null
+  start_date: string
+  end_date: string | null
+  start_price_override: number | null
+  end_price_override: number | null
+  capital_allocated: number | null
+  status: PositionStatus
+  blog_post_url: string | null
+}
+
+export interface ParsedImportRow {
+  // 1-based line in the file the row starts on
+  line: number
+  // As written in the file, so rows that fail validation can still be identified
+  ticker: string
+  start_date: string
+  values: ImportValues | null
+  // Fields with a non-blank cell. Blank cells never overwrite an existing value.
+  provided: ImportField[]
+  errors: string[]
+}
+
+export interface ExistingPosition {
+  id: string
+  ticker: string
+  company_name: string | null
+  start_date: string
+  end_date: string | null
+  start_price_override: number | string | null
+  end_price_override: number | string | null
+  capital_allocated: number | string | null
+  status: string
+  blog_post_url: string | null
+}
+
+export interface FieldChange {
+  field: ImportField
+  from: string | number | null
+  to: string | number | null
+}
+
+export type ImportAction = 'insert' | 'update' | 'unchanged' | 'error'
+
+export interface ImportPlanRow {
+  line: number
+  action: ImportAction
+  ticker: string
+  start_date: string
+  values: ImportValues | null
+  existingId: string | null
+  changes: FieldChange[]
+  errors: string[]
+}
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[\s-]+/g, '_')
+
+export const guessMapping = (headers: string[]): ColumnMapping => {
+  const mapping = {} as ColumnMapping
+  const used = new Set<string>()
+  for (const { field, aliases } of IMPORT_FIELDS) {
+    // Aliases are in priority order, so an exact field name beats a looser match
+    const match = aliases
+      .map(alias => headers.find(h => !used.has(h) && normalizeHeader(h) === alias))
+      .find(Boolean)
+    mapping[field] = match ?? ''
+    if (match) used.add(match)
+  }
+  return mapping
+}
+
+// Accepts ISO dates and US-style M/D/YYYY; returns YYYY-MM-DD or null
+export const parseImportDate = (value: string): string | null => {
+  let year: number, month: number, day: number
+  const iso = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/)
+  const us = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/)
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])]
+  } else if (us) {
+    [month, day, year] = [Number(us[1]), Number(us[2]), Number(us[3])]
+  } else {
+    return null
+  }
+  const date = new Date(Date.UTC(year, month - 1, day))
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null
+  }
+  return date.toISOString().slice(0, 10)
+}
+
+// Strips currency symbols and thousands separators: "$1,250.50" -> 1250.5
+const parseAmount = (value: string) => toNumber(value.replace(/[$,\s]/g, ''))
+
+const TICKER_PATTERN = /^[A-Z0-9][A-Z0-9.\-]{0,9}$/
+
+export const parseImportRows = (records: CsvRecord[], mapping: ColumnMapping): ParsedImportRow[] =>
+  records.map(({ line, values: record }) => {
+    const errors: string[] = []
+    const cell = (field: ImportField) => (mapping[field] ? (record[mapping[field]] ?? '').trim() : '')
+    const provided = IMPORT_FIELDS.map(f => f.field).filter(field => cell(field) !== '')
+
+    const ticker = cell('ticker').toUpperCase()
+    if (!ticker) {
+      errors.push('Ticker is required')
+    } else if (!TICKER_PATTERN.test(ticker)) {
+      errors.push(`Ticker "${ticker}" is not valid`)
+    }
+
+    const startDate = cell('start_date') ? parseImportDate(cell('start_date')) : null
+    if (!cell('start_date')) {
+      errors.push('Start date is required')
+    } else if (!startDate) {
+      errors.push(`Start date "${cell('start_date')}" is not a valid date`)
+    }
+
+    const endDate = cell('end_date') ? parseImportDate(cell('end_date')) : null
+    if (cell('end_date') && !endDate) {
+      errors.push(`End date "${cell('end_date')}" is not a valid date`)
+    } else if (startDate && endDate && endDate < startDate) {
+      errors.push('End date is before the start date')
+    }
+
+    const amount = (field: ImportField, label: string) => {
+      if (!cell(field)) return null
+      const value = parseAmount(cell(field))
+      if (value === null || value < 0) {
+        errors.push(`${label} "${cell(field)}" must be a non-negative number`)
+        return null
+      }
+      return value
+    }
+    const startOverride = amount('start_price_override', 'Start price override')
+    const endOverride = amount('end_price_override', 'End price override')
+    const capital = amount('capital_allocated', 'Capital allocated')
+
+    let status: PositionStatus = endDate ? 'Closed' : 'Open'
+    if (cell('status')) {
+      const match = POSITION_STATUSES.find(s => s.toLowerCase() === cell('status').toLowerCase())
+      if (match) {
+        status = match
+      } else {
+        errors.push(`Status "${cell('status')}" must be Open, Closed or Delisted`)
+      }
+    }
+
+    const blogPostUrl = cell('blog_post_url') || null
+    if (blogPostUrl && !isValidUrl(blogPostUrl)) {
+      errors.push(`Blog post URL "${blogPostUrl}" must be an http(s) link`)
+    }
+
+    return {
+      line,
+      ticker,
+      start_date: startDate ?? cell('start_date'),
+      provided,
+      errors,
+      values: errors.length > 0 ? null : {
+        ticker,
+        company_name: cell('company_name') || null,
+        start_date: startDate,
+        end_date: endDate,
+        start_price_override: startOverride,
+        end_price_override: endOverride,
+        capital_allocated: capital,
+        status,
+        blog_post_url: blogPostUrl,
+      },
+    }
+  })
+
+export const importKey = (ticker: string, startDate: string) => `${ticker.toUpperCase()}|${startDate.slice(0, 10)}`
+
+const comparable = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return null
+  return typeof value === 'number' ? value : String(value)
+}
+
+const NUMERIC_FIELDS: ImportField[] = ['start_price_override', 'end_price_override', 'capital_allocated']
+
+// Dry run: what importing `rows` would do, without writing anything
+export const planImport = (rows: ParsedImportRow[], existing: ExistingPosition[]): ImportPlanRow[] => {
+  const existingByKey = new Map(existing.map(p => [importKey(p.ticker, p.start_date), p]))
+  const seen = new Map<string, number>()
+
+  return rows.map(row => {
+    const { values } = row
+    const base = {
+      line: row.line,
+      ticker: row.ticker,
+      start_date: row.start_date,
+      values,
+      existingId: null,
+      changes: [],
+    }
+    if (!values) {
+      return { ...base, action: 'error' as const, errors: row.errors }
+    }
+
+    const key = importKey(values.ticker, values.start_date)
+    const duplicateOf = seen.get(key)
+    if (duplicateOf !== undefined) {
+      return {
+        ...base,
+        action: 'error' as const,
+        errors: [`Duplicate of line ${duplicateOf} (same ticker and start date)`],
+      }
+    }
+    seen.set(key, row.line)
+
+    const current = existingByKey.get(key)
+    if (!current) {
+      return { ...base, action: 'insert' as const, errors: [] }
+    }
+
+    // Fields the file leaves blank keep their current value; status follows an end date,
+    // except that a position already Closed or Delisted keeps its exit status
+    const fields = row.provided.filter(field => field !== 'ticker' && field !== 'start_date')
+    let target = values
+    if (row.provided.includes('end_date') && !fields.includes('status')) {
+      fields.push('status')
+      if (values.end_date && isExited(current.status)) target = { ...values, status: current.status as PositionStatus }
+    }
+
+    const changes: FieldChange[] = fields
+      .map(field => {
+        const from = NUMERIC_FIELDS.includes(field)
+          ? toNumber(current[field] as number | string | null)
+          : comparable(current[field as keyof ExistingPosition])
+        return { field, from, to: comparable(target[field]) }
+      })
+      .filter(change => change.from !== change.to)
+
+    return {
+      ...base,
+      values: target,
+      existingId: current.id,
+      changes,
+      action: changes.length > 0 ? 'update' as const : 'unchanged' as const,
+      errors: [],
+    }
+  })
+}
@@ -0,0 +1,192 @@
+import { toNumber } from '@/lib/returns'
+import { adjustDividends, adjustTransactions, windowAdjustment, type CorporateAction } from '@/lib/corporateActions'
+import { tickerAsOf, type TickerAlias } from '@/lib/positions/tickers'
+
+// Lots: the buys and sells recorded under a position in `position_transactions`.
+// Returns are cost-basis aware: what the shares and trades earned against the capital
+// put in. A position with no transactions is a single lot priced by start_price/end_price.
+
+export type TransactionType = 'buy' | 'sell'
+
+export interface LotTransaction {
+  id?: string
+  position_id: string
+  type: TransactionType
+  trade_date: string
+  quantity: number | string
+  price: number | string
+  notes?: string | null
+}
+
+interface HoldingPeriod {
+  start_date: string
+  end_date: string | null
+}
+
+interface DatedDividend {
+  payment_date: string
+  amount: number | string
+}
+
+// Stored on snapshot_positions and read by positionReturn (see lotReturn in returns.ts)
+export interface LotWindowFields {
+  opening_shares: number
+  closing_shares: number
+  lot_buy_cost: number
+  lot_sell_proceeds: number
+  // Average shares held across the window's dividend payments, so income follows
+  // the per-share dividends_paid (and its override)
+  dividend_shares: number
+}
+
+export const LOT_COLUMNS = 'opening_shares, closing_shares, lot_buy_cost, lot_sell_proceeds, dividend_shares'
+
+export const EMPTY_LOT_FIELDS: Record<keyof LotWindowFields, null> = {
+  opening_shares: null,
+  closing_shares: null,
+  lot_buy_cost: null,
+  lot_sell_proceeds: null,
+  dividend_shares: null,
+}
+
+const signedQuantity = (t: LotTransaction) =>
+  (toNumber(t.quantity) ?? 0) * (t.type === 'sell' ? -1 : 1)
+
+export const sortTransactions = <T extends LotTransaction>(transactions: T[]) =>
+  [...transactions].sort((a, b) =>
+    a.trade_date.localeCompare(b.trade_date) || (a.type === b.type ? 0 : a.type === 'buy' ? -1 : 1))
+
+// Shares held after every trade strictly before `date`
+export const sharesHeldBefore = (transactions: LotTransaction[], date: string) =>
+  transactions
+    .filter(t => t.trade_date < date)
+    .reduce((shares, t) => shares + signedQuantity(t), 0)
+
+// Trades from `start` through `end` happen inside the window; anything earlier is the
+// opening holding, valued at the window's start price. Dividends follow sumDividends:
+// paid after `start`, up to and including `end`.
+export const lotWindow = (
+  transactions: LotTransaction[],
+  dividends: DatedDividend[],
+  start: string,
+  end: string
+): LotWindowFields => {
+  const inside = transactions.filter(t => t.trade_date >= start && t.trade_date <= end)
+  const cash = (type: TransactionType) => inside
+    .filter(t => t.type === type)
+    .reduce((sum, t) => sum + (toNumber(t.quantity) ?? 0) * (toNumber(t.price) ?? 0), 0)
+
+  const paid = dividends.filter(d => d.payment_date > start && d.payment_date <= end)
+  const perShare = paid.reduce((sum, d) => sum + (toNumber(d.amount) ?? 0), 0)
+  const income = paid.reduce((sum, d) =>
+    sum + (toNumber(d.amount) ?? 0) * sharesHeldBefore(transactions, d.payment_date), 0)
+
+  return {
+    opening_shares: sharesHeldBefore(transactions, start),
+    closing_shares: transactions
+      .filter(t => t.trade_date <= end)
+      .reduce((shares, t) => shares + signedQuantity(t), 0),
+    lot_buy_cost: cash('buy'),
+    lot_sell_proceeds: cash('sell'),
+    dividend_shares: perShare > 0 ? income / perShare : 0,
+  }
+}
+
+// What positionReturn needs for a whole holding, through today while it's still open:
+// the ledger dividends, lot fields (null when no trades are recorded, so start/end prices
+// are used) and corporate action adjustments. A delisting's cash-out replaces end_price.
+export const holdingReturnFields = (
+  position: HoldingPeriod & { id: string, ticker: string },
+  transactions: LotTransaction[],
+  dividends: DatedDividend[],
+  actions: CorporateAction[] = [],
+  aliases: TickerAlias[] = []
+) => {
+  const end = position.end_date ?? new Date().toISOString().slice(0, 10)
+  // Actions are recorded against the symbol in use when they happened
+  const ticker = tickerAsOf(position, aliases, position.start_date)
+  const { cash_out_price, ...adjustment } = windowAdjustment(actions, ticker, position.start_date, end)
+  const paid = adjustDividends(dividends, actions, ticker, end)
+  const trades = adjustTransactions(transactions, actions, ticker, end)
+  return {
+    dividends_paid: paid.reduce((sum, d) => sum + (toNumber(d.amount) ?? 0), 0),
+    ...(trades.length > 0 ? lotWindow(trades, paid, position.start_date, end) : EMPTY_LOT_FIELDS),
+    ...adjustment,
+    ...(cash_out_price !== null ? { end_price: cash_out_price } : {}),
+  }
+}
+
+export interface CostBasisSummary {
+  shares: number
+  // Average cost of the shares still held
+  averageCost: number | null
+  invested: number
+  realizedGain: number
+}
+
+// Average-cost bookkeeping over every trade, for display
+export const costBasisSummary = (transactions: LotTransaction[]): CostBasisSummary => {
+  let shares = 0
+  let cost = 0
+  let invested = 0
+  let realizedGain = 0
+  for (const t of sortTransactions(transactions)) {
+    const quantity = toNumber(t.quantity) ?? 0
+    const price = toNumber(t.price) ?? 0
+    if (t.type === 'buy') {
+      shares += quantity
+      cost += quantity * price
+      invested += quantity * price
+    } else if (shares > 0) {
+      const averageCost = cost / shares
+      const sold = Math.min(quantity, shares)
+      realizedGain += sold * (price - averageCost)
+      cost -= sold * averageCost
+      shares -= sold
+    }
+  }
+  return { shares, averageCost: shares > 0 ? cost / shares : null, invested, realizedGain }
+}
+
+// First trade date where sells exceed the shares held (a short position), or null
+export const oversoldDate = (transactions: LotTransaction[]): string | null => {
+  let shares = 0
+  for (const t of sortTransactions(transactions)) {
+    shares += signedQuantity(t)
+    if (shares < -1e-9) return t.trade_date
+  }
+  return null
+}
+
+export interface TransactionInput {
+  type: TransactionType
+  trade_date: string
+  quantity: string
+  price: string
+}
+
+// Why a trade can't be saved, or null when it can. `others` are the position's other
+// trades (leave out the one being edited).
+export const validateTransaction = (
+  input: TransactionInput,
+  others: LotTransaction[],
+  position: HoldingPeriod
+): string | null => {
+  if (!input.trade_date) return 'Trade date is required'
+  const quantity = toNumber(input.quantity)
+  if (quantity === null || quantity <= 0) return 'Quantity must be greater than zero'
+  const price = toNumber(input.price)
+  if (price === null || price < 0) return 'Price must be zero or more'
+  if (input.trade_date < position.start_date) {
+    return `Trade date is before the position opened (${position.start_date})`
+  }
+  if (position.end_date && input.trade_date > position.end_date) {
+    return `Trade date is after the position closed (${position.end_date})`
+  }
+
+  const oversold = oversoldDate([
+    ...others,
+    { position_id: '', type: input.type, trade_date: input.trade_date, quantity, price },
+  ])
+  return oversold ? `Sells on ${oversold} exceed the shares held` : null
+}
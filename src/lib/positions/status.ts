@@ -0,0 +1,14 @@
+// Position lifecycle. Closed and Delisted positions both have an end date; a delisted
+// one was closed out at a final price (end_price) rather than sold in the market.
+
+export type PositionStatus = 'Open' | 'Closed' | 'Delisted'
+
+export const POSITION_STATUSES: PositionStatus[] = ['Open', 'Closed', 'Delisted']
+
+export const isExited = (status: string | null | undefined) => status === 'Closed' || status === 'Delisted'
+
+export const positionStatusClassName = (status: string | null | undefined) => {
+  if (status === 'Open') return 'bg-profit-green-100 text-profit-green-800 dark:bg-profit-green-900 dark:text-profit-green-200'
+  if (status === 'Delisted') return 'bg-destructive/10 text-destructive'
+  return 'bg-muted text-muted-foreground'
+}
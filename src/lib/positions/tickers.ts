@@ -0,0 +1,45 @@
+// The `position_ticker_aliases` table: symbols a position traded under before its
+// current ticker. Snapshot rows store the ticker as of their window, so history keeps
+// showing the old symbol after a rename.
+
+export interface TickerAlias {
+  id?: string
+  position_id: string
+  ticker: string
+  // First day the position no longer traded as `ticker`
+  renamed_on: string
+}
+
+interface TickeredPosition {
+  id: string
+  ticker: string
+}
+
+export interface TickerPeriod {
+  ticker: string
+  // Inclusive ISO date; null means since the position opened
+  from: string | null
+  // Exclusive ISO date; null means still in use
+  until: string | null
+}
+
+const aliasesFor = (position: TickeredPosition, aliases: TickerAlias[]) =>
+  aliases
+    .filter(a => a.position_id === position.id)
+    .sort((a, b) => a.renamed_on.localeCompare(b.renamed_on))
+
+// The symbol the position traded under on `date`
+export const tickerAsOf = (position: TickeredPosition, aliases: TickerAlias[], date: string) =>
+  aliasesFor(position, aliases).find(a => date < a.renamed_on)?.ticker ?? position.ticker
+
+// Oldest first, ending with the current ticker
+export const tickerHistory = (position: TickeredPosition, aliases: TickerAlias[]): TickerPeriod[] => {
+  const periods: TickerPeriod[] = []
+  let from: string | null = null
+  for (const alias of aliasesFor(position, aliases)) {
+    periods.push({ ticker: alias.ticker, from, until: alias.renamed_on })
+    from = alias.renamed_on
+  }
+  periods.push({ ticker: position.ticker, from, until: null })
+  return periods
+}
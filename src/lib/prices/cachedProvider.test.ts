@@ -0,0 +1,140 @@
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { withPriceCache } from './cachedProvider'
+import { createFilePriceProvider } from './fileProvider'
+import { createStaticPriceProvider } from './staticProvider'
+import type { PriceProvider } from './types'
+
+const fixture = createStaticPriceProvider({
+  prices: {
+    AAA: { '2024-01-02': 10, '2024-01-03': 11, '2024-01-04': 12 },
+    BBB: { '2024-01-02': 20 },
+  },
+  dividends: {
+    AAA: [{ payment_date: '2024-02-01', amount: 0.5 }, { payment_date: '2024-05-01', amount: 0.5 }],
+    BBB: [{ payment_date: '2024-03-01', amount: 1 }],
+    CCC: [],
+  },
+  profiles: {
+    AAA: { company_name: 'Alpha Inc', exchange: 'NYSE', sector: 'Tech' },
+    BBB: { company_name: 'Beta Corp', exchange: 'NASDAQ', sector: null },
+  },
+})
+
+// Counts upstream calls so tests can tell cache hits from misses
+const counting = (upstream: PriceProvider) => {
+  const calls = { prices: 0, dividends: 0, profiles: 0 }
+  const provider: PriceProvider = {
+    getClosingPrice: (...args) => { calls.prices++; return upstream.getClosingPrice(...args) },
+    getDividends: (...args) => { calls.dividends++; return upstream.getDividends(...args) },
+    getCompanyProfile: (...args) => { calls.profiles++; return upstream.getCompanyProfile(...args) },
+  }
+  return { provider, calls }
+}
+
+let dir: string
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'price-cache-'))
+})
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true })
+})
+
+describe('withPriceCache', () => {
+  it('serves repeat closing prices from disk', async () => {
+    const { provider, calls } = counting(fixture)
+    const cache = withPriceCache(provider, dir)
+
+    expect(await cache.getClosingPrice('AAA', '2024-01-03')).toBe(11)
+    expect(await cache.getClosingPrice('aaa', '2024-01-03')).toBe(11)
+    expect(calls.prices).toBe(1)
+
+    // A fresh cache over the same directory needs no upstream at all
+    const offline = withPriceCache(createStaticPriceProvider({}), dir)
+    expect(await offline.getClosingPrice('AAA', '2024-01-03')).toBe(11)
+  })
+
+  it('caches a weekend lookup under the date that was asked for', async () => {
+    const cache = withPriceCache(fixture, dir)
+
+    expect(await cache.getClosingPrice('AAA', '2024-01-06')).toBe(12)
+    expect(await createFilePriceProvider(dir, 0).getClosingPrice('AAA', '2024-01-06')).toBe(12)
+  })
+
+  it('does not cache unknown prices', async () => {
+    const { provider, calls } = counting(fixture)
+    const cache = withPriceCache(provider, dir)
+
+    expect(await cache.getClosingPrice('ZZZ', '2024-01-02')).toBeNull()
+    expect(await cache.getClosingPrice('ZZZ', '2024-01-02')).toBeNull()
+    expect(calls.prices).toBe(2)
+  })
+
+  it('keeps every close fetched concurrently for the same ticker', async () => {
+    const cache = withPriceCache(fixture, dir)
+    const dates = ['2024-01-02', '2024-01-03', '2024-01-04']
+
+    expect(await Promise.all(dates.map(date => cache.getClosingPrice('AAA', date)))).toEqual([10, 11, 12])
+
+    const files = createFilePriceProvider(dir, 0)
+    expect(await Promise.all(dates.map(date => files.getClosingPrice('AAA', date)))).toEqual([10, 11, 12])
+  })
+
+  it('serves dividends inside the covered range from disk and widens it on a miss', async () => {
+    const { provider, calls } = counting(fixture)
+    const cache = withPriceCache(provider, dir)
+
+    expect(await cache.getDividends('AAA', '2024-01-01', '2024-03-31')).toEqual([{ payment_date: '2024-02-01', amount: 0.5 }])
+    expect(await cache.getDividends('AAA', '2024-02-01', '2024-02-28')).toHaveLength(1)
+    expect(calls.dividends).toBe(1)
+
+    expect(await cache.getDividends('AAA', '2024-03-01', '2024-06-30')).toEqual([{ payment_date: '2024-05-01', amount: 0.5 }])
+    expect(calls.dividends).toBe(2)
+
+    const coverage = JSON.parse(await fs.readFile(path.join(dir, 'dividend-coverage.json'), 'utf8'))
+    expect(coverage.AAA).toEqual({ start: '2024-01-01', end: '2024-06-30' })
+  })
+
+  it('keeps every ticker\'s coverage when dividends are fetched concurrently', async () => {
+    const { provider, calls } = counting(fixture)
+    const cache = withPriceCache(provider, dir)
+
+    await Promise.all(['AAA', 'BBB', 'CCC'].map(ticker => cache.getDividends(ticker, '2024-01-01', '2024-12-31')))
+
+    const coverage = JSON.parse(await fs.readFile(path.join(dir, 'dividend-coverage.json'), 'utf8'))
+    expect(Object.keys(coverage).sort()).toEqual(['AAA', 'BBB', 'CCC'])
+
+    await Promise.all(['AAA', 'BBB', 'CCC'].map(ticker => cache.getDividends(ticker, '2024-01-01', '2024-12-31')))
+    expect(calls.dividends).toBe(3)
+  })
+
+  it('keeps every profile fetched concurrently', async () => {
+    const { provider, calls } = counting(fixture)
+    const cache = withPriceCache(provider, dir)
+
+    const profiles = await Promise.all(['AAA', 'BBB'].map(ticker => cache.getCompanyProfile(ticker)))
+    expect(profiles.map(p => p?.company_name)).toEqual(['Alpha Inc', 'Beta Corp'])
+
+    const stored = JSON.parse(await fs.readFile(path.join(dir, 'profiles.json'), 'utf8'))
+    expect(Object.keys(stored).sort()).toEqual(['AAA', 'BBB'])
+
+    expect(await cache.getCompanyProfile('BBB')).toEqual({ ticker: 'BBB', company_name: 'Beta Corp', exchange: 'NASDAQ', sector: null })
+    expect(calls.profiles).toBe(2)
+  })
+
+  it('leaves no temp files behind', async () => {
+    const cache = withPriceCache(fixture, dir)
+    await Promise.all([
+      cache.getClosingPrice('AAA', '2024-01-02'),
+      cache.getDividends('AAA', '2024-01-01', '2024-12-31'),
+      cache.getCompanyProfile('AAA'),
+    ])
+
+    const files = await fs.readdir(dir, { recursive: true })
+    expect(files.filter(file => file.endsWith('.tmp'))).toEqual([])
+  })
+})
@@ -0,0 +1,116 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import {
+  readDividendPayments,
+  readPriceBars,
+  readProfiles,
+  writeDividendPayments,
+  writeFileAtomic,
+  writePriceBars,
+  writeProfiles,
+} from './fileProvider'
+import type { DividendPayment, PriceProvider } from './types'
+
+// Caching decorator for any provider. Fetched closes, dividend histories and profiles are
+// written to `dir` in the file-provider layout; later lookups are served from disk.
+//
+// Closes are stored under the date that was asked for, so a cached lookup for a weekend
+// returns the same value the upstream provider resolved for it. Dividend histories are
+// cached per ticker together with the date range they cover (dividend-coverage.json).
+//
+// Lookups run concurrently (benchmarks fetch every window at once), so each read-modify-write
+// re-reads its file under a per-file lock instead of writing back what it read earlier.
+
+type Coverage = Record<string, { start: string, end: string }>
+
+const coverageFile = (dir: string) => path.join(dir, 'dividend-coverage.json')
+
+const readCoverage = async (dir: string): Promise<Coverage> => {
+  try {
+    return JSON.parse(await fs.readFile(coverageFile(dir), 'utf8'))
+  } catch (error) {
+    if (error.code === 'ENOENT') return {}
+    throw error
+  }
+}
+
+const writeCoverage = (dir: string, coverage: Coverage) =>
+  writeFileAtomic(coverageFile(dir), JSON.stringify(coverage, null, 2) + '\n')
+
+// Tail of the queued work per file, shared by every cache in this process
+const fileQueues = new Map<string, Promise<unknown>>()
+
+// Runs `task` once every earlier task for `file` has settled
+const withFileLock = <T>(file: string, task: () => Promise<T>): Promise<T> => {
+  const result = (fileQueues.get(file) ?? Promise.resolve()).then(task)
+  const tail = result.catch(() => undefined)
+  fileQueues.set(file, tail)
+  tail.then(() => {
+    if (fileQueues.get(file) === tail) fileQueues.delete(file)
+  })
+  return result
+}
+
+export const withPriceCache = (upstream: PriceProvider, dir: string): PriceProvider => {
+  const pricesFile = (ticker: string) => path.join(dir, 'prices', ticker.toUpperCase())
+  const profilesFile = path.join(dir, 'profiles.json')
+
+  return {
+    async getClosingPrice(ticker, date) {
+      const cached = await withFileLock(pricesFile(ticker), async () =>
+        (await readPriceBars(dir, ticker)).find(bar => bar.date === date))
+      if (cached) return cached.close
+
+      const close = await upstream.getClosingPrice(ticker, date)
+      if (close !== null) {
+        await withFileLock(pricesFile(ticker), async () => {
+          const bars = await readPriceBars(dir, ticker)
+          if (!bars.some(bar => bar.date === date)) {
+            await writePriceBars(dir, ticker, [...bars, { date, close }])
+          }
+        })
+      }
+      return close
+    },
+
+    async getDividends(ticker, startDate, endDate) {
+      const key = ticker.toUpperCase()
+      const inRange = (payments: DividendPayment[]) =>
+        payments.filter(p => p.payment_date >= startDate && p.payment_date <= endDate)
+
+      // A ticker's payments and its coverage entry change together, under the coverage lock
+      const { covered, cached } = await withFileLock(coverageFile(dir), async () => {
+        const covered = (await readCoverage(dir))[key]
+        const hit = covered && covered.start <= startDate && covered.end >= endDate
+        return { covered, cached: hit ? (await readDividendPayments(dir, ticker)) || [] : null }
+      })
+      if (cached) return inRange(cached)
+
+      // Widen the request to the union with what is already cached so coverage stays contiguous
+      const start = covered && covered.start < startDate ? covered.start : startDate
+      const end = covered && covered.end > endDate ? covered.end : endDate
+      const payments = await upstream.getDividends(ticker, start, end)
+
+      await withFileLock(coverageFile(dir), async () => {
+        await writeDividendPayments(dir, ticker, payments)
+        await writeCoverage(dir, { ...await readCoverage(dir), [key]: { start, end } })
+      })
+      return inRange(payments)
+    },
+
+    async getCompanyProfile(ticker) {
+      const key = ticker.toUpperCase()
+      const cached = await withFileLock(profilesFile, async () => (await readProfiles(dir))[key])
+      if (cached) return { ticker: key, ...cached }
+
+      const profile = await upstream.getCompanyProfile(ticker)
+      if (profile) {
+        const { company_name, exchange, sector } = profile
+        await withFileLock(profilesFile, async () => {
+          await writeProfiles(dir, { ...await readProfiles(dir), [key]: { company_name, exchange, sector } })
+        })
+      }
+      return profile
+    },
+  }
+}
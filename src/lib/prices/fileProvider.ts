@@ -0,0 +1,105 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import { parseCsvRecords, toCsv } from '@/lib/csv'
+import { DEFAULT_LOOKBACK_DAYS, findClose, toBarMap } from './staticProvider'
+import type { CompanyProfile, DividendPayment, PriceBar, PriceProvider } from './types'
+
+// On-disk market data, one file per ticker:
+//
+//   <dir>/prices/<TICKER>.csv      date,close           (or .json: [{ date, close }])
+//   <dir>/dividends/<TICKER>.csv   payment_date,amount  (or .json: [{ payment_date, amount }])
+//   <dir>/profiles.json            { "<TICKER>": { company_name, exchange, sector } }
+//
+// The price cache writes the same layout, so a cache directory can be replayed offline.
+
+const fileName = (ticker: string) => ticker.toUpperCase().replace(/[^A-Z0-9.\-]/g, '_')
+
+const readIfExists = async (file: string) => {
+  try {
+    return await fs.readFile(file, 'utf8')
+  } catch (error) {
+    if (error.code === 'ENOENT') return null
+    throw error
+  }
+}
+
+let tempCounter = 0
+
+// Writes through a temp file and a rename, so readers never see a half-written file
+export const writeFileAtomic = async (file: string, contents: string) => {
+  await fs.mkdir(path.dirname(file), { recursive: true })
+  const temp = `${file}.${process.pid}.${++tempCounter}.tmp`
+  try {
+    await fs.writeFile(temp, contents)
+    await fs.rename(temp, file)
+  } catch (error) {
+    await fs.rm(temp, { force: true })
+    throw error
+  }
+}
+
+const readTable = async <T>(dir: string, ticker: string, fromCsv: (row: Record<string, string>) => T) => {
+  const base = path.join(dir, fileName(ticker))
+  const csv = await readIfExists(`${base}.csv`)
+  if (csv !== null) return parseCsvRecords(csv).map(fromCsv)
+
+  const json = await readIfExists(`${base}.json`)
+  return json !== null ? (JSON.parse(json) as T[]) : null
+}
+
+export const readPriceBars = async (dir: string, ticker: string): Promise<PriceBar[]> => {
+  const bars = await readTable(path.join(dir, 'prices'), ticker, row => ({
+    date: row.date,
+    close: Number(row.close),
+  }))
+  return (bars || []).filter(bar => bar.date && Number.isFinite(bar.close))
+}
+
+export const writePriceBars = async (dir: string, ticker: string, bars: PriceBar[]) => {
+  const sorted = [...bars].sort((a, b) => a.date.localeCompare(b.date))
+  await writeFileAtomic(
+    path.join(dir, 'prices', `${fileName(ticker)}.csv`),
+    toCsv(['date', 'close'], sorted.map(bar => [bar.date, bar.close]))
+  )
+}
+
+export const readDividendPayments = async (dir: string, ticker: string): Promise<DividendPayment[] | null> => {
+  const payments = await readTable(path.join(dir, 'dividends'), ticker, row => ({
+    payment_date: row.payment_date,
+    amount: Number(row.amount),
+  }))
+  return payments && payments.filter(p => p.payment_date && Number.isFinite(p.amount))
+}
+
+export const writeDividendPayments = async (dir: string, ticker: string, payments: DividendPayment[]) => {
+  const sorted = [...payments].sort((a, b) => a.payment_date.localeCompare(b.payment_date))
+  await writeFileAtomic(
+    path.join(dir, 'dividends', `${fileName(ticker)}.csv`),
+    toCsv(['payment_date', 'amount'], sorted.map(p => [p.payment_date, p.amount]))
+  )
+}
+
+export const readProfiles = async (dir: string): Promise<Record<string, Omit<CompanyProfile, 'ticker'>>> => {
+  const json = await readIfExists(path.join(dir, 'profiles.json'))
+  return json ? JSON.parse(json) : {}
+}
+
+export const writeProfiles = async (dir: string, profiles: Record<string, Omit<CompanyProfile, 'ticker'>>) => {
+  await writeFileAtomic(path.join(dir, 'profiles.json'), JSON.stringify(profiles, null, 2) + '\n')
+}
+
+export const createFilePriceProvider = (dir: string, lookbackDays = DEFAULT_LOOKBACK_DAYS): PriceProvider => ({
+  async getClosingPrice(ticker, date) {
+    return findClose(toBarMap(await readPriceBars(dir, ticker)), date, lookbackDays)
+  },
+
+  async getDividends(ticker, startDate, endDate) {
+    const payments = await readDividendPayments(dir, ticker)
+    return (payments || []).filter(p => p.payment_date >= startDate && p.payment_date <= endDate)
+  },
+
+  async getCompanyProfile(ticker) {
+    const profile = (await readProfiles(dir))[ticker.toUpperCase()]
+    return profile ? { ticker: ticker.toUpperCase(), ...profile } : null
+  },
+})
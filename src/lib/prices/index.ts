@@ -0,0 +1,22 @@
+import { withPriceCache } from './cachedProvider'
+import { createFilePriceProvider } from './fileProvider'
+import { createStaticPriceProvider } from './staticProvider'
+import type { PriceProvider } from './types'
+
+export type { CompanyProfile, DividendPayment, MarketDataFixture, PriceBar, PriceProvider } from './types'
+export { createStaticPriceProvider } from './staticProvider'
+export { createFilePriceProvider } from './fileProvider'
+export { withPriceCache } from './cachedProvider'
+
+// Server-side default provider:
+//   MARKET_DATA_DIR        on-disk market data in the file-provider layout
+//   MARKET_DATA_CACHE_DIR  caches whatever MARKET_DATA_DIR resolves
+// Without either no prices are known and the snapshot engine falls back to the
+// prices stored on each position.
+export const getPriceProvider = (): PriceProvider => {
+  const dataDir = process.env.MARKET_DATA_DIR
+  const cacheDir = process.env.MARKET_DATA_CACHE_DIR
+
+  const provider = dataDir ? createFilePriceProvider(dataDir) : createStaticPriceProvider({})
+  return cacheDir ? withPriceCache(provider, cacheDir) : provider
+}
@@ -0,0 +1,53 @@
+import type { MarketDataFixture, PriceBar, PriceProvider } from './types'
+
+// Weekends plus a long holiday weekend
+export const DEFAULT_LOOKBACK_DAYS = 5
+
+export const shiftDate = (date: string, days: number) => {
+  const d = new Date(`${date}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + days)
+  return d.toISOString().split('T')[0]
+}
+
+// Close on `date` or the closest earlier bar within the lookback window
+export const findClose = (bars: Map<string, number> | undefined, date: string, lookbackDays = DEFAULT_LOOKBACK_DAYS) => {
+  if (!bars) return null
+  for (let offset = 0; offset <= lookbackDays; offset++) {
+    const close = bars.get(shiftDate(date, -offset))
+    if (close !== undefined) return close
+  }
+  return null
+}
+
+export const toBarMap = (bars: PriceBar[]) => new Map(bars.map(bar => [bar.date, bar.close]))
+
+// In-memory provider backed by a fixed data set. Used for tests and offline runs.
+export const createStaticPriceProvider = (
+  fixture: MarketDataFixture,
+  lookbackDays = DEFAULT_LOOKBACK_DAYS
+): PriceProvider => {
+  const upperKeys = <T>(record: Record<string, T> = {}) =>
+    new Map(Object.entries(record).map(([ticker, value]) => [ticker.toUpperCase(), value]))
+
+  const prices = new Map(
+    [...upperKeys(fixture.prices)].map(([ticker, byDate]) => [ticker, new Map(Object.entries(byDate))])
+  )
+  const dividends = upperKeys(fixture.dividends)
+  const profiles = upperKeys(fixture.profiles)
+
+  return {
+    async getClosingPrice(ticker, date) {
+      return findClose(prices.get(ticker.toUpperCase()), date, lookbackDays)
+    },
+
+    async getDividends(ticker, startDate, endDate) {
+      return (dividends.get(ticker.toUpperCase()) || [])
+        .filter(d => d.payment_date >= startDate && d.payment_date <= endDate)
+    },
+
+    async getCompanyProfile(ticker) {
+      const profile = profiles.get(ticker.toUpperCase())
+      return profile ? { ticker: ticker.toUpperCase(), ...profile } : null
+    },
+  }
+}
@@ -0,0 +1,33 @@
+// Market data lookups used by the native snapshot engine. Dates are ISO `YYYY-MM-DD` strings.
+
+export interface PriceBar {
+  date: string
+  close: number
+}
+
+export interface DividendPayment {
+  payment_date: string
+  amount: number
+}
+
+export interface CompanyProfile {
+  ticker: string
+  company_name: string | null
+  exchange?: string | null
+  sector?: string | null
+}
+
+export interface PriceProvider {
+  // Closing price on `date`, or on the closest earlier trading day. Null when no price is known.
+  getClosingPrice(ticker: string, date: string): Promise<number | null>
+  // Payments made between `startDate` and `endDate`, both inclusive
+  getDividends(ticker: string, startDate: string, endDate: string): Promise<DividendPayment[]>
+  getCompanyProfile(ticker: string): Promise<CompanyProfile | null>
+}
+
+export interface MarketDataFixture {
+  // ticker -> date -> closing price
+  prices?: Record<string, Record<string, number>>
+  dividends?: Record<string, DividendPayment[]>
+  profiles?: Record<string, Omit<CompanyProfile, 'ticker'>>
+}
@@ -0,0 +1,141 @@
+import { describe, expect, it } from 'vitest'
+import {
+  annualizedReturn,
+  effectivePrice,
+  holdingDays,
+  meanReturn,
+  positionMetrics,
+  positionReturn,
+  simpleReturn,
+  toNumber,
+  totalReturn,
+} from './returns'
+
+describe('toNumber', () => {
+  it('parses numeric strings from Supabase', () => {
+    expect(toNumber('12.50')).toBe(12.5)
+  })
+
+  it('treats null, undefined, empty and non-numeric values as unknown', () => {
+    expect(toNumber(null)).toBeNull()
+    expect(toNumber(undefined)).toBeNull()
+    expect(toNumber('')).toBeNull()
+    expect(toNumber('abc')).toBeNull()
+  })
+})
+
+describe('effectivePrice', () => {
+  it('prefers a zero override over the stored price', () => {
+    expect(effectivePrice(100, 0)).toBe(0)
+    expect(effectivePrice('100', '0')).toBe(0)
+  })
+
+  it('falls back to the stored price when there is no override', () => {
+    expect(effectivePrice(100, null)).toBe(100)
+    expect(effectivePrice(100)).toBe(100)
+  })
+})
+
+describe('simpleReturn and totalReturn', () => {
+  it('is null for a zero start price', () => {
+    expect(simpleReturn(0, 10)).toBeNull()
+    expect(totalReturn(0, 10, 1)).toBeNull()
+  })
+
+  it('is null when either price is missing', () => {
+    expect(simpleReturn(null, 10)).toBeNull()
+    expect(simpleReturn(10, null)).toBeNull()
+    expect(totalReturn(undefined, 10)).toBeNull()
+    expect(totalReturn(10, '')).toBeNull()
+  })
+
+  it('adds dividends per share to the price return', () => {
+    expect(simpleReturn(100, 110)).toBeCloseTo(10)
+    expect(totalReturn(100, 110, 5)).toBeCloseTo(15)
+  })
+
+  it('keeps a zero end price as a total loss', () => {
+    expect(simpleReturn(100, 0)).toBe(-100)
+  })
+})
+
+describe('positionReturn', () => {
+  it('uses a zero start override instead of the stored start price', () => {
+    expect(positionReturn({ start_price: 100, end_price: 110, start_price_override: 0 })).toBeNull()
+  })
+
+  it('uses a zero end override instead of the stored end price', () => {
+    expect(positionReturn({ start_price: 100, end_price: 110, end_price_override: 0 })).toBe(-100)
+  })
+
+  it('is null when the prices are null', () => {
+    expect(positionReturn({ start_price: null, end_price: null })).toBeNull()
+  })
+
+  it('restates the start price for a split inside the window', () => {
+    expect(positionReturn({ start_price: 100, end_price: 50, price_adjustment: 0.5 })).toBeCloseTo(0)
+  })
+
+  it('uses the cost-basis return for rows built from lots', () => {
+    const row = {
+      start_price: 10,
+      end_price: 12,
+      opening_shares: 10,
+      closing_shares: 10,
+      lot_buy_cost: 0,
+      lot_sell_proceeds: 0,
+      dividends_paid: 1,
+      dividend_shares: 10,
+    }
+    expect(positionReturn(row)).toBeCloseTo(30)
+  })
+})
+
+describe('holdingDays', () => {
+  it('is zero for a same-day hold', () => {
+    expect(holdingDays('2024-03-01', '2024-03-01')).toBe(0)
+  })
+
+  it('counts calendar days and ignores times', () => {
+    expect(holdingDays('2024-01-01', '2024-12-31T16:00:00Z')).toBe(365)
+  })
+
+  it('is null without a start date', () => {
+    expect(holdingDays(null, '2024-01-01')).toBeNull()
+  })
+})
+
+describe('annualizedReturn', () => {
+  it('is null for a same-day hold', () => {
+    expect(annualizedReturn(5, 0)).toBeNull()
+    expect(positionMetrics({ start_price: 100, end_price: 105, start_date: '2024-03-01', end_date: '2024-03-01' }))
+      .toEqual({ returnPct: 5, holdingDays: 0, annualizedPct: null })
+  })
+
+  it('is null when the return is unknown', () => {
+    expect(annualizedReturn(null, 100)).toBeNull()
+  })
+
+  it('is -100 when growth is zero or negative', () => {
+    expect(annualizedReturn(-100, 30)).toBe(-100)
+    expect(annualizedReturn(-150, 30)).toBe(-100)
+  })
+
+  it('leaves a one-year return unchanged', () => {
+    expect(annualizedReturn(10, 365)).toBeCloseTo(10)
+  })
+
+  it('compounds a short holding period', () => {
+    expect(annualizedReturn(10, 73)).toBeCloseTo((Math.pow(1.1, 5) - 1) * 100)
+  })
+})
+
+describe('meanReturn', () => {
+  it('averages the known values and skips nulls', () => {
+    expect(meanReturn([10, null, 20])).toBe(15)
+  })
+
+  it('is null when nothing is known', () => {
+    expect(meanReturn([null, null])).toBeNull()
+  })
+})
@@ -0,0 +1,152 @@
+// Return calculations shared by every page, the HTML export and the snapshot engine.
+// Percentages are expressed as 12.5 for +12.5%. Anything that can't be computed is null.
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24
+const DAYS_PER_YEAR = 365
+
+type Numeric = number | string | null | undefined
+
+// Supabase returns `numeric` columns as strings; normalize to a finite number or null
+export const toNumber = (value: Numeric): number | null => {
+  if (value === null || value === undefined || value === '') return null
+  const n = Number(value)
+  return Number.isFinite(n) ? n : null
+}
+
+// An override wins whenever it is set, including zero
+export const effectivePrice = (price: Numeric, override?: Numeric) =>
+  toNumber(override) ?? toNumber(price)
+
+// Price-only return
+export const simpleReturn = (startPrice: Numeric, endPrice: Numeric): number | null => {
+  const start = toNumber(startPrice)
+  const end = toNumber(endPrice)
+  if (!start || end === null) return null
+  return (end - start) / start * 100
+}
+
+// Price return plus dividends received per share: ((end + dividends) - start) / start
+export const totalReturn = (startPrice: Numeric, endPrice: Numeric, dividends: Numeric = 0): number | null => {
+  const start = toNumber(startPrice)
+  const end = toNumber(endPrice)
+  if (!start || end === null) return null
+  return ((end + (toNumber(dividends) ?? 0)) - start) / start * 100
+}
+
+interface DividendFields {
+  dividends_paid?: Numeric
+  dividends_paid_override?: Numeric
+}
+
+// Set on rows built from a position's lots (see src/lib/positions/lots.ts); null otherwise
+interface LotFields {
+  opening_shares?: Numeric
+  closing_shares?: Numeric
+  lot_buy_cost?: Numeric
+  lot_sell_proceeds?: Numeric
+  dividend_shares?: Numeric
+}
+
+interface PriceFields extends DividendFields, LotFields {
+  start_price: Numeric
+  end_price: Numeric
+  start_price_override?: Numeric
+  end_price_override?: Numeric
+  // Splits and spin-offs inside the window (see src/lib/corporateActions.ts)
+  price_adjustment?: Numeric
+}
+
+// Start price restated in end-of-window shares, so a split inside the window doesn't
+// read as a gain or loss
+export const adjustedStartPrice = (row: PriceFields) => {
+  const price = effectivePrice(row.start_price, row.start_price_override)
+  return price === null ? null : price * (toNumber(row.price_adjustment) ?? 1)
+}
+
+// Dividends per share, with the same override rule as prices
+export const effectiveDividends = (row: DividendFields) =>
+  toNumber(row.dividends_paid_override) ?? toNumber(row.dividends_paid) ?? 0
+
+// Cost-basis return for a row built from lots: the opening shares at the start price plus
+// any buys are the capital in; the closing shares at the end price, sells and dividend
+// income are what came back.
+export const lotReturn = (row: PriceFields): number | null => {
+  const openingShares = toNumber(row.opening_shares) ?? 0
+  const closingShares = toNumber(row.closing_shares) ?? 0
+  const startPrice = adjustedStartPrice(row)
+  const endPrice = effectivePrice(row.end_price, row.end_price_override)
+  if ((openingShares > 0 && startPrice === null) || (closingShares > 0 && endPrice === null)) return null
+
+  const basis = openingShares * (startPrice ?? 0) + (toNumber(row.lot_buy_cost) ?? 0)
+  if (basis <= 0) return null
+  const proceeds = closingShares * (endPrice ?? 0) +
+    (toNumber(row.lot_sell_proceeds) ?? 0) +
+    effectiveDividends(row) * (toNumber(row.dividend_shares) ?? 0)
+  return (proceeds - basis) / basis * 100
+}
+
+export const hasLots = (row: LotFields) => toNumber(row.opening_shares) !== null
+
+// Total return for a row carrying prices, optional overrides and optional dividends.
+// Rows built from lots use the cost-basis return instead.
+export const positionReturn = (row: PriceFields) =>
+  hasLots(row)
+    ? lotReturn(row)
+    : totalReturn(
+      adjustedStartPrice(row),
+      effectivePrice(row.end_price, row.end_price_override),
+      effectiveDividends(row)
+    )
+
+// Calendar days between two ISO dates. Same-day holds are 0; a missing end date means today.
+export const holdingDays = (startDate: string | null | undefined, endDate?: string | null): number | null => {
+  if (!startDate) return null
+  const start = Date.parse(`${startDate.slice(0, 10)}T00:00:00Z`)
+  const end = endDate
+    ? Date.parse(`${endDate.slice(0, 10)}T00:00:00Z`)
+    : Date.parse(`${new Date().toISOString().slice(0, 10)}T00:00:00Z`)
+  if (Number.isNaN(start) || Number.isNaN(end)) return null
+  return Math.max(0, Math.round((end - start) / MS_PER_DAY))
+}
+
+// Compound annual growth rate for a return earned over `days`. Undefined for same-day holds.
+export const annualizedReturn = (returnPct: number | null, days: number | null): number | null => {
+  if (returnPct === null || days === null || days <= 0) return null
+  const growth = 1 + returnPct / 100
+  if (growth <= 0) return -100
+  return (Math.pow(growth, DAYS_PER_YEAR / days) - 1) * 100
+}
+
+interface DatedPriceFields extends PriceFields {
+  start_date: string | null
+  end_date?: string | null
+}
+
+export interface ReturnMetrics {
+  returnPct: number | null
+  holdingDays: number | null
+  annualizedPct: number | null
+}
+
+// Raw total return, holding period and the annualized equivalent for one position
+export const positionMetrics = (row: DatedPriceFields): ReturnMetrics => {
+  const returnPct = positionReturn(row)
+  const days = holdingDays(row.start_date, row.end_date)
+  return { returnPct, holdingDays: days, annualizedPct: annualizedReturn(returnPct, days) }
+}
+
+// Return earned over a benchmark for the same window (alpha), in percentage points
+export const excessReturn = (returnPct: number | null, benchmarkPct: number | null) =>
+  returnPct === null || benchmarkPct === null ? null : returnPct - benchmarkPct
+
+export const formatReturn = (returnPct: number | null, digits = 2) => {
+  if (returnPct === null) return '-'
+  return `${returnPct >= 0 ? '+' : ''}${returnPct.toFixed(digits)}%`
+}
+
+// Mean of the values that could be computed; null when there are none
+export const meanReturn = (values: (number | null)[]) => {
+  const known = values.filter((v): v is number => v !== null)
+  if (known.length === 0) return null
+  return known.reduce((sum, v) => sum + v, 0) / known.length
+}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest'
+import { createStaticPriceProvider } from '@/lib/prices'
+import { compareToBenchmarks } from './benchmarks'
+
+const provider = createStaticPriceProvider({
+  prices: { SPY: { '2024-01-02': 100, '2024-02-01': 110, '2024-03-01': 90 } },
+  dividends: { SPY: [{ payment_date: '2024-01-02', amount: 5 }, { payment_date: '2024-01-15', amount: 1 }] },
+})
+
+describe('compareToBenchmarks', () => {
+  it('prices each position\'s window, counting distributions paid after the start', async () => {
+    const [spy] = await compareToBenchmarks(['SPY'], [
+      { id: 'a', start_date: '2024-01-02', end_date: '2024-02-01' },
+      { id: 'b', start_date: '2024-01-02', end_date: '2024-03-01' },
+    ], provider)
+
+    expect(spy.ticker).toBe('SPY')
+    expect(spy.position_returns.a).toBeCloseTo(11)
+    expect(spy.position_returns.b).toBeCloseTo(-9)
+    expect(spy.average_return_pct).toBeCloseTo(1)
+  })
+
+  it('leaves excluded rows out of the average', async () => {
+    const [spy] = await compareToBenchmarks(['SPY'], [
+      { id: 'a', start_date: '2024-01-02', end_date: '2024-02-01' },
+      { id: 'b', start_date: '2024-01-02', end_date: '2024-03-01', excluded: true },
+    ], provider)
+
+    expect(spy.position_returns.b).toBeCloseTo(-9)
+    expect(spy.average_return_pct).toBeCloseTo(11)
+  })
+
+  it('has a null average when no included row can be priced', async () => {
+    const [unknown] = await compareToBenchmarks(['QQQ'], [
+      { id: 'a', start_date: '2024-01-02', end_date: '2024-02-01' },
+    ], provider)
+
+    expect(unknown.position_returns.a).toBeNull()
+    expect(unknown.average_return_pct).toBeNull()
+  })
+})
@@ -0,0 +1,77 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { BenchmarkComparison } from '@/lib/api/types'
+import type { PriceProvider } from '@/lib/prices'
+import { meanReturn, totalReturn } from '@/lib/returns'
+
+interface PositionWindow {
+  id: string
+  start_date: string
+  end_date: string
+  excluded?: boolean
+}
+
+// Benchmark total return (price plus distributions) over one start/end window
+export const benchmarkReturn = async (
+  provider: PriceProvider,
+  ticker: string,
+  startDate: string,
+  endDate: string
+) => {
+  const [startPrice, endPrice, payments] = await Promise.all([
+    provider.getClosingPrice(ticker, startDate),
+    provider.getClosingPrice(ticker, endDate),
+    provider.getDividends(ticker, startDate, endDate),
+  ])
+  // Same window rule as snapshot dividends: paid after the start, up to and including the end
+  const distributions = payments
+    .filter(p => p.payment_date > startDate)
+    .reduce((sum, p) => sum + p.amount, 0)
+  return totalReturn(startPrice, endPrice, distributions)
+}
+
+// Each benchmark's return over every position's exact start_date..end_date window.
+// Excluded rows get a return too but stay out of the average, like every snapshot figure.
+export const compareToBenchmarks = async (
+  tickers: string[],
+  positions: PositionWindow[],
+  provider: PriceProvider
+): Promise<BenchmarkComparison[]> => {
+  return Promise.all(tickers.map(async ticker => {
+    // Positions in a snapshot share few distinct windows, so only price each one once
+    const byWindow = new Map<string, Promise<number | null>>()
+    const returns: Record<string, number | null> = {}
+
+    for (const position of positions) {
+      const key = `${position.start_date}:${position.end_date}`
+      if (!byWindow.has(key)) {
+        byWindow.set(key, benchmarkReturn(provider, ticker, position.start_date, position.end_date))
+      }
+      returns[position.id] = await byWindow.get(key)
+    }
+
+    return {
+      ticker,
+      position_returns: returns,
+      average_return_pct: meanReturn(positions.filter(p => !p.excluded).map(p => returns[p.id])),
+    }
+  }))
+}
+
+export const getSnapshotBenchmarks = async (db: SupabaseClient, snapshotId: string, provider: PriceProvider) => {
+  const { data: benchmarks, error: benchmarksError } = await db
+    .from('snapshot_benchmarks')
+    .select('ticker')
+    .eq('snapshot_id', snapshotId)
+    .order('ticker', { ascending: true })
+  if (benchmarksError) throw benchmarksError
+
+  if (!benchmarks.length) return []
+
+  const { data: positions, error: positionsError } = await db
+    .from('snapshot_positions')
+    .select('id, start_date, end_date, excluded')
+    .eq('snapshot_id', snapshotId)
+  if (positionsError) throw positionsError
+
+  return compareToBenchmarks(benchmarks.map(b => b.ticker), positions as PositionWindow[], provider)
+}
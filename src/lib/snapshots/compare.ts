@@ -0,0 +1,84 @@
+import { effectiveDividends, effectivePrice, positionMetrics } from '@/lib/returns'
+import { isExited } from '@/lib/positions/status'
+
+// Lines up two snapshots' positions by position id (by ticker for rows without one), so a
+// renamed ticker stays one row. `a` is the earlier snapshot, `b` the later one.
+
+export interface ComparablePosition {
+  id: string
+  position_id?: string | null
+  ticker: string
+  company_name: string | null
+  start_date: string
+  end_date: string
+  start_price: number | null
+  end_price: number | null
+  dividends_paid: number | null
+  start_price_override?: number | null
+  end_price_override?: number | null
+  dividends_paid_override?: number | null
+  status: string | null
+}
+
+export type PositionChange = 'added' | 'removed' | 'closed' | 'held'
+
+export interface PositionComparison {
+  ticker: string
+  company_name: string | null
+  change: PositionChange
+  a: ComparablePosition | null
+  b: ComparablePosition | null
+  returnA: number | null
+  returnB: number | null
+  // Later minus earlier; null when either side is missing
+  endPriceDelta: number | null
+  returnDelta: number | null
+  dividendsDelta: number | null
+}
+
+const delta = (later: number | null, earlier: number | null) =>
+  later === null || earlier === null ? null : later - earlier
+
+const classify = (a: ComparablePosition | null, b: ComparablePosition | null): PositionChange => {
+  if (!a) return 'added'
+  if (!b) return 'removed'
+  if (!isExited(a.status) && isExited(b.status)) return 'closed'
+  return 'held'
+}
+
+export const compareSnapshotPositions = (
+  a: ComparablePosition[],
+  b: ComparablePosition[]
+): PositionComparison[] => {
+  const key = (p: ComparablePosition) => p.position_id ?? p.ticker
+  const byKeyA = new Map(a.map(p => [key(p), p]))
+  const byKeyB = new Map(b.map(p => [key(p), p]))
+  const keys = [...new Set([...byKeyA.keys(), ...byKeyB.keys()])]
+
+  return keys.map(k => {
+    const rowA = byKeyA.get(k) ?? null
+    const rowB = byKeyB.get(k) ?? null
+    // The later snapshot's symbol, so a renamed position shows its current ticker
+    const ticker = rowB?.ticker ?? rowA.ticker
+    const returnA = rowA ? positionMetrics(rowA).returnPct : null
+    const returnB = rowB ? positionMetrics(rowB).returnPct : null
+
+    return {
+      ticker,
+      company_name: rowB?.company_name ?? rowA?.company_name ?? null,
+      change: classify(rowA, rowB),
+      a: rowA,
+      b: rowB,
+      returnA,
+      returnB,
+      endPriceDelta: delta(
+        rowB ? effectivePrice(rowB.end_price, rowB.end_price_override) : null,
+        rowA ? effectivePrice(rowA.end_price, rowA.end_price_override) : null
+      ),
+      returnDelta: delta(returnB, returnA),
+      dividendsDelta: rowA && rowB
+        ? effectiveDividends(rowB) - effectiveDividends(rowA)
+        : null,
+    }
+  }).sort((x, y) => x.ticker.localeCompare(y.ticker))
+}
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest'
+import { createStaticPriceProvider } from '@/lib/prices'
+import type { CorporateAction } from '@/lib/corporateActions'
+import { buildSnapshotPositions, type SourcePosition } from './engine'
+
+const position = (overrides: Partial<SourcePosition>): SourcePosition => ({
+  id: 'p1',
+  ticker: 'AAA',
+  company_name: 'Alpha Inc',
+  start_date: '2024-01-02',
+  end_date: null,
+  start_price: null,
+  end_price: null,
+  start_price_override: null,
+  end_price_override: null,
+  capital_allocated: 1000,
+  status: 'Open',
+  ...overrides,
+})
+
+const provider = createStaticPriceProvider({
+  prices: {
+    AAA: { '2024-01-02': 10, '2024-03-28': 12, '2024-06-28': 15 },
+    BBB: { '2024-03-28': 20, '2024-06-28': 18 },
+  },
+})
+
+const window = { start_date: '2024-03-31', end_date: '2024-06-30' }
+
+describe('buildSnapshotPositions', () => {
+  it('prices clipped boundaries from the provider, falling back to the last close', async () => {
+    const [row] = await buildSnapshotPositions([position({})], [], window, provider)
+
+    expect(row).toMatchObject({
+      position_id: 'p1',
+      ticker: 'AAA',
+      start_date: '2024-03-31',
+      end_date: '2024-06-30',
+      start_price: 12,
+      end_price: 15,
+      dividends_paid: 0,
+      capital_allocated: 1000,
+      status: 'Open',
+      opening_shares: null,
+      price_adjustment: null,
+    })
+    expect(row.return_pct_at_snapshot).toBeCloseTo(25)
+  })
+
+  it('uses stored prices and overrides only on the position\'s own dates', async () => {
+    const positions = [position({
+      start_date: '2024-04-15',
+      end_date: '2024-05-15',
+      start_price: 11,
+      end_price: 14,
+      end_price_override: 13,
+      status: 'Closed',
+    })]
+    const [row] = await buildSnapshotPositions(positions, [], window, provider)
+
+    expect(row).toMatchObject({ start_price: 11, end_price: 13, status: 'Closed' })
+  })
+
+  it('sums dividends paid after the window opens through its close', async () => {
+    const dividends = [
+      { position_id: 'p1', payment_date: '2024-03-31', amount: 5 },
+      { position_id: 'p1', payment_date: '2024-04-30', amount: 0.5 },
+      { position_id: 'p1', payment_date: '2024-06-30', amount: 0.25 },
+      { position_id: 'p2', payment_date: '2024-05-01', amount: 9 },
+    ]
+    const [row] = await buildSnapshotPositions([position({})], dividends, window, provider)
+
+    expect(row.dividends_paid).toBeCloseTo(0.75)
+    expect(row.return_pct_at_snapshot).toBeCloseTo(31.25)
+  })
+
+  it('leaves out positions not held during the window', async () => {
+    const positions = [
+      position({ id: 'early', end_date: '2024-03-01' }),
+      position({ id: 'late', start_date: '2024-07-01' }),
+      position({ id: 'held', ticker: 'BBB' }),
+    ]
+    const rows = await buildSnapshotPositions(positions, [], window, provider)
+
+    expect(rows.map(row => row.position_id)).toEqual(['held'])
+    expect(rows[0].return_pct_at_snapshot).toBeCloseTo(-10)
+  })
+
+  it('keeps a null price and return when the provider has no close', async () => {
+    const [row] = await buildSnapshotPositions([position({ ticker: 'ZZZ' })], [], window, provider)
+
+    expect(row.start_price).toBeNull()
+    expect(row.end_price).toBeNull()
+    expect(row.return_pct_at_snapshot).toBeNull()
+  })
+
+  it('restates the start price for a split inside the window', async () => {
+    const actions: CorporateAction[] = [{
+      id: 'a1',
+      ticker: 'AAA',
+      action_type: 'split',
+      effective_date: '2024-05-01',
+      ratio: 2,
+      new_ticker: null,
+      cash_price: null,
+      notes: null,
+    }]
+    const splitProvider = createStaticPriceProvider({
+      prices: { AAA: { '2024-03-28': 20, '2024-06-28': 11 } },
+    })
+    const [row] = await buildSnapshotPositions([position({})], [], window, splitProvider, { actions })
+
+    expect(row.start_price).toBe(20)
+    expect(row.price_adjustment).toBe(0.5)
+    expect(row.return_pct_at_snapshot).toBeCloseTo(10)
+  })
+})
@@ -0,0 +1,582 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { PriceProvider } from '@/lib/prices'
+import { positionReturn, toNumber } from '@/lib/returns'
+import { EMPTY_LOT_FIELDS, LOT_COLUMNS, lotWindow, type LotTransaction } from '@/lib/positions/lots'
+import {
+  CORPORATE_ACTION_COLUMNS,
+  adjustDividends,
+  adjustTransactions,
+  tickerOn,
+  windowAdjustment,
+  type CorporateAction,
+} from '@/lib/corporateActions'
+import { tickerAsOf, type TickerAlias } from '@/lib/positions/tickers'
+import type { PositionStatus } from '@/lib/positions/status'
+import { updatePortfolioReturn, type WeightingMethod } from './portfolioReturn'
+
+// Native replacement for the backend's POST /snapshots/create. Builds `snapshots`
+// and `snapshot_positions` rows from the `positions`, `position_transactions` and
+// `dividends` tables, adjusted for `corporate_actions`. Rows link back to their position
+// by id and keep the ticker it traded under at the time.
+
+export interface SourcePosition {
+  id: string
+  ticker: string
+  company_name: string | null
+  start_date: string
+  end_date: string | null
+  start_price: number | null
+  end_price: number | null
+  start_price_override: number | null
+  end_price_override: number | null
+  capital_allocated: number | null
+  status: PositionStatus
+}
+
+export const SOURCE_POSITION_COLUMNS =
+  'id, ticker, company_name, start_date, end_date, start_price, end_price, start_price_override, end_price_override, capital_allocated, status'
+
+export interface SourceDividend {
+  position_id: string
+  payment_date: string
+  amount: number
+}
+
+export interface SnapshotWindow {
+  start_date?: string | null
+  end_date: string
+}
+
+// Everything besides positions and dividends that shapes a row; all optional
+export interface RelatedRecords {
+  transactions?: LotTransaction[]
+  actions?: CorporateAction[]
+  aliases?: TickerAlias[]
+}
+
+export interface SnapshotPositionDraft {
+  position_id: string
+  ticker: string
+  company_name: string | null
+  start_date: string
+  end_date: string
+  start_price: number | null
+  end_price: number | null
+  dividends_paid: number
+  return_pct_at_snapshot: number | null
+  capital_allocated: number | null
+  status: PositionStatus
+  opening_shares: number | null
+  closing_shares: number | null
+  lot_buy_cost: number | null
+  lot_sell_proceeds: number | null
+  dividend_shares: number | null
+  price_adjustment: number | null
+  adjustment_note: string | null
+}
+
+export interface CreateSnapshotInput extends SnapshotWindow {
+  name?: string | null
+  notes?: string | null
+  weighting_method?: WeightingMethod
+}
+
+export interface CreateSnapshotResult {
+  snapshot_id: string
+  positions_created: number
+}
+
+export class SnapshotEngineError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'SnapshotEngineError'
+  }
+}
+
+// A position belongs in the snapshot when it was held at any point inside the window
+export const isHeldDuring = (position: SourcePosition, window: SnapshotWindow) => {
+  if (position.start_date > window.end_date) return false
+  if (window.start_date && position.end_date && position.end_date < window.start_date) return false
+  return true
+}
+
+export const clipToWindow = (position: SourcePosition, window: SnapshotWindow) => {
+  const start = window.start_date && window.start_date > position.start_date
+    ? window.start_date
+    : position.start_date
+  const end = position.end_date && position.end_date < window.end_date
+    ? position.end_date
+    : window.end_date
+  return { start, end }
+}
+
+// Overrides and stored prices only apply on the position's own entry/exit dates.
+// A clipped boundary needs the market close on the clipped date instead.
+const resolvePrice = async (
+  provider: PriceProvider,
+  ticker: string,
+  date: string,
+  positionDate: string | null,
+  override: number | null,
+  stored: number | null
+) => {
+  if (date === positionDate) {
+    if (override !== null) return override
+    if (stored !== null) return stored
+  }
+  return provider.getClosingPrice(ticker, date)
+}
+
+// Dividends paid after the window opens, up to and including its close
+export const sumDividends = (dividends: SourceDividend[], positionId: string, start: string, end: string) =>
+  dividends
+    .filter(d => d.position_id === positionId && d.payment_date > start && d.payment_date <= end)
+    .reduce((sum, d) => sum + (toNumber(d.amount) ?? 0), 0)
+
+// dividends_paid and lot fields for one position's window, restated in end-of-window
+// shares. Lot fields are all null when the position has no trades (the single-lot case
+// priced by start_price/end_price).
+const windowHoldings = (
+  position: Pick<SourcePosition, 'id' | 'ticker'>,
+  dividends: SourceDividend[],
+  transactions: LotTransaction[],
+  actions: CorporateAction[],
+  start: string,
+  end: string
+) => {
+  const paid = adjustDividends(dividends.filter(d => d.position_id === position.id), actions, position.ticker, end)
+  const trades = adjustTransactions(transactions.filter(t => t.position_id === position.id), actions, position.ticker, end)
+  return {
+    dividends_paid: sumDividends(paid, position.id, start, end),
+    ...(trades.length > 0 ? lotWindow(trades, paid, start, end) : EMPTY_LOT_FIELDS),
+  }
+}
+
+const fetchTransactions = async (db: SupabaseClient, positionIds: string[]) => {
+  if (positionIds.length === 0) return []
+  const { data, error } = await db
+    .from('position_transactions')
+    .select('position_id, type, trade_date, quantity, price')
+    .in('position_id', positionIds)
+  if (error) throw error
+  return data as LotTransaction[]
+}
+
+const fetchAliases = async (db: SupabaseClient, positionIds: string[]) => {
+  if (positionIds.length === 0) return []
+  const { data, error } = await db
+    .from('position_ticker_aliases')
+    .select('position_id, ticker, renamed_on')
+    .in('position_id', positionIds)
+  if (error) throw error
+  return data as TickerAlias[]
+}
+
+const fetchCorporateActions = async (db: SupabaseClient, asOf?: string) => {
+  let query = db
+    .from('corporate_actions')
+    .select(CORPORATE_ACTION_COLUMNS)
+  if (asOf) query = query.lte('effective_date', asOf)
+  const { data, error } = await query
+  if (error) throw error
+  return data as CorporateAction[]
+}
+
+// A delisting inside the window prices the exit at its cash-out, unless the position's
+// own end price is overridden
+const resolveEndPrice = async (
+  provider: PriceProvider,
+  actions: CorporateAction[],
+  position: SourcePosition,
+  ticker: string,
+  end: string,
+  cashOutPrice: number | null
+) => {
+  const override = toNumber(position.end_price_override)
+  if (cashOutPrice !== null && !(end === position.end_date && override !== null)) return cashOutPrice
+  return resolvePrice(provider, tickerOn(actions, ticker, end), end, position.end_date,
+    override, toNumber(position.end_price))
+}
+
+// The position a stored row was built from: by id, or for rows from before rows were
+// linked, the position with that ticker whose holding overlaps the row's window
+const positionForRow = <T extends Pick<SourcePosition, 'id' | 'ticker' | 'start_date' | 'end_date'>>(
+  positions: T[],
+  row: { position_id: string | null, ticker: string, start_date: string, end_date: string }
+) =>
+  row.position_id
+    ? positions.find(p => p.id === row.position_id)
+    : positions.find(p =>
+      p.ticker === row.ticker && p.start_date <= row.end_date && (!p.end_date || p.end_date >= row.start_date))
+
+const fetchRowPositions = async (
+  db: SupabaseClient,
+  rows: { position_id: string | null, ticker: string }[],
+  columns: string
+) => {
+  const ids = [...new Set(rows.map(row => row.position_id).filter(Boolean))]
+  const unlinkedTickers = [...new Set(rows.filter(row => !row.position_id).map(row => row.ticker))]
+  const positions: SourcePosition[] = []
+  for (const [column, values] of [['id', ids], ['ticker', unlinkedTickers]] as const) {
+    if (values.length === 0) continue
+    const { data, error } = await db
+      .from('positions')
+      .select(columns)
+      .in(column, values)
+    if (error) throw error
+    positions.push(...(data as unknown as SourcePosition[]))
+  }
+  return positions
+}
+
+export const buildSnapshotPositions = async (
+  positions: SourcePosition[],
+  dividends: SourceDividend[],
+  window: SnapshotWindow,
+  provider: PriceProvider,
+  related: RelatedRecords = {}
+): Promise<SnapshotPositionDraft[]> => {
+  const { transactions = [], actions = [], aliases = [] } = related
+  const held = positions.filter(p => isHeldDuring(p, window))
+
+  return Promise.all(held.map(async position => {
+    const { start, end } = clipToWindow(position, window)
+    const startTicker = tickerAsOf(position, aliases, start)
+    const { cash_out_price, ...adjustment } = windowAdjustment(actions, startTicker, start, end)
+    // Prices stay as quoted on each date; price_adjustment restates the start for returns
+    const startPrice = await resolvePrice(provider, tickerOn(actions, startTicker, start), start, position.start_date,
+      toNumber(position.start_price_override), toNumber(position.start_price))
+    const endPrice = await resolveEndPrice(provider, actions, position, tickerAsOf(position, aliases, end), end, cash_out_price)
+    const holdings = windowHoldings({ id: position.id, ticker: startTicker }, dividends, transactions, actions, start, end)
+    const exited = position.end_date && position.end_date <= window.end_date
+
+    return {
+      position_id: position.id,
+      // As the position traded at the close of the window, so history keeps old symbols
+      ticker: tickerAsOf(position, aliases, end),
+      company_name: position.company_name,
+      start_date: start,
+      end_date: end,
+      start_price: startPrice,
+      end_price: endPrice,
+      ...holdings,
+      ...adjustment,
+      return_pct_at_snapshot: positionReturn({ start_price: startPrice, end_price: endPrice, ...holdings, ...adjustment }),
+      capital_allocated: toNumber(position.capital_allocated),
+      status: exited ? (position.status === 'Delisted' ? 'Delisted' : 'Closed') : 'Open',
+    }
+  }))
+}
+
+// `cleanupDb` removes the snapshot again if its rows can't be written. Deleting snapshots is
+// admin-only, so callers acting as a non-admin pass the service client here.
+export const createSnapshot = async (
+  db: SupabaseClient,
+  input: CreateSnapshotInput,
+  provider: PriceProvider,
+  cleanupDb: SupabaseClient = db
+): Promise<CreateSnapshotResult> => {
+  if (!input.end_date) {
+    throw new SnapshotEngineError('end_date is required')
+  }
+  if (input.start_date && input.start_date > input.end_date) {
+    throw new SnapshotEngineError('start_date must be on or before end_date')
+  }
+  if (input.weighting_method && input.weighting_method !== 'equal' && input.weighting_method !== 'capital') {
+    throw new SnapshotEngineError('weighting_method must be "equal" or "capital"')
+  }
+
+  const { data: positions, error: positionsError } = await db
+    .from('positions')
+    .select(SOURCE_POSITION_COLUMNS)
+    .lte('start_date', input.end_date)
+  if (positionsError) throw positionsError
+
+  const held = (positions as SourcePosition[]).filter(p => isHeldDuring(p, input))
+
+  let dividends: SourceDividend[] = []
+  if (held.length > 0) {
+    const { data, error } = await db
+      .from('dividends')
+      .select('position_id, payment_date, amount')
+      .in('position_id', held.map(p => p.id))
+      .lte('payment_date', input.end_date)
+    if (error) throw error
+    dividends = data as SourceDividend[]
+  }
+
+  const drafts = await buildSnapshotPositions(held, dividends, input, provider, {
+    transactions: await fetchTransactions(db, held.map(p => p.id)),
+    actions: await fetchCorporateActions(db, input.end_date),
+    aliases: await fetchAliases(db, held.map(p => p.id)),
+  })
+
+  const { data: snapshot, error: snapshotError } = await db
+    .from('snapshots')
+    .insert([{
+      name: input.name || null,
+      start_date: input.start_date || null,
+      end_date: input.end_date,
+      notes: input.notes || null,
+      weighting_method: input.weighting_method || 'equal',
+    }])
+    .select('id')
+    .single()
+  if (snapshotError) throw snapshotError
+
+  if (drafts.length > 0) {
+    const { error } = await db
+      .from('snapshot_positions')
+      .insert(drafts.map(draft => ({ ...draft, snapshot_id: snapshot.id })))
+
+    if (error) {
+      // Don't leave an empty snapshot behind
+      const { error: cleanupError } = await cleanupDb.from('snapshots').delete().eq('id', snapshot.id)
+      if (cleanupError) {
+        throw new Error(`${error.message} (snapshot ${snapshot.id} was left without positions: ${cleanupError.message})`)
+      }
+      throw error
+    }
+  }
+
+  await updatePortfolioReturn(db, snapshot.id)
+
+  return { snapshot_id: snapshot.id, positions_created: drafts.length }
+}
+
+export interface RefreshSnapshotResult {
+  snapshot_id: string
+  updated: number
+}
+
+// Re-resolves start/end prices and corporate action adjustments for an existing snapshot,
+// then recomputes the overall return. Rows keep their current price when the provider has
+// nothing for that date.
+export const refreshSnapshotPrices = async (
+  db: SupabaseClient,
+  snapshotId: string,
+  provider: PriceProvider
+): Promise<RefreshSnapshotResult> => {
+  const { data: rows, error: rowsError } = await db
+    .from('snapshot_positions')
+    .select(`id, position_id, ticker, start_date, end_date, start_price, end_price, dividends_paid, start_price_override, end_price_override, dividends_paid_override, price_adjustment, adjustment_note, ${LOT_COLUMNS}`)
+    .eq('snapshot_id', snapshotId)
+  if (rowsError) throw rowsError
+
+  const positions = await fetchRowPositions(db, rows, SOURCE_POSITION_COLUMNS)
+  const actions = await fetchCorporateActions(db)
+  const aliases = await fetchAliases(db, positions.map(p => p.id))
+
+  let updated = 0
+  for (const row of rows) {
+    const position = positionForRow(positions, row)
+    const startTicker = position ? tickerAsOf(position, aliases, row.start_date) : row.ticker
+    const { cash_out_price, ...adjustment } = windowAdjustment(actions, startTicker, row.start_date, row.end_date)
+
+    const startPrice = (position
+      ? await resolvePrice(provider, tickerOn(actions, startTicker, row.start_date), row.start_date, position.start_date,
+        toNumber(position.start_price_override), toNumber(position.start_price))
+      : await provider.getClosingPrice(tickerOn(actions, startTicker, row.start_date), row.start_date)) ?? toNumber(row.start_price)
+    const endPrice = (position
+      ? await resolveEndPrice(provider, actions, position, row.ticker, row.end_date, cash_out_price)
+      : cash_out_price ?? await provider.getClosingPrice(tickerOn(actions, row.ticker, row.end_date), row.end_date)) ?? toNumber(row.end_price)
+
+    if (
+      startPrice === toNumber(row.start_price) &&
+      endPrice === toNumber(row.end_price) &&
+      adjustment.price_adjustment === toNumber(row.price_adjustment) &&
+      adjustment.adjustment_note === row.adjustment_note
+    ) continue
+
+    const { error } = await db
+      .from('snapshot_positions')
+      .update({
+        start_price: startPrice,
+        end_price: endPrice,
+        ...adjustment,
+        // Manual overrides on the row still win over the refreshed prices
+        return_pct_at_snapshot: positionReturn({ ...row, start_price: startPrice, end_price: endPrice, ...adjustment }),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', row.id)
+    if (error) throw error
+    updated++
+  }
+
+  await updatePortfolioReturn(db, snapshotId)
+
+  return { snapshot_id: snapshotId, updated }
+}
+
+// Recomputes every row's dividends_paid from the `dividends` ledger over the row's own
+// window, then the stored returns. Rows keep any dividends override. Lot fields are
+// recounted from `position_transactions` too, and both are restated for corporate actions.
+export const recomputeSnapshotDividends = async (
+  db: SupabaseClient,
+  snapshotId: string
+): Promise<RefreshSnapshotResult> => {
+  const { data: rows, error: rowsError } = await db
+    .from('snapshot_positions')
+    .select(`id, position_id, ticker, start_date, end_date, start_price, end_price, dividends_paid, start_price_override, end_price_override, dividends_paid_override, price_adjustment, adjustment_note, ${LOT_COLUMNS}`)
+    .eq('snapshot_id', snapshotId)
+  if (rowsError) throw rowsError
+  if (rows.length === 0) return { snapshot_id: snapshotId, updated: 0 }
+
+  const positions = await fetchRowPositions(db, rows, 'id, ticker, start_date, end_date')
+
+  const { data: dividends, error: dividendsError } = await db
+    .from('dividends')
+    .select('position_id, payment_date, amount')
+    .in('position_id', positions.map(p => p.id))
+  if (dividendsError) throw dividendsError
+
+  const transactions = await fetchTransactions(db, positions.map(p => p.id))
+  const actions = await fetchCorporateActions(db)
+  const aliases = await fetchAliases(db, positions.map(p => p.id))
+
+  let updated = 0
+  for (const row of rows) {
+    const position = positionForRow(positions, row)
+    const holdings = position
+      ? windowHoldings({ id: position.id, ticker: tickerAsOf(position, aliases, row.start_date) },
+        dividends as SourceDividend[], transactions, actions, row.start_date, row.end_date)
+      : { dividends_paid: 0 }
+
+    const changed = Object.entries(holdings).some(([column, value]) =>
+      value !== (column === 'dividends_paid' ? toNumber(row[column]) ?? 0 : toNumber(row[column])))
+    if (!changed) continue
+
+    const { error } = await db
+      .from('snapshot_positions')
+      .update({
+        ...holdings,
+        return_pct_at_snapshot: positionReturn({ ...row, ...holdings }),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', row.id)
+    if (error) throw error
+    updated++
+  }
+
+  await updatePortfolioReturn(db, snapshotId)
+
+  return { snapshot_id: snapshotId, updated }
+}
+
+// Native replacement for the backend's POST /snapshots/{id}/populate-dividends. Adds the
+// provider's payments inside each row's window to the `dividends` ledger, skipping dates the
+// position already has, then recomputes the rows from the ledger.
+export const fetchSnapshotDividends = async (
+  db: SupabaseClient,
+  snapshotId: string,
+  provider: PriceProvider
+): Promise<RefreshSnapshotResult> => {
+  const { data: rows, error: rowsError } = await db
+    .from('snapshot_positions')
+    .select('position_id, ticker, start_date, end_date')
+    .eq('snapshot_id', snapshotId)
+  if (rowsError) throw rowsError
+  if (rows.length === 0) return { snapshot_id: snapshotId, updated: 0 }
+
+  const positions = await fetchRowPositions(db, rows, 'id, ticker, start_date, end_date')
+  if (positions.length > 0) {
+    const { data: ledger, error: ledgerError } = await db
+      .from('dividends')
+      .select('position_id, payment_date')
+      .in('position_id', positions.map(p => p.id))
+    if (ledgerError) throw ledgerError
+
+    const recorded = new Set(ledger.map(d => `${d.position_id}:${d.payment_date}`))
+    const additions = []
+    for (const row of rows) {
+      const position = positionForRow(positions, row)
+      if (!position) continue
+
+      const payments = await provider.getDividends(row.ticker, row.start_date, row.end_date)
+      for (const payment of payments) {
+        const key = `${position.id}:${payment.payment_date}`
+        if (payment.payment_date <= row.start_date || payment.amount <= 0 || recorded.has(key)) continue
+        recorded.add(key)
+        additions.push({ position_id: position.id, ticker: row.ticker, ...payment })
+      }
+    }
+
+    if (additions.length > 0) {
+      const { error } = await db.from('dividends').insert(additions)
+      if (error) throw error
+    }
+  }
+
+  return recomputeSnapshotDividends(db, snapshotId)
+}
+
+export interface AddSnapshotPositionResult {
+  snapshot_id: string
+  snapshot_position_id: string
+}
+
+// Adds one position to an existing snapshot, clipped to the snapshot's window
+export const addSnapshotPosition = async (
+  db: SupabaseClient,
+  snapshotId: string,
+  positionId: string,
+  provider: PriceProvider
+): Promise<AddSnapshotPositionResult> => {
+  if (!positionId) {
+    throw new SnapshotEngineError('position_id is required')
+  }
+
+  const { data: snapshot, error: snapshotError } = await db
+    .from('snapshots')
+    .select('id, start_date, end_date')
+    .eq('id', snapshotId)
+    .single()
+  if (snapshotError) throw snapshotError
+  if (!snapshot.end_date) {
+    throw new SnapshotEngineError('Snapshot has no end date')
+  }
+
+  const { data: position, error: positionError } = await db
+    .from('positions')
+    .select(SOURCE_POSITION_COLUMNS)
+    .eq('id', positionId)
+    .single()
+  if (positionError) throw positionError
+  if (!isHeldDuring(position as SourcePosition, snapshot)) {
+    throw new SnapshotEngineError(`${position.ticker} was not held during this snapshot`)
+  }
+
+  const { data: existing, error: existingError } = await db
+    .from('snapshot_positions')
+    .select('id')
+    .eq('snapshot_id', snapshotId)
+    .eq('position_id', positionId)
+  if (existingError) throw existingError
+  if (existing.length > 0) {
+    throw new SnapshotEngineError(`${position.ticker} is already in this snapshot`)
+  }
+
+  const { data: dividends, error: dividendsError } = await db
+    .from('dividends')
+    .select('position_id, payment_date, amount')
+    .eq('position_id', positionId)
+    .lte('payment_date', snapshot.end_date)
+  if (dividendsError) throw dividendsError
+
+  const [draft] = await buildSnapshotPositions([position as SourcePosition], dividends as SourceDividend[], snapshot, provider, {
+    transactions: await fetchTransactions(db, [positionId]),
+    actions: await fetchCorporateActions(db, snapshot.end_date),
+    aliases: await fetchAliases(db, [positionId]),
+  })
+
+  const { data: inserted, error } = await db
+    .from('snapshot_positions')
+    .insert([{ ...draft, snapshot_id: snapshotId }])
+    .select('id')
+    .single()
+  if (error) throw error
+
+  await updatePortfolioReturn(db, snapshotId)
+
+  return { snapshot_id: snapshotId, snapshot_position_id: inserted.id }
+}
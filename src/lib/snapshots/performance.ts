@@ -0,0 +1,87 @@
+import { meanReturn, positionMetrics, toNumber } from '@/lib/returns'
+import type { LotWindowFields } from '@/lib/positions/lots'
+
+// Time series across snapshots for the performance charts
+
+export interface PerformanceSnapshot {
+  id: string
+  name: string | null
+  end_date: string | null
+  overall_portfolio_return_pct: number | string | null
+}
+
+export interface PerformancePosition extends Partial<LotWindowFields> {
+  snapshot_id: string
+  ticker: string
+  start_date: string
+  end_date: string
+  start_price: number | null
+  end_price: number | null
+  dividends_paid: number | null
+  start_price_override: number | null
+  end_price_override: number | null
+  dividends_paid_override: number | null
+  price_adjustment?: number | null
+}
+
+export interface PerformancePoint {
+  snapshot_id: string
+  label: string
+  date: Date
+  overall_return: number | null
+  average_return: number | null
+  average_annualized_return: number | null
+}
+
+export interface TickerPoint {
+  snapshot_id: string
+  label: string
+  date: Date
+  return_pct: number | null
+}
+
+const toDate = (value: string) => new Date(`${value}T00:00:00`)
+
+const labelFor = (snapshot: PerformanceSnapshot) =>
+  snapshot.name || toDate(snapshot.end_date).toLocaleDateString()
+
+// Snapshots without an end date can't be placed on a time axis
+const dated = (snapshots: PerformanceSnapshot[]) =>
+  snapshots
+    .filter(s => s.end_date)
+    .sort((a, b) => a.end_date.localeCompare(b.end_date))
+
+export const buildPerformanceSeries = (
+  snapshots: PerformanceSnapshot[],
+  positions: PerformancePosition[]
+): PerformancePoint[] =>
+  dated(snapshots).map(snapshot => {
+    const metrics = positions
+      .filter(p => p.snapshot_id === snapshot.id)
+      .map(p => positionMetrics(p))
+
+    return {
+      snapshot_id: snapshot.id,
+      label: labelFor(snapshot),
+      date: toDate(snapshot.end_date),
+      overall_return: toNumber(snapshot.overall_portfolio_return_pct),
+      average_return: meanReturn(metrics.map(m => m.returnPct)),
+      average_annualized_return: meanReturn(metrics.map(m => m.annualizedPct)),
+    }
+  })
+
+export const buildTickerTimeline = (
+  ticker: string,
+  snapshots: PerformanceSnapshot[],
+  positions: PerformancePosition[]
+): TickerPoint[] =>
+  dated(snapshots).flatMap(snapshot => {
+    const position = positions.find(p => p.snapshot_id === snapshot.id && p.ticker === ticker)
+    if (!position) return []
+    return [{
+      snapshot_id: snapshot.id,
+      label: labelFor(snapshot),
+      date: toDate(snapshot.end_date),
+      return_pct: positionMetrics(position).returnPct,
+    }]
+  })
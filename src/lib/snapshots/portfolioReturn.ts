@@ -0,0 +1,83 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { meanReturn, positionReturn, toNumber } from '@/lib/returns'
+import { LOT_COLUMNS } from '@/lib/positions/lots'
+
+// snapshots.overall_portfolio_return_pct: one return for the whole snapshot,
+// weighted per snapshot by `weighting_method`
+
+export type WeightingMethod = 'equal' | 'capital'
+
+export const WEIGHTING_METHODS: { value: WeightingMethod, label: string }[] = [
+  { value: 'equal', label: 'Equal weight' },
+  { value: 'capital', label: 'Capital allocated' },
+]
+
+interface WeightedPosition {
+  start_price: number | string | null
+  end_price: number | string | null
+  dividends_paid?: number | string | null
+  start_price_override?: number | string | null
+  end_price_override?: number | string | null
+  dividends_paid_override?: number | string | null
+  capital_allocated?: number | string | null
+}
+
+// Equal weight averages every position's total return. Capital weighting only counts
+// positions with capital allocated; null when none have any.
+export const portfolioReturn = (positions: WeightedPosition[], method: WeightingMethod): number | null => {
+  if (method === 'equal') {
+    return meanReturn(positions.map(p => positionReturn(p)))
+  }
+
+  let weighted = 0
+  let capital = 0
+  for (const position of positions) {
+    const returnPct = positionReturn(position)
+    const weight = toNumber(position.capital_allocated)
+    if (returnPct === null || !weight || weight < 0) continue
+    weighted += returnPct * weight
+    capital += weight
+  }
+  return capital > 0 ? weighted / capital : null
+}
+
+export interface PortfolioReturnResult {
+  snapshot_id: string
+  weighting_method: WeightingMethod
+  overall_portfolio_return_pct: number | null
+}
+
+// Recomputes and stores the snapshot's overall return, clearing the stale flag
+export const updatePortfolioReturn = async (
+  db: SupabaseClient,
+  snapshotId: string
+): Promise<PortfolioReturnResult> => {
+  const { data: snapshot, error: snapshotError } = await db
+    .from('snapshots')
+    .select('id, weighting_method')
+    .eq('id', snapshotId)
+    .single()
+  if (snapshotError) throw snapshotError
+
+  const { data: positions, error: positionsError } = await db
+    .from('snapshot_positions')
+    .select(`start_price, end_price, dividends_paid, start_price_override, end_price_override, dividends_paid_override, capital_allocated, price_adjustment, ${LOT_COLUMNS}`)
+    .eq('snapshot_id', snapshotId)
+    .eq('excluded', false)
+  if (positionsError) throw positionsError
+
+  const method: WeightingMethod = snapshot.weighting_method === 'capital' ? 'capital' : 'equal'
+  const overall = portfolioReturn(positions, method)
+
+  const { error } = await db
+    .from('snapshots')
+    .update({
+      overall_portfolio_return_pct: overall,
+      overall_return_computed_at: new Date().toISOString(),
+      overall_return_stale: false,
+    })
+    .eq('id', snapshotId)
+  if (error) throw error
+
+  return { snapshot_id: snapshotId, weighting_method: method, overall_portfolio_return_pct: overall }
+}
@@ -0,0 +1,83 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { effectivePrice } from '@/lib/returns'
+
+// Snapshot lifecycle. The database enforces the same rules (see the
+// snapshot_status_workflow migration); these checks give the UI a reason up front.
+
+export type SnapshotStatus = 'pending' | 'priced' | 'finalized'
+
+export const SNAPSHOT_STATUS_LABELS: Record<SnapshotStatus, string> = {
+  pending: 'Pending',
+  priced: 'Priced',
+  finalized: 'Finalized',
+}
+
+interface PricedRow {
+  start_price: number | string | null
+  end_price: number | string | null
+  start_price_override?: number | string | null
+  end_price_override?: number | string | null
+}
+
+export interface StatusTransition {
+  to: SnapshotStatus
+  label: string
+  adminOnly?: boolean
+}
+
+const TRANSITIONS: Record<SnapshotStatus, StatusTransition[]> = {
+  pending: [{ to: 'priced', label: 'Mark Priced' }],
+  priced: [
+    { to: 'finalized', label: 'Finalize' },
+    { to: 'pending', label: 'Back to Pending' },
+  ],
+  finalized: [{ to: 'priced', label: 'Reopen', adminOnly: true }],
+}
+
+export const toSnapshotStatus = (status: string | null | undefined): SnapshotStatus =>
+  status === 'priced' || status === 'finalized' ? status : 'pending'
+
+// Finalized snapshots can't be re-priced, edited or deleted until an admin reopens them
+export const isLocked = (status: string | null | undefined) => toSnapshotStatus(status) === 'finalized'
+
+export const availableTransitions = (status: string | null | undefined, isAdmin: boolean) =>
+  TRANSITIONS[toSnapshotStatus(status)].filter(t => !t.adminOnly || isAdmin)
+
+export const unpricedPositions = <T extends PricedRow>(positions: T[]) =>
+  positions.filter(p =>
+    effectivePrice(p.start_price, p.start_price_override) === null ||
+    effectivePrice(p.end_price, p.end_price_override) === null)
+
+// Why a transition isn't allowed, or null when it is
+export const transitionError = (
+  from: string | null | undefined,
+  to: SnapshotStatus,
+  positions: PricedRow[],
+  isAdmin: boolean
+): string | null => {
+  const transition = TRANSITIONS[toSnapshotStatus(from)].find(t => t.to === to)
+  if (!transition) {
+    return `A ${toSnapshotStatus(from)} snapshot can't move to ${to}`
+  }
+  if (transition.adminOnly && !isAdmin) {
+    return 'Only an admin can reopen a finalized snapshot'
+  }
+  if (to !== 'pending') {
+    const missing = unpricedPositions(positions).length
+    if (missing > 0) {
+      return `${missing} position${missing === 1 ? ' is' : 's are'} missing a start or end price`
+    }
+  }
+  return null
+}
+
+// For API routes that write to a snapshot's rows
+export const isSnapshotLocked = async (db: SupabaseClient, snapshotId: string) => {
+  const { data, error } = await db
+    .from('snapshots')
+    .select('status')
+    .eq('id', snapshotId)
+    .maybeSingle()
+  if (error) throw error
+  return isLocked(data?.status)
+}
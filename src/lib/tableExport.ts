@@ -0,0 +1,48 @@
+import type { Row, Table } from '@tanstack/react-table'
+import { toCsv } from '@/lib/csv'
+import { downloadFile } from '@/lib/download'
+
+// Exports exactly what a TanStack table is showing: rows after its filters and sort,
+// and only the visible columns that hold data (display-only columns like actions are skipped).
+
+export type ExportCell = string | number | boolean | null
+
+export interface TableMatrix {
+  header: string[]
+  rows: ExportCell[][]
+}
+
+// Numbers go out unrounded so prices, share counts and returns keep their precision
+const toExportCell = (value: unknown): ExportCell => {
+  if (value === null || value === undefined) return null
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null
+  if (typeof value === 'boolean') return value
+  return String(value)
+}
+
+export const tableMatrix = <T>(table: Table<T>, includeRow: (row: Row<T>) => boolean = () => true): TableMatrix => {
+  const columns = table.getVisibleLeafColumns().filter(column => column.accessorFn)
+  const header = columns.map(column => {
+    const label = column.columnDef.header
+    return typeof label === 'string' && label ? label : column.id
+  })
+  const rows = table.getRowModel().rows
+    .filter(includeRow)
+    .map(row => columns.map(column => toExportCell(row.getValue(column.id))))
+  return { header, rows }
+}
+
+export const exportMatrixToCsv = ({ header, rows }: TableMatrix, baseName: string) => {
+  downloadFile(toCsv(header, rows), `${baseName}.csv`, 'text/csv')
+}
+
+// write-excel-file is only needed once someone asks for a workbook, so it loads on demand
+export const exportMatrixToXlsx = async ({ header, rows }: TableMatrix, baseName: string, sheet = 'Sheet1') => {
+  const { default: writeXlsxFile } = await import('write-excel-file/browser')
+  const headerRow = header.map(value => ({ value, fontWeight: 'bold' as const }))
+  await writeXlsxFile([headerRow, ...rows], {
+    // Excel caps sheet names at 31 characters and rejects a few symbols
+    sheet: sheet.replace(/[\\/?*[\]:]/g, ' ').slice(0, 31),
+    stickyRowsCount: 1,
+  }).toFile(`${baseName}.xlsx`)
+}
@@ -0,0 +1,10 @@
+// Absolute http(s) links only, matching the positions_blog_post_url_check constraint
+export const isValidUrl = (value: string) => {
+  if (/\s/.test(value)) return false
+  try {
+    const url = new URL(value)
+    return url.protocol === 'http:' || url.protocol === 'https:'
+  } catch {
+    return false
+  }
+}
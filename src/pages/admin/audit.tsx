@@ -0,0 +1,158 @@
+import { useEffect, useState, useCallback } from 'react'
+import Layout from '@/components/Layout'
+import ProtectedRoute from '@/components/ProtectedRoute'
+import AuditEntryList from '@/components/audit/AuditEntryList'
+import { History } from 'lucide-react'
+import { supabase } from '@/utils/supabase'
+import {
+  AUDIT_ACTION_LABELS,
+  AUDIT_COLUMNS,
+  AUDITED_TABLES,
+  withActorNames,
+  type AuditAction,
+  type AuditEntry,
+} from '@/lib/audit'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+
+const PAGE_SIZE = 100
+
+interface AuditFilters {
+  table: string
+  action: '' | AuditAction
+  // Matches the changed row, or the position or snapshot it belongs to
+  rowId: string
+}
+
+const selectClassName = "flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+export default function AuditLog() {
+  const [entries, setEntries] = useState<AuditEntry[]>([])
+  const [filters, setFilters] = useState<AuditFilters>({ table: '', action: '', rowId: '' })
+  const [loading, setLoading] = useState(true)
+  const [hasMore, setHasMore] = useState(false)
+
+  const loadPage = useCallback(async (offset: number) => {
+    setLoading(true)
+    try {
+      let query = supabase
+        .from('audit_log')
+        .select(AUDIT_COLUMNS)
+        .order('changed_at', { ascending: false })
+        .range(offset, offset + PAGE_SIZE - 1)
+      if (filters.table) query = query.eq('table_name', filters.table)
+      if (filters.action) query = query.eq('action', filters.action)
+
+      const rowId = filters.rowId.trim()
+      if (rowId) {
+        // position_id and snapshot_id are uuid columns; only compare them against a uuid
+        query = UUID_PATTERN.test(rowId)
+          ? query.or(`row_id.eq.${rowId},position_id.eq.${rowId},snapshot_id.eq.${rowId}`)
+          : query.eq('row_id', rowId)
+      }
+
+      const { data, error } = await query
+      if (error) {
+        console.error('Error fetching audit log:', error)
+        alert('Error loading the audit log. Please try again.')
+        return
+      }
+
+      const page = await withActorNames(supabase, data || [])
+      setEntries(prev => offset === 0 ? page : [...prev, ...page])
+      setHasMore(page.length === PAGE_SIZE)
+    } catch (error) {
+      console.error('Error fetching audit log:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [filters])
+
+  useEffect(() => {
+    loadPage(0)
+  }, [loadPage])
+
+  return (
+    <ProtectedRoute requiredRole="admin">
+      <Layout>
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {/* Header */}
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold text-foreground flex items-center">
+              <History className="w-8 h-8 mr-3 text-finance-blue-600 dark:text-finance-blue-400" />
+              Audit Log
+            </h1>
+            <p className="text-muted-foreground mt-2">
+              Every change to positions, snapshots, settings and profiles, with who made it
+            </p>
+          </div>
+
+          {/* Filters */}
+          <div className="bg-card rounded-lg border border-border p-6 mb-8">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label htmlFor="audit-table" className="block text-sm font-medium text-foreground mb-1">Entity</label>
+                <select
+                  id="audit-table"
+                  value={filters.table}
+                  onChange={(e) => setFilters({ ...filters, table: e.target.value })}
+                  className={selectClassName}
+                >
+                  <option value="">All entities</option>
+                  {AUDITED_TABLES.map(table => (
+                    <option key={table.value} value={table.value}>{table.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="audit-action" className="block text-sm font-medium text-foreground mb-1">Action</label>
+                <select
+                  id="audit-action"
+                  value={filters.action}
+                  onChange={(e) => setFilters({ ...filters, action: e.target.value as AuditFilters['action'] })}
+                  className={selectClassName}
+                >
+                  <option value="">All actions</option>
+                  {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map(action => (
+                    <option key={action} value={action}>{AUDIT_ACTION_LABELS[action]}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="audit-row" className="block text-sm font-medium text-foreground mb-1">Row ID</label>
+                <Input
+                  id="audit-row"
+                  value={filters.rowId}
+                  onChange={(e) => setFilters({ ...filters, rowId: e.target.value })}
+                  placeholder="Row, position or snapshot id"
+                />
+              </div>
+            </div>
+          </div>
+
+          {/* Entries */}
+          <div className="bg-card rounded-lg border border-border p-6">
+            {loading && entries.length === 0 ? (
+              <div className="flex items-center justify-center py-12">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-finance-blue-500"></div>
+              </div>
+            ) : (
+              <>
+                <AuditEntryList entries={entries} emptyText="No changes match these filters." />
+                {hasMore && (
+                  <div className="flex justify-center mt-4">
+                    <Button variant="outline" onClick={() => loadPage(entries.length)} disabled={loading}>
+                      {loading ? 'Loading...' : 'Load More'}
+                    </Button>
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </Layout>
+    </ProtectedRoute>
+  )
+}
@@ -0,0 +1,237 @@
+import { useEffect, useState, useCallback } from 'react'
+import Layout from '@/components/Layout'
+import ProtectedRoute from '@/components/ProtectedRoute'
+import { Mail, ShieldCheck, ShieldOff, UserCheck, UserX, Users } from 'lucide-react'
+import { useAuth } from '@/contexts/AuthContext'
+import { inviteUser, listUsers, updateUser } from '@/lib/api/client'
+import type { AdminUser, UpdateUserRequest } from '@/lib/api/types'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+
+const formatDateTime = (value: string | null) => value ? new Date(value).toLocaleString() : 'Never'
+
+export default function AdminUsers() {
+  const { user } = useAuth()
+  const [users, setUsers] = useState<AdminUser[]>([])
+  const [loading, setLoading] = useState(true)
+  const [inviteEmail, setInviteEmail] = useState('')
+  const [isInviting, setIsInviting] = useState(false)
+  const [updatingId, setUpdatingId] = useState<string | null>(null)
+
+  const loadUsers = useCallback(async () => {
+    try {
+      const result = await listUsers()
+      setUsers(result.users)
+    } catch (error) {
+      console.error('Error fetching users:', error)
+      alert(`Error loading users: ${error.message}`)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadUsers()
+  }, [loadUsers])
+
+  const handleInvite = async () => {
+    if (!inviteEmail.trim()) {
+      alert('Enter an email address to invite')
+      return
+    }
+
+    setIsInviting(true)
+    try {
+      const result = await inviteUser({ email: inviteEmail.trim() })
+      setUsers(prev => [...prev.filter(u => u.id !== result.user.id), result.user]
+        .sort((a, b) => (a.email ?? '').localeCompare(b.email ?? '')))
+      setInviteEmail('')
+      alert(`Invitation sent to ${result.user.email}`)
+    } catch (error) {
+      console.error('Error inviting user:', error)
+      alert(`Error inviting user: ${error.message}`)
+    } finally {
+      setIsInviting(false)
+    }
+  }
+
+  const handleUpdate = async (target: AdminUser, changes: UpdateUserRequest, confirmText: string) => {
+    if (!confirm(confirmText)) return
+
+    setUpdatingId(target.id)
+    try {
+      const result = await updateUser(target.id, changes)
+      setUsers(prev => prev.map(u => u.id === target.id ? result.user : u))
+    } catch (error) {
+      console.error('Error updating user:', error)
+      alert(`Error updating user: ${error.message}`)
+    } finally {
+      setUpdatingId(null)
+    }
+  }
+
+  return (
+    <ProtectedRoute requiredRole="admin">
+      <Layout>
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {/* Header */}
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold text-foreground flex items-center">
+              <Users className="w-8 h-8 mr-3 text-finance-blue-600 dark:text-finance-blue-400" />
+              Users
+            </h1>
+            <p className="text-muted-foreground mt-2">
+              Who can sign in, and who can delete data, fetch prices and change settings
+            </p>
+          </div>
+
+          {/* Invite */}
+          <div className="bg-card rounded-lg border border-border p-6 mb-8">
+            <h2 className="text-xl font-semibold text-foreground mb-1">Invite User</h2>
+            <p className="text-sm text-muted-foreground mb-4">
+              Sends a magic sign-in link. New accounts start with the user role.
+            </p>
+            <div className="flex gap-3 max-w-xl">
+              <Input
+                type="email"
+                value={inviteEmail}
+                onChange={(e) => setInviteEmail(e.target.value)}
+                placeholder="name@example.com"
+              />
+              <Button onClick={handleInvite} disabled={isInviting} className="flex items-center gap-2">
+                <Mail className="h-4 w-4" />
+                {isInviting ? 'Sending...' : 'Send Invite'}
+              </Button>
+            </div>
+          </div>
+
+          {/* Users */}
+          <div className="bg-card rounded-lg border border-border">
+            {loading ? (
+              <div className="flex items-center justify-center py-12">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-finance-blue-500"></div>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>User</TableHead>
+                    <TableHead>Role</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Last Sign-in</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {users.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="h-24 text-center text-muted-foreground">
+                        No users yet.
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    users.map(account => {
+                      const isSelf = account.id === user?.id
+                      const isUpdating = updatingId === account.id
+                      const name = account.email || account.id
+                      return (
+                        <TableRow key={account.id} className={account.active ? undefined : 'opacity-50'}>
+                          <TableCell>
+                            <div className="text-sm font-medium text-foreground">
+                              {account.email || '-'}
+                              {isSelf && <span className="ml-2 text-xs text-muted-foreground">(you)</span>}
+                            </div>
+                            {(account.full_name || account.username) && (
+                              <div className="text-xs text-muted-foreground">{account.full_name || account.username}</div>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <span className={`inline-flex px-2 py-1 text-xs leading-5 font-semibold rounded-full ${
+                              account.role === 'admin'
+                                ? 'bg-finance-blue-100 text-finance-blue-800 dark:bg-finance-blue-900 dark:text-finance-blue-200'
+                                : 'bg-muted text-muted-foreground'
+                            }`}>
+                              {account.role === 'admin' ? 'Admin' : 'User'}
+                            </span>
+                          </TableCell>
+                          <TableCell className="text-sm text-foreground">
+                            {!account.active
+                              ? 'Deactivated'
+                              : account.last_sign_in_at ? 'Active' : 'Invited'}
+                          </TableCell>
+                          <TableCell className="text-sm text-muted-foreground">
+                            {formatDateTime(account.last_sign_in_at)}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex gap-2">
+                              {account.role === 'admin' ? (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  disabled={isSelf || isUpdating}
+                                  title={isSelf ? 'You can\'t demote yourself' : undefined}
+                                  onClick={() => handleUpdate(account, { role: 'user' }, `Demote ${name} to user? They will no longer be able to delete data, fetch prices or change settings.`)}
+                                  className="flex items-center gap-2"
+                                >
+                                  <ShieldOff className="h-4 w-4" />
+                                  Demote
+                                </Button>
+                              ) : (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  disabled={isUpdating}
+                                  onClick={() => handleUpdate(account, { role: 'admin' }, `Promote ${name} to admin?`)}
+                                  className="flex items-center gap-2"
+                                >
+                                  <ShieldCheck className="h-4 w-4" />
+                                  Promote
+                                </Button>
+                              )}
+                              {account.active ? (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  disabled={isSelf || isUpdating}
+                                  title={isSelf ? 'You can\'t deactivate yourself' : undefined}
+                                  onClick={() => handleUpdate(account, { active: false }, `Deactivate ${name}? They won't be able to sign in until reactivated.`)}
+                                  className="flex items-center gap-2 text-destructive hover:text-destructive-foreground hover:bg-destructive"
+                                >
+                                  <UserX className="h-4 w-4" />
+                                  Deactivate
+                                </Button>
+                              ) : (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  disabled={isUpdating}
+                                  onClick={() => handleUpdate(account, { active: true }, `Reactivate ${name}?`)}
+                                  className="flex items-center gap-2"
+                                >
+                                  <UserCheck className="h-4 w-4" />
+                                  Reactivate
+                                </Button>
+                              )}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      )
+                    })
+                  )}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        </div>
+      </Layout>
+    </ProtectedRoute>
+  )
+}
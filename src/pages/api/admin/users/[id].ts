@@ -0,0 +1,64 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { allowMethods, requireQueryParam, sendError } from '@/lib/api/gateway'
+import { requireAdmin } from '@/lib/api/auth'
+import type { UpdateUserRequest, UserResponse } from '@/lib/api/types'
+import { USER_ROLES } from '@/lib/auth/roles'
+import { DEACTIVATED_BAN, getAdminUser, recordActivation } from '@/lib/auth/users'
+import { getServiceSupabase } from '@/utils/supabaseServer'
+
+// Changes a user's role and/or deactivates or reactivates their account. Admins only,
+// and an admin can't demote or deactivate themselves.
+export default async function handler(req: NextApiRequest, res: NextApiResponse<UserResponse | unknown>) {
+  if (!allowMethods(req, res, ['PATCH'])) return
+
+  const db = getServiceSupabase()
+  if (!db) {
+    sendError(res, 503, 'database_not_configured', 'SUPABASE_SERVICE_ROLE_KEY is not configured')
+    return
+  }
+
+  const id = requireQueryParam(req, res, 'id')
+  if (!id) return
+  const body = (req.body || {}) as UpdateUserRequest
+
+  if (body.role !== undefined && !USER_ROLES.includes(body.role)) {
+    sendError(res, 400, 'invalid_request', `Role must be one of ${USER_ROLES.join(', ')}`)
+    return
+  }
+  if (body.active !== undefined && typeof body.active !== 'boolean') {
+    sendError(res, 400, 'invalid_request', 'active must be true or false')
+    return
+  }
+
+  try {
+    const admin = await requireAdmin(req, res)
+    if (!admin) return
+
+    if (admin.user.id === id && (body.role === 'user' || body.active === false)) {
+      sendError(res, 400, 'invalid_request', 'You can\'t demote or deactivate your own account')
+      return
+    }
+
+    if (body.role !== undefined) {
+      // As the admin, so the audit log records who changed the role
+      const { error } = await admin.db
+        .from('profiles')
+        .upsert({ id, role: body.role }, { onConflict: 'id' })
+      if (error) throw error
+    }
+
+    if (body.active !== undefined) {
+      const before = await getAdminUser(db, id)
+      const { error } = await db.auth.admin.updateUserById(id, {
+        ban_duration: body.active ? 'none' : DEACTIVATED_BAN,
+      })
+      if (error) throw error
+      if (before.active !== body.active) await recordActivation(db, admin.user.id, before, body.active)
+    }
+
+    res.status(200).json({ user: await getAdminUser(db, id) })
+  } catch (error) {
+    console.error('Error updating user:', error)
+    sendError(res, 500, 'user_update_failed', error.message || 'Failed to update user')
+  }
+}
@@ -0,0 +1,47 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { allowMethods, sendError } from '@/lib/api/gateway'
+import { requireAdmin } from '@/lib/api/auth'
+import type { InviteUserRequest, ListUsersResponse, UserResponse } from '@/lib/api/types'
+import { getAdminUser, listAdminUsers } from '@/lib/auth/users'
+import { getServiceSupabase } from '@/utils/supabaseServer'
+
+// Lists every account (GET) or invites a new one by magic link (POST). Admins only.
+export default async function handler(req: NextApiRequest, res: NextApiResponse<ListUsersResponse | UserResponse | unknown>) {
+  if (!allowMethods(req, res, ['GET', 'POST'])) return
+
+  const db = getServiceSupabase()
+  if (!db) {
+    sendError(res, 503, 'database_not_configured', 'SUPABASE_SERVICE_ROLE_KEY is not configured')
+    return
+  }
+
+  try {
+    if (!await requireAdmin(req, res)) return
+
+    if (req.method === 'GET') {
+      res.status(200).json({ users: await listAdminUsers(db) })
+      return
+    }
+
+    const body = (req.body || {}) as InviteUserRequest
+    const email = body.email?.trim().toLowerCase()
+    if (!email || !email.includes('@')) {
+      sendError(res, 400, 'invalid_request', 'A valid email address is required')
+      return
+    }
+
+    const origin = req.headers.origin
+    const { data, error } = await db.auth.admin.inviteUserByEmail(email, {
+      redirectTo: origin ? `${origin}/auth/callback` : undefined,
+    })
+    if (error) {
+      sendError(res, error.status === 422 ? 409 : 400, 'invite_failed', error.message)
+      return
+    }
+
+    res.status(201).json({ user: await getAdminUser(db, data.user.id) })
+  } catch (error) {
+    console.error('Error managing users:', error)
+    sendError(res, 500, 'users_request_failed', error.message || 'Failed to load users')
+  }
+}
@@ -0,0 +1,47 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { allowMethods, getQueryParam, sendError } from '@/lib/api/gateway'
+import { getServiceSupabase } from '@/utils/supabaseServer'
+
+// Development-only login for automated tests: mints a magic-link token for DEV_LOGIN_EMAIL
+// and redirects to /auth/callback, which signs the browser in with a real session.
+// Production builds answer 404 as if the route didn't exist.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (process.env.NODE_ENV === 'production') {
+    sendError(res, 404, 'not_found', 'Not found')
+    return
+  }
+
+  if (!allowMethods(req, res, ['GET'])) return
+
+  const email = process.env.DEV_LOGIN_EMAIL
+  const db = getServiceSupabase()
+  if (!email || !db) {
+    sendError(res, 503, 'dev_login_not_configured', 'DEV_LOGIN_EMAIL and SUPABASE_SERVICE_ROLE_KEY must be set')
+    return
+  }
+
+  const secret = process.env.DEV_LOGIN_SECRET
+  if (secret && getQueryParam(req, 'secret') !== secret) {
+    sendError(res, 403, 'forbidden', 'Invalid dev login secret')
+    return
+  }
+
+  // Only same-site paths, so the route can't be used as an open redirect
+  const next = getQueryParam(req, 'next')
+  const redirectPath = next && next.startsWith('/') && !next.startsWith('//') ? next : '/'
+
+  try {
+    const { data, error } = await db.auth.admin.generateLink({ type: 'magiclink', email })
+    if (error) throw error
+
+    const params = new URLSearchParams({
+      token_hash: data.properties.hashed_token,
+      type: 'magiclink',
+      next: redirectPath,
+    })
+    res.redirect(307, `/auth/callback?${params}`)
+  } catch (error) {
+    console.error('Error generating dev login link:', error)
+    sendError(res, 500, 'dev_login_failed', error.message || 'Failed to generate a login link')
+  }
+}
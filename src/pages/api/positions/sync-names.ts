@@ -0,0 +1,24 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { allowMethods, sendError } from '@/lib/api/gateway'
+import { requireUser } from '@/lib/api/auth'
+import type { SyncCompanyNamesRequest, SyncCompanyNamesResponse } from '@/lib/api/types'
+import { getPriceProvider } from '@/lib/prices'
+import { syncCompanyNames } from '@/lib/positions/companyNames'
+
+// Fills in company names natively from the configured market-data provider's profiles
+export default async function handler(req: NextApiRequest, res: NextApiResponse<SyncCompanyNamesResponse | unknown>) {
+  if (!allowMethods(req, res, ['POST'])) return
+
+  const caller = await requireUser(req, res)
+  if (!caller) return
+
+  const body = (req.body || {}) as SyncCompanyNamesRequest
+
+  try {
+    const result = await syncCompanyNames(caller.db, getPriceProvider(), Boolean(body.force_update))
+    res.status(200).json(result)
+  } catch (error) {
+    console.error('Error syncing company names:', error)
+    sendError(res, 500, 'sync_names_failed', error.message || 'Failed to sync company names')
+  }
+}
@@ -0,0 +1,26 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { allowMethods, requireQueryParam, sendError } from '@/lib/api/gateway'
+import { requireUser } from '@/lib/api/auth'
+import type { SnapshotBenchmarksResponse } from '@/lib/api/types'
+import { getPriceProvider } from '@/lib/prices'
+import { getSnapshotBenchmarks } from '@/lib/snapshots/benchmarks'
+
+// Benchmark returns over each position's window, for excess-return (alpha) comparison
+export default async function handler(req: NextApiRequest, res: NextApiResponse<SnapshotBenchmarksResponse | unknown>) {
+  if (!allowMethods(req, res, ['GET'])) return
+
+  const caller = await requireUser(req, res)
+  if (!caller) return
+  const { db } = caller
+
+  const id = requireQueryParam(req, res, 'id')
+  if (!id) return
+
+  try {
+    const benchmarks = await getSnapshotBenchmarks(db, id, getPriceProvider())
+    res.status(200).json({ snapshot_id: id, benchmarks })
+  } catch (error) {
+    console.error('Error computing benchmark returns:', error)
+    sendError(res, 500, 'benchmark_failed', error.message || 'Failed to compute benchmark returns')
+  }
+}
@@ -0,0 +1,28 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { allowMethods, proxyToBackend, requireQueryParam, sendError } from '@/lib/api/gateway'
+import { requireAdmin } from '@/lib/api/auth'
+import { isSnapshotLocked } from '@/lib/snapshots/status'
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!allowMethods(req, res, ['POST'])) return
+
+  const id = requireQueryParam(req, res, 'id')
+  if (!id) return
+
+  try {
+    // Without the database there is no admin check, so nobody may fetch prices
+    const caller = await requireAdmin(req, res)
+    if (!caller) return
+    // Refuse up front; otherwise the lock trigger rejects the backend's writes
+    if (await isSnapshotLocked(caller.db, id)) {
+      sendError(res, 409, 'snapshot_finalized', 'Snapshot is finalized. Reopen it before fetching prices.')
+      return
+    }
+  } catch (error) {
+    console.error('Error checking snapshot before fetching prices:', error)
+    sendError(res, 500, 'fetch_prices_failed', error.message || 'Failed to fetch prices')
+    return
+  }
+
+  await proxyToBackend(res, `/snapshots/${encodeURIComponent(id)}/fetch-prices`, { method: 'POST' })
+}
@@ -0,0 +1,31 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { allowMethods, requireQueryParam, sendError } from '@/lib/api/gateway'
+import { requireUser } from '@/lib/api/auth'
+import { getPriceProvider } from '@/lib/prices'
+import { fetchSnapshotDividends } from '@/lib/snapshots/engine'
+import { isSnapshotLocked } from '@/lib/snapshots/status'
+
+// Fetches the snapshot's dividends natively through the configured market-data provider
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!allowMethods(req, res, ['POST'])) return
+
+  const caller = await requireUser(req, res)
+  if (!caller) return
+  const { db } = caller
+
+  const id = requireQueryParam(req, res, 'id')
+  if (!id) return
+
+  try {
+    if (await isSnapshotLocked(db, id)) {
+      sendError(res, 409, 'snapshot_finalized', 'Snapshot is finalized. Reopen it before fetching dividends.')
+      return
+    }
+
+    const result = await fetchSnapshotDividends(db, id, getPriceProvider())
+    res.status(200).json(result)
+  } catch (error) {
+    console.error('Error fetching snapshot dividends:', error)
+    sendError(res, 500, 'populate_dividends_failed', error.message || 'Failed to fetch dividends')
+  }
+}
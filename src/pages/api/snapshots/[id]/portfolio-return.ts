@@ -0,0 +1,31 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { allowMethods, requireQueryParam, sendError } from '@/lib/api/gateway'
+import { requireUser } from '@/lib/api/auth'
+import type { PortfolioReturnResponse } from '@/lib/api/types'
+import { updatePortfolioReturn } from '@/lib/snapshots/portfolioReturn'
+import { isSnapshotLocked } from '@/lib/snapshots/status'
+
+// Recomputes the snapshot's overall_portfolio_return_pct with its weighting method
+export default async function handler(req: NextApiRequest, res: NextApiResponse<PortfolioReturnResponse | unknown>) {
+  if (!allowMethods(req, res, ['POST'])) return
+
+  const caller = await requireUser(req, res)
+  if (!caller) return
+  const { db } = caller
+
+  const id = requireQueryParam(req, res, 'id')
+  if (!id) return
+
+  try {
+    if (await isSnapshotLocked(db, id)) {
+      sendError(res, 409, 'snapshot_finalized', 'Snapshot is finalized. Reopen it before recomputing its return.')
+      return
+    }
+
+    const result = await updatePortfolioReturn(db, id)
+    res.status(200).json(result)
+  } catch (error) {
+    console.error('Error computing portfolio return:', error)
+    sendError(res, 500, 'portfolio_return_failed', error.message || 'Failed to compute portfolio return')
+  }
+}
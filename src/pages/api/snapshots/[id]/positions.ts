@@ -0,0 +1,37 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { allowMethods, requireQueryParam, sendError } from '@/lib/api/gateway'
+import { requireUser } from '@/lib/api/auth'
+import type { AddSnapshotPositionRequest, AddSnapshotPositionResponse } from '@/lib/api/types'
+import { getPriceProvider } from '@/lib/prices'
+import { addSnapshotPosition, SnapshotEngineError } from '@/lib/snapshots/engine'
+import { isSnapshotLocked } from '@/lib/snapshots/status'
+
+// Adds a position from the positions table to an existing snapshot
+export default async function handler(req: NextApiRequest, res: NextApiResponse<AddSnapshotPositionResponse | unknown>) {
+  if (!allowMethods(req, res, ['POST'])) return
+
+  const caller = await requireUser(req, res)
+  if (!caller) return
+  const { db } = caller
+
+  const id = requireQueryParam(req, res, 'id')
+  if (!id) return
+  const body = (req.body || {}) as AddSnapshotPositionRequest
+
+  try {
+    if (await isSnapshotLocked(db, id)) {
+      sendError(res, 409, 'snapshot_finalized', 'Snapshot is finalized. Reopen it before adding positions.')
+      return
+    }
+
+    const result = await addSnapshotPosition(db, id, body.position_id, getPriceProvider())
+    res.status(201).json(result)
+  } catch (error) {
+    if (error instanceof SnapshotEngineError) {
+      sendError(res, 400, 'invalid_request', error.message)
+      return
+    }
+    console.error('Error adding snapshot position:', error)
+    sendError(res, 500, 'snapshot_position_add_failed', error.message || 'Failed to add position to snapshot')
+  }
+}
@@ -0,0 +1,30 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { allowMethods, requireQueryParam, sendError } from '@/lib/api/gateway'
+import { requireUser } from '@/lib/api/auth'
+import { recomputeSnapshotDividends } from '@/lib/snapshots/engine'
+import { isSnapshotLocked } from '@/lib/snapshots/status'
+
+// Recomputes the snapshot's dividends natively from the dividends ledger
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!allowMethods(req, res, ['POST'])) return
+
+  const caller = await requireUser(req, res)
+  if (!caller) return
+  const { db } = caller
+
+  const id = requireQueryParam(req, res, 'id')
+  if (!id) return
+
+  try {
+    if (await isSnapshotLocked(db, id)) {
+      sendError(res, 409, 'snapshot_finalized', 'Snapshot is finalized. Reopen it before recomputing dividends.')
+      return
+    }
+
+    const result = await recomputeSnapshotDividends(db, id)
+    res.status(200).json(result)
+  } catch (error) {
+    console.error('Error recomputing snapshot dividends:', error)
+    sendError(res, 500, 'snapshot_dividends_failed', error.message || 'Failed to recompute snapshot dividends')
+  }
+}
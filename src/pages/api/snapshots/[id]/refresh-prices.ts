@@ -0,0 +1,31 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { allowMethods, requireQueryParam, sendError } from '@/lib/api/gateway'
+import { requireAdmin } from '@/lib/api/auth'
+import { getPriceProvider } from '@/lib/prices'
+import { refreshSnapshotPrices } from '@/lib/snapshots/engine'
+import { isSnapshotLocked } from '@/lib/snapshots/status'
+
+// Re-prices a snapshot natively through the configured market-data provider
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!allowMethods(req, res, ['POST'])) return
+
+  const id = requireQueryParam(req, res, 'id')
+  if (!id) return
+
+  try {
+    const caller = await requireAdmin(req, res)
+    if (!caller) return
+    const { db } = caller
+
+    if (await isSnapshotLocked(db, id)) {
+      sendError(res, 409, 'snapshot_finalized', 'Snapshot is finalized. Reopen it before refreshing prices.')
+      return
+    }
+
+    const result = await refreshSnapshotPrices(db, id, getPriceProvider())
+    res.status(200).json(result)
+  } catch (error) {
+    console.error('Error refreshing snapshot prices:', error)
+    sendError(res, 500, 'snapshot_refresh_failed', error.message || 'Failed to refresh snapshot prices')
+  }
+}
@@ -0,0 +1,31 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+import { allowMethods, sendError } from '@/lib/api/gateway'
+import { requireUser } from '@/lib/api/auth'
+import type { CreateSnapshotRequest, CreateSnapshotResponse } from '@/lib/api/types'
+import { getPriceProvider } from '@/lib/prices'
+import { createSnapshot, SnapshotEngineError } from '@/lib/snapshots/engine'
+import { getServiceSupabase } from '@/utils/supabaseServer'
+
+// Creates a snapshot natively from the positions and dividends tables
+export default async function handler(req: NextApiRequest, res: NextApiResponse<CreateSnapshotResponse | unknown>) {
+  if (!allowMethods(req, res, ['POST'])) return
+
+  const caller = await requireUser(req, res)
+  if (!caller) return
+  const { db } = caller
+
+  const body = (req.body || {}) as CreateSnapshotRequest
+
+  try {
+    // The rollback delete needs admin rights the caller may not have
+    const result = await createSnapshot(db, body, getPriceProvider(), getServiceSupabase() ?? db)
+    res.status(201).json(result)
+  } catch (error) {
+    if (error instanceof SnapshotEngineError) {
+      sendError(res, 400, 'invalid_request', error.message)
+      return
+    }
+    console.error('Error creating snapshot:', error)
+    sendError(res, 500, 'snapshot_create_failed', error.message || 'Failed to create snapshot')
+  }
+}
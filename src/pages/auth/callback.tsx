@@ -1,4 +1,4 @@
-import { useEffect } from 'react'
+import { useEffect, useRef } from 'react'
 import { useRouter } from 'next/router'
 import { useAuth } from '@/contexts/AuthContext'
 import { supabase } from '@/utils/supabase'
@@ -6,10 +6,14 @@ import { supabase } from '@/utils/supabase'
 export default function AuthCallback() {
   const router = useRouter()
   const { user } = useAuth()
+  // A magic-link token works once; signing in re-runs the effect before the redirect lands
+  const tokenUsed = useRef(false)
 
   useEffect(() => {
     const handleAuthCallback = async () => {
-      const { type, access_token, refresh_token } = router.query
+      const { type, access_token, refresh_token, code, token_hash, next } = router.query
+      // Where to land after signing in; only same-site paths
+      const redirectPath = typeof next === 'string' && next.startsWith('/') && !next.startsWith('//') ? next : '/'
 
       // Always check for recovery type first, regardless of user state
       if (type === 'recovery' && access_token && refresh_token) {
@@ -36,10 +40,53 @@ export default function AuthCallback() {
         }
       }
       
+      // Magic link, PKCE flow: trade the one-time code for a session
+      if (code) {
+        if (tokenUsed.current) return
+        tokenUsed.current = true
+        const { error } = await supabase.auth.exchangeCodeForSession(code as string)
+        if (error) {
+          console.error('Error exchanging magic link code:', error)
+          router.push('/login?error=invalid_magic_link')
+          return
+        }
+        router.push(redirectPath)
+        return
+      }
+
+      // Magic link from a custom email template: verify the hashed token
+      if (token_hash) {
+        if (tokenUsed.current) return
+        tokenUsed.current = true
+        const { error } = await supabase.auth.verifyOtp({
+          token_hash: token_hash as string,
+          type: type === 'magiclink' ? 'magiclink' : 'email',
+        })
+        if (error) {
+          console.error('Error verifying magic link:', error)
+          router.push('/login?error=invalid_magic_link')
+          return
+        }
+        router.push(redirectPath)
+        return
+      }
+
+      // Magic link, implicit flow: the client reads the tokens from the URL fragment
+      // and the auth listener sets the user, which re-runs this effect
+      const fragment = new URLSearchParams(window.location.hash.slice(1))
+      if (fragment.get('error')) {
+        console.error('Magic link error:', fragment.get('error_description'))
+        router.push('/login?error=invalid_magic_link')
+        return
+      }
+      if (!user && fragment.get('access_token')) {
+        return
+      }
+
       // Only check user state if not a recovery flow
       if (user) {
         // Regular authentication, redirect to dashboard
-        router.push('/')
+        router.push(redirectPath)
       } else {
         // No valid session, redirect to login
         router.push('/login')
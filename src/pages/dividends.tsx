@@ -0,0 +1,547 @@
+import { useEffect, useState, useMemo, useCallback } from 'react'
+import Layout from '@/components/Layout'
+import ProtectedRoute from '@/components/ProtectedRoute'
+import PositionDividendsDrawer, { type DrawerPosition } from '@/components/dividends/PositionDividendsDrawer'
+import {
+  useReactTable,
+  getCoreRowModel,
+  getSortedRowModel,
+  flexRender,
+  createColumnHelper
+} from '@tanstack/react-table'
+import { ChevronDown, ChevronUp, DollarSign, Calendar, Hash, Edit, Plus, Trash2, Filter, PanelRight } from 'lucide-react'
+import { supabase } from '@/utils/supabase'
+import { toNumber } from '@/lib/returns'
+import type { PositionStatus } from '@/lib/positions/status'
+import {
+  EMPTY_DIVIDEND_FILTERS,
+  filterDividends,
+  validateDividend,
+  type DividendFilters,
+  type LedgerDividend,
+} from '@/lib/dividends'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog'
+
+interface LedgerPosition extends DrawerPosition {
+  status: PositionStatus
+}
+
+interface LedgerRow extends LedgerDividend {
+  company_name: string | null
+}
+
+const columnHelper = createColumnHelper<LedgerRow>()
+
+const positionLabel = (position: LedgerPosition) =>
+  `${position.ticker} (opened ${new Date(`${position.start_date}T00:00:00`).toLocaleDateString()})`
+
+export default function Dividends() {
+  const [dividends, setDividends] = useState<LedgerDividend[]>([])
+  const [positions, setPositions] = useState<LedgerPosition[]>([])
+  const [loading, setLoading] = useState(true)
+  const [filters, setFilters] = useState<DividendFilters>(EMPTY_DIVIDEND_FILTERS)
+  const [sorting, setSorting] = useState([{ id: 'payment_date', desc: true }])
+  const [isModalOpen, setIsModalOpen] = useState(false)
+  const [editingDividend, setEditingDividend] = useState<LedgerDividend | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const [editForm, setEditForm] = useState({ position_id: '', payment_date: '', amount: '' })
+  const [drawerPosition, setDrawerPosition] = useState<LedgerPosition | null>(null)
+
+  const fetchLedger = useCallback(async () => {
+    try {
+      const [dividendsResult, positionsResult] = await Promise.all([
+        supabase
+          .from('dividends')
+          .select('id, position_id, payment_date, amount, ticker, created_at')
+          .order('payment_date', { ascending: false }),
+        supabase
+          .from('positions')
+          .select('id, ticker, company_name, start_date, end_date, status')
+          .order('ticker', { ascending: true }),
+      ])
+
+      if (dividendsResult.error) {
+        console.error('Error fetching dividends:', dividendsResult.error)
+        return
+      }
+      if (positionsResult.error) {
+        console.error('Error fetching positions:', positionsResult.error)
+        return
+      }
+
+      setDividends(dividendsResult.data || [])
+      setPositions(positionsResult.data || [])
+    } catch (error) {
+      console.error('Error fetching dividends:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchLedger()
+  }, [fetchLedger])
+
+  const positionsById = useMemo(() => new Map(positions.map(p => [p.id, p])), [positions])
+
+  // Older rows may predate the ticker column, so fall back to the position's ticker
+  const rows = useMemo<LedgerRow[]>(() => dividends.map(d => {
+    const position = positionsById.get(d.position_id)
+    return { ...d, ticker: d.ticker || position?.ticker || null, company_name: position?.company_name ?? null }
+  }), [dividends, positionsById])
+
+  const filteredRows = useMemo(() => filterDividends(rows, filters), [rows, filters])
+
+  const tickers = useMemo(() => (
+    [...new Set(rows.map(r => r.ticker).filter(Boolean))].sort()
+  ), [rows])
+
+  const summary = useMemo(() => ({
+    payments: filteredRows.length,
+    tickers: new Set(filteredRows.map(r => r.ticker)).size,
+    latest: filteredRows.reduce<string | null>((latest, r) => !latest || r.payment_date > latest ? r.payment_date : latest, null),
+  }), [filteredRows])
+
+  const handleAddDividend = () => {
+    setEditingDividend(null)
+    setEditForm({ position_id: '', payment_date: '', amount: '' })
+    setIsModalOpen(true)
+  }
+
+  const handleEditDividend = useCallback((dividend: LedgerDividend) => {
+    setEditingDividend(dividend)
+    setEditForm({
+      position_id: dividend.position_id,
+      payment_date: dividend.payment_date,
+      amount: String(toNumber(dividend.amount) ?? ''),
+    })
+    setIsModalOpen(true)
+  }, [])
+
+  const handleDeleteDividend = useCallback(async (dividend: LedgerRow) => {
+    if (!confirm(`Delete the ${dividend.ticker} payment on ${dividend.payment_date}?`)) {
+      return
+    }
+
+    try {
+      const { error } = await supabase
+        .from('dividends')
+        .delete()
+        .eq('id', dividend.id)
+
+      if (error) {
+        console.error('Error deleting dividend:', error)
+        alert('Error deleting dividend. Please try again.')
+        return
+      }
+
+      setDividends(prev => prev.filter(d => d.id !== dividend.id))
+    } catch (error) {
+      console.error('Error deleting dividend:', error)
+      alert('Error deleting dividend. Please try again.')
+    }
+  }, [])
+
+  const handleSaveDividend = async () => {
+    const position = positionsById.get(editForm.position_id) ?? null
+    const problem = validateDividend(editForm, position)
+    if (problem) {
+      alert(problem)
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const values = {
+        position_id: position.id,
+        ticker: position.ticker,
+        payment_date: editForm.payment_date,
+        amount: parseFloat(editForm.amount),
+      }
+
+      if (editingDividend) {
+        const { error } = await supabase
+          .from('dividends')
+          .update(values)
+          .eq('id', editingDividend.id)
+
+        if (error) {
+          console.error('Error updating dividend:', error)
+          alert('Error updating dividend. Please try again.')
+          return
+        }
+
+        setDividends(prev => prev.map(d => d.id === editingDividend.id ? { ...d, ...values } : d))
+      } else {
+        const { data, error } = await supabase
+          .from('dividends')
+          .insert([values])
+          .select('id, position_id, payment_date, amount, ticker, created_at')
+          .single()
+
+        if (error) {
+          console.error('Error adding dividend:', error)
+          alert('Error adding dividend. Please try again.')
+          return
+        }
+
+        setDividends(prev => [data, ...prev])
+      }
+
+      setIsModalOpen(false)
+      setEditingDividend(null)
+    } catch (error) {
+      console.error('Error saving dividend:', error)
+      alert('Error saving dividend. Please try again.')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const columns = useMemo(() => [
+    columnHelper.accessor('payment_date', {
+      header: 'Payment Date',
+      cell: info => (
+        <div className="text-sm text-foreground">
+          {new Date(`${info.getValue()}T00:00:00`).toLocaleDateString()}
+        </div>
+      )
+    }),
+    columnHelper.accessor('ticker', {
+      header: 'Ticker',
+      cell: info => (
+        <div className="font-medium text-foreground">
+          {info.getValue() || '-'}
+        </div>
+      )
+    }),
+    columnHelper.accessor('company_name', {
+      header: 'Company',
+      cell: info => (
+        <div className="text-muted-foreground">
+          {info.getValue() || '-'}
+        </div>
+      )
+    }),
+    columnHelper.accessor(row => toNumber(row.amount) ?? undefined, {
+      id: 'amount',
+      header: 'Amount per Share',
+      sortUndefined: 'last',
+      cell: info => (
+        <div className="text-sm text-foreground">
+          ${(info.getValue() ?? 0).toFixed(4)}
+        </div>
+      )
+    }),
+    columnHelper.display({
+      id: 'actions',
+      header: 'Actions',
+      cell: info => {
+        const dividend = info.row.original
+        const position = positionsById.get(dividend.position_id)
+        return (
+          <div className="flex space-x-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8 w-8 p-0 text-foreground hover:text-accent-foreground hover:bg-accent"
+              onClick={() => setDrawerPosition(position ?? null)}
+              disabled={!position}
+              title="All payments for this position"
+            >
+              <span className="sr-only">Open position dividends</span>
+              <PanelRight className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8 w-8 p-0 text-foreground hover:text-accent-foreground hover:bg-accent"
+              onClick={() => handleEditDividend(dividend)}
+            >
+              <span className="sr-only">Edit dividend</span>
+              <Edit className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8 w-8 p-0 text-destructive hover:text-destructive-foreground hover:bg-destructive"
+              onClick={() => handleDeleteDividend(dividend)}
+            >
+              <span className="sr-only">Delete dividend</span>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        )
+      }
+    }),
+  ], [positionsById, handleEditDividend, handleDeleteDividend])
+
+  const table = useReactTable({
+    data: filteredRows,
+    columns,
+    getCoreRowModel: getCoreRowModel(),
+    getSortedRowModel: getSortedRowModel(),
+    state: {
+      sorting,
+    },
+    onSortingChange: setSorting,
+  })
+
+  if (loading) {
+    return (
+      <ProtectedRoute allowDemo={true}>
+        <Layout>
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-finance-blue-500"></div>
+            </div>
+          </div>
+        </Layout>
+      </ProtectedRoute>
+    )
+  }
+
+  const selectClassName = "flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+  const hasFilters = filters.ticker || filters.from || filters.to
+
+  return (
+    <ProtectedRoute allowDemo={true}>
+      <Layout>
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {/* Header */}
+          <div className="mb-8">
+            <div className="flex justify-between items-start">
+              <div>
+                <h1 className="text-3xl font-bold text-foreground flex items-center">
+                  <DollarSign className="w-8 h-8 mr-3 text-finance-blue-600 dark:text-finance-blue-400" />
+                  Dividends
+                </h1>
+                <p className="text-muted-foreground mt-2">
+                  Every dividend payment received, per position. Snapshots total their dividends from this ledger.
+                </p>
+              </div>
+              <Button onClick={handleAddDividend} className="flex items-center gap-2">
+                <Plus className="h-4 w-4" />
+                Add Dividend
+              </Button>
+            </div>
+          </div>
+
+          {/* Summary Cards */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+            <div className="bg-card rounded-lg border border-border p-6">
+              <div className="flex items-center">
+                <Hash className="w-8 h-8 text-finance-blue-600 dark:text-finance-blue-400" />
+                <div className="ml-4">
+                  <p className="text-sm font-medium text-muted-foreground">Payments</p>
+                  <p className="text-2xl font-bold text-foreground">{summary.payments}</p>
+                </div>
+              </div>
+            </div>
+            <div className="bg-card rounded-lg border border-border p-6">
+              <div className="flex items-center">
+                <DollarSign className="w-8 h-8 text-profit-green-600 dark:text-profit-green-400" />
+                <div className="ml-4">
+                  <p className="text-sm font-medium text-muted-foreground">Paying Tickers</p>
+                  <p className="text-2xl font-bold text-foreground">{summary.tickers}</p>
+                </div>
+              </div>
+            </div>
+            <div className="bg-card rounded-lg border border-border p-6">
+              <div className="flex items-center">
+                <Calendar className="w-8 h-8 text-finance-blue-600 dark:text-finance-blue-400" />
+                <div className="ml-4">
+                  <p className="text-sm font-medium text-muted-foreground">Latest Payment</p>
+                  <p className="text-2xl font-bold text-foreground">
+                    {summary.latest ? new Date(`${summary.latest}T00:00:00`).toLocaleDateString() : '-'}
+                  </p>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          {/* Filters */}
+          <div className="mb-6 flex flex-wrap items-end gap-4">
+            <div className="flex items-center space-x-2 pb-2">
+              <Filter className="w-4 h-4 text-muted-foreground" />
+              <span className="text-sm font-medium text-muted-foreground">Filter:</span>
+            </div>
+            <div className="w-40">
+              <label htmlFor="filter-ticker" className="block text-xs font-medium text-muted-foreground mb-1">Ticker</label>
+              <select
+                id="filter-ticker"
+                value={filters.ticker}
+                onChange={(e) => setFilters({ ...filters, ticker: e.target.value })}
+                className={selectClassName}
+              >
+                <option value="">All tickers</option>
+                {tickers.map(ticker => (
+                  <option key={ticker} value={ticker}>{ticker}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="filter-from" className="block text-xs font-medium text-muted-foreground mb-1">From</label>
+              <Input id="filter-from" type="date" value={filters.from} onChange={(e) => setFilters({ ...filters, from: e.target.value })} />
+            </div>
+            <div>
+              <label htmlFor="filter-to" className="block text-xs font-medium text-muted-foreground mb-1">To</label>
+              <Input id="filter-to" type="date" value={filters.to} onChange={(e) => setFilters({ ...filters, to: e.target.value })} />
+            </div>
+            {hasFilters && (
+              <Button variant="outline" onClick={() => setFilters(EMPTY_DIVIDEND_FILTERS)}>
+                Clear
+              </Button>
+            )}
+          </div>
+
+          {/* Table */}
+          <div className="bg-card rounded-lg border border-border">
+            <Table>
+              <TableHeader>
+                {table.getHeaderGroups().map(headerGroup => (
+                  <TableRow key={headerGroup.id}>
+                    {headerGroup.headers.map(header => (
+                      <TableHead
+                        key={header.id}
+                        className="cursor-pointer hover:bg-muted/50 transition-colors"
+                        onClick={header.column.getToggleSortingHandler()}
+                      >
+                        <div className="flex items-center space-x-1">
+                          <span>
+                            {header.isPlaceholder
+                              ? null
+                              : flexRender(header.column.columnDef.header, header.getContext())
+                            }
+                          </span>
+                          {header.column.getCanSort() && (
+                            <span className="ml-1">
+                              {{
+                                asc: <ChevronUp className="w-4 h-4" />,
+                                desc: <ChevronDown className="w-4 h-4" />,
+                              }[header.column.getIsSorted() as string] ?? <ChevronDown className="w-4 h-4 opacity-50" />}
+                            </span>
+                          )}
+                        </div>
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableHeader>
+              <TableBody>
+                {table.getRowModel().rows.length === 0 ? (
+                  <TableRow>
+                    <TableCell
+                      colSpan={columns.length}
+                      className="h-24 text-center text-muted-foreground"
+                    >
+                      {rows.length === 0 ? 'No dividends recorded yet.' : 'No dividends match these filters.'}
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  table.getRowModel().rows.map(row => (
+                    <TableRow key={row.id}>
+                      {row.getVisibleCells().map(cell => (
+                        <TableCell key={cell.id}>
+                          {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+
+        {/* Add/Edit Dividend Modal */}
+        <Dialog open={isModalOpen} onOpenChange={setIsModalOpen}>
+          <DialogContent className="sm:max-w-[500px]">
+            <DialogHeader>
+              <DialogTitle>{editingDividend ? 'Edit Dividend' : 'Add Dividend'}</DialogTitle>
+            </DialogHeader>
+
+            <div className="grid gap-4 py-4">
+              <div>
+                <label htmlFor="position" className="block text-sm font-medium text-foreground mb-1">
+                  Position
+                </label>
+                <select
+                  id="position"
+                  value={editForm.position_id}
+                  onChange={(e) => setEditForm({ ...editForm, position_id: e.target.value })}
+                  className={selectClassName}
+                >
+                  <option value="">Choose a position</option>
+                  {positions.map(position => (
+                    <option key={position.id} value={position.id}>{positionLabel(position)}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="payment_date" className="block text-sm font-medium text-foreground mb-1">
+                    Payment Date
+                  </label>
+                  <Input
+                    id="payment_date"
+                    type="date"
+                    value={editForm.payment_date}
+                    onChange={(e) => setEditForm({ ...editForm, payment_date: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="amount" className="block text-sm font-medium text-foreground mb-1">
+                    Amount per Share
+                  </label>
+                  <Input
+                    id="amount"
+                    type="number"
+                    step="0.0001"
+                    min="0"
+                    value={editForm.amount}
+                    onChange={(e) => setEditForm({ ...editForm, amount: e.target.value })}
+                    placeholder="0.24"
+                  />
+                </div>
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setIsModalOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleSaveDividend} disabled={isSaving}>
+                {isSaving ? 'Saving...' : editingDividend ? 'Save Changes' : 'Add Dividend'}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        <PositionDividendsDrawer
+          position={drawerPosition}
+          open={drawerPosition !== null}
+          onOpenChange={(open) => !open && setDrawerPosition(null)}
+          onChange={fetchLedger}
+        />
+      </Layout>
+    </ProtectedRoute>
+  )
+}
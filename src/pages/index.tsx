@@ -1,58 +1,185 @@
-import { useEffect, useState } from 'react'
+import { useEffect, useState, useMemo } from 'react'
+import Link from 'next/link'
 import Layout from '@/components/Layout'
 import ProtectedRoute from '@/components/ProtectedRoute'
-import { TrendingUp, TrendingDown, DollarSign, Target, BarChart3 } from 'lucide-react'
+import { TrendingUp, TrendingDown, DollarSign, Target, BarChart3, ArrowRight } from 'lucide-react'
+import { supabase } from '@/utils/supabase'
+import { formatReturn, toNumber } from '@/lib/returns'
+import { LOT_COLUMNS, type LotTransaction } from '@/lib/positions/lots'
+import { positionStatusClassName, type PositionStatus } from '@/lib/positions/status'
+import { dividendsYearToDate, rankPerformers, recentActivity } from '@/lib/dashboard'
+
+interface DashboardPosition {
+  id: string
+  ticker: string
+  company_name: string | null
+  start_date: string
+  end_date: string | null
+  capital_allocated: number | null
+  start_price: number | null
+  start_price_override: number | null
+  status: PositionStatus
+}
+
+interface LatestSnapshot {
+  id: string
+  name: string | null
+  end_date: string
+  overall_portfolio_return_pct: number | null
+}
+
+interface SnapshotRow {
+  id: string
+  position_id: string | null
+  ticker: string
+  company_name: string | null
+  start_price: number | null
+  end_price: number | null
+  dividends_paid: number | null
+  start_price_override: number | null
+  end_price_override: number | null
+  dividends_paid_override: number | null
+  price_adjustment: number | null
+  opening_shares: number | null
+  excluded: boolean
+}
+
+interface YearDividend {
+  position_id: string
+  payment_date: string
+  amount: number
+}
+
+const formatDate = (value: string | null) => value ? new Date(`${value}T00:00:00`).toLocaleDateString() : '-'
+
+const formatMoney = (value: number) =>
+  `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+
+const returnClassName = (value: number | null) => {
+  if (value === null) return 'text-muted-foreground'
+  return value >= 0 ? 'text-profit-green-600 dark:text-profit-green-400' : 'text-loss-red-600 dark:text-loss-red-400'
+}
 
 export default function Dashboard() {
-  const [positions, setPositions] = useState([])
+  const [positions, setPositions] = useState<DashboardPosition[]>([])
+  const [snapshot, setSnapshot] = useState<LatestSnapshot | null>(null)
+  const [snapshotRows, setSnapshotRows] = useState<SnapshotRow[]>([])
+  const [dividends, setDividends] = useState<YearDividend[]>([])
+  const [transactions, setTransactions] = useState<LotTransaction[]>([])
   const [loading, setLoading] = useState(true)
 
-  // Mock data for now - replace with actual API calls
   useEffect(() => {
-    const mockPositions = [
-      {
-        id: '1',
-        ticker: 'AAPL',
-        company_name: 'Apple Inc.',
-        start_date: '2024-01-15',
-        start_price: 185.50,
-        current_price: 195.30,
-        status: 'Open'
-      },
-      {
-        id: '2', 
-        ticker: 'MSFT',
-        company_name: 'Microsoft Corporation',
-        start_date: '2024-02-01',
-        start_price: 412.80,
-        current_price: 428.90,
-        status: 'Open'
-      },
-      {
-        id: '3',
-        ticker: 'GOOGL',
-        company_name: 'Alphabet Inc.',
-        start_date: '2024-01-20',
-        start_price: 142.65,
-        current_price: 138.25,
-        status: 'Open'
+    const fetchData = async () => {
+      try {
+        const yearStart = `${new Date().getFullYear()}-01-01`
+        const [positionsResult, snapshotResult, dividendsResult, transactionsResult] = await Promise.all([
+          supabase
+            .from('positions')
+            .select('id, ticker, company_name, start_date, end_date, capital_allocated, start_price, start_price_override, status'),
+          supabase
+            .from('snapshots')
+            .select('id, name, end_date, overall_portfolio_return_pct')
+            .eq('status', 'finalized')
+            .order('end_date', { ascending: false })
+            .limit(1)
+            .maybeSingle(),
+          supabase
+            .from('dividends')
+            .select('position_id, payment_date, amount')
+            .gte('payment_date', yearStart),
+          // Shares held on each payment date, for dividend income
+          supabase
+            .from('position_transactions')
+            .select('position_id, type, trade_date, quantity, price'),
+        ])
+
+        if (positionsResult.error) {
+          console.error('Error fetching positions:', positionsResult.error)
+          return
+        }
+        if (snapshotResult.error) {
+          console.error('Error fetching latest snapshot:', snapshotResult.error)
+          return
+        }
+        if (dividendsResult.error) {
+          console.error('Error fetching dividends:', dividendsResult.error)
+          return
+        }
+        if (transactionsResult.error) {
+          console.error('Error fetching trades:', transactionsResult.error)
+          return
+        }
+
+        setPositions(positionsResult.data || [])
+        setSnapshot(snapshotResult.data)
+        setDividends(dividendsResult.data || [])
+        setTransactions(transactionsResult.data || [])
+
+        if (snapshotResult.data) {
+          const { data: rowsData, error: rowsError } = await supabase
+            .from('snapshot_positions')
+            .select(`id, position_id, ticker, company_name, start_price, end_price, dividends_paid, start_price_override, end_price_override, dividends_paid_override, price_adjustment, excluded, ${LOT_COLUMNS}`)
+            .eq('snapshot_id', snapshotResult.data.id)
+
+          if (rowsError) {
+            console.error('Error fetching snapshot positions:', rowsError)
+            return
+          }
+          setSnapshotRows(rowsData || [])
+        }
+      } catch (error) {
+        console.error('Error fetching dashboard data:', error)
+      } finally {
+        setLoading(false)
       }
-    ]
-    
-    setTimeout(() => {
-      setPositions(mockPositions)
-      setLoading(false)
-    }, 1000)
+    }
+
+    fetchData()
   }, [])
 
-  const calculateReturn = (startPrice, currentPrice) => {
-    return ((currentPrice - startPrice) / startPrice * 100).toFixed(2)
-  }
+  const openPositions = useMemo(() => positions.filter(p => p.status === 'Open'), [positions])
+  const openCapital = useMemo(() => (
+    openPositions.reduce((sum, p) => sum + (toNumber(p.capital_allocated) ?? 0), 0)
+  ), [openPositions])
+  const dividendIncome = useMemo(() => (
+    dividendsYearToDate(dividends, positions, transactions)
+  ), [dividends, positions, transactions])
+  const performers = useMemo(() => rankPerformers(snapshotRows), [snapshotRows])
+  const activity = useMemo(() => recentActivity(positions), [positions])
+
+  const snapshotReturn = toNumber(snapshot?.overall_portfolio_return_pct)
 
-  const totalReturn = positions.reduce((acc, pos) => {
-    const returnPct = parseFloat(calculateReturn(pos.start_price, pos.current_price))
-    return acc + returnPct
-  }, 0) / positions.length || 0
+  // Rows from before snapshot rows were linked to positions fall back to the snapshot page
+  const performerHref = (row: SnapshotRow) =>
+    row.position_id ? `/positions/${row.position_id}` : `/snapshots/${snapshot?.id}`
+
+  const renderPerformers = (title: string, list: typeof performers.top) => (
+    <div className="bg-card rounded-lg border border-border">
+      <div className="px-6 py-4 border-b border-border">
+        <h2 className="text-xl font-semibold text-foreground">{title}</h2>
+        <p className="text-sm text-muted-foreground">
+          {snapshot ? `From ${snapshot.name || formatDate(snapshot.end_date)}` : 'No finalized snapshot yet'}
+        </p>
+      </div>
+      {list.length === 0 ? (
+        <p className="px-6 py-8 text-sm text-center text-muted-foreground">No priced positions to rank.</p>
+      ) : (
+        <ul className="divide-y divide-border">
+          {list.map(({ row, returnPct }) => (
+            <li key={row.id}>
+              <Link href={performerHref(row)} className="flex items-center justify-between px-6 py-3 hover:bg-muted/50">
+                <div>
+                  <p className="text-sm font-medium text-foreground">{row.ticker}</p>
+                  {row.company_name && <p className="text-xs text-muted-foreground">{row.company_name}</p>}
+                </div>
+                <span className={`text-sm font-medium ${returnClassName(returnPct)}`}>{formatReturn(returnPct)}</span>
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
 
   return (
     <ProtectedRoute allowDemo={true}>
@@ -66,140 +193,113 @@ export default function Dashboard() {
             </p>
           </div>
 
-          {/* Stats Cards */}
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
-            <div className="bg-card rounded-lg border border-border p-6">
-              <div className="flex items-center justify-between">
-                <div>
-                  <p className="text-sm font-medium text-muted-foreground">Total Positions</p>
-                  <p className="text-2xl font-bold text-foreground">{positions.length}</p>
-                </div>
-                <BarChart3 className="w-8 h-8 text-finance-blue-500" />
-              </div>
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-finance-blue-500"></div>
             </div>
+          ) : (
+            <>
+              {/* Stats Cards */}
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+                <Link href="/positions" className="bg-card rounded-lg border border-border p-6 hover:bg-muted/50 transition-colors">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-sm font-medium text-muted-foreground">Open Positions</p>
+                      <p className="text-2xl font-bold text-foreground">{openPositions.length}</p>
+                      <p className="text-xs text-muted-foreground mt-1">{positions.length} total</p>
+                    </div>
+                    <Target className="w-8 h-8 text-finance-blue-500" />
+                  </div>
+                </Link>
 
-            <div className="bg-card rounded-lg border border-border p-6">
-              <div className="flex items-center justify-between">
-                <div>
-                  <p className="text-sm font-medium text-muted-foreground">Portfolio Value</p>
-                  <p className="text-2xl font-bold text-foreground">$124,580</p>
-                </div>
-                <DollarSign className="w-8 h-8 text-finance-blue-500" />
-              </div>
-            </div>
+                <Link href="/positions" className="bg-card rounded-lg border border-border p-6 hover:bg-muted/50 transition-colors">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-sm font-medium text-muted-foreground">Capital in Open Positions</p>
+                      <p className="text-2xl font-bold text-foreground">{formatMoney(openCapital)}</p>
+                    </div>
+                    <BarChart3 className="w-8 h-8 text-finance-blue-500" />
+                  </div>
+                </Link>
 
-            <div className="bg-card rounded-lg border border-border p-6">
-              <div className="flex items-center justify-between">
-                <div>
-                  <p className="text-sm font-medium text-muted-foreground">Avg Return</p>
-                  <p className={`text-2xl font-bold ${totalReturn >= 0 ? 'profit' : 'loss'}`}>
-                    {totalReturn >= 0 ? '+' : ''}{totalReturn.toFixed(2)}%
-                  </p>
-                </div>
-                {totalReturn >= 0 ? 
-                  <TrendingUp className="w-8 h-8 text-profit-green-500" /> :
-                  <TrendingDown className="w-8 h-8 text-loss-red-500" />
-                }
+                <Link
+                  href={snapshot ? `/snapshots/${snapshot.id}` : '/snapshots'}
+                  className="bg-card rounded-lg border border-border p-6 hover:bg-muted/50 transition-colors"
+                >
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-sm font-medium text-muted-foreground">Latest Snapshot Return</p>
+                      <p className={`text-2xl font-bold ${returnClassName(snapshotReturn)}`}>
+                        {formatReturn(snapshotReturn)}
+                      </p>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {snapshot ? snapshot.name || formatDate(snapshot.end_date) : 'No finalized snapshot yet'}
+                      </p>
+                    </div>
+                    {(snapshotReturn ?? 0) >= 0 ?
+                      <TrendingUp className="w-8 h-8 text-profit-green-500" /> :
+                      <TrendingDown className="w-8 h-8 text-loss-red-500" />
+                    }
+                  </div>
+                </Link>
+
+                <Link href="/dividends" className="bg-card rounded-lg border border-border p-6 hover:bg-muted/50 transition-colors">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-sm font-medium text-muted-foreground">Dividends Year to Date</p>
+                      <p className="text-2xl font-bold text-foreground">{formatMoney(dividendIncome.income)}</p>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {dividendIncome.payments} payment{dividendIncome.payments === 1 ? '' : 's'}
+                        {dividendIncome.unsized > 0 && `, ${dividendIncome.unsized} without a share count`}
+                      </p>
+                    </div>
+                    <DollarSign className="w-8 h-8 text-finance-blue-500" />
+                  </div>
+                </Link>
               </div>
-            </div>
 
-            <div className="bg-card rounded-lg border border-border p-6">
-              <div className="flex items-center justify-between">
-                <div>
-                  <p className="text-sm font-medium text-muted-foreground">Open Positions</p>
-                  <p className="text-2xl font-bold text-foreground">
-                    {positions.filter(p => p.status === 'Open').length}
-                  </p>
-                </div>
-                <Target className="w-8 h-8 text-finance-blue-500" />
+              {/* Performers */}
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
+                {renderPerformers('Top Performers', performers.top)}
+                {renderPerformers('Bottom Performers', performers.bottom)}
               </div>
-            </div>
-          </div>
 
-          {/* Recent Positions Table */}
-          <div className="bg-card rounded-lg border border-border">
-            <div className="px-6 py-4 border-b border-border">
-              <h2 className="text-xl font-semibold text-foreground">Recent Positions</h2>
-            </div>
-            
-            <div className="overflow-x-auto">
-              {loading ? (
-                <div className="flex items-center justify-center py-12">
-                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-finance-blue-500"></div>
+              {/* Recent activity */}
+              <div className="bg-card rounded-lg border border-border">
+                <div className="px-6 py-4 border-b border-border flex items-center justify-between">
+                  <h2 className="text-xl font-semibold text-foreground">Recent Activity</h2>
+                  <Link href="/positions" className="text-sm text-muted-foreground hover:text-foreground flex items-center gap-1">
+                    All positions
+                    <ArrowRight className="h-4 w-4" />
+                  </Link>
                 </div>
-              ) : (
-                <table className="w-full">
-                  <thead className="bg-muted/50">
-                    <tr>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
-                        Symbol
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
-                        Company
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
-                        Start Price
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
-                        Current Price
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
-                        Return
-                      </th>
-                      <th className="px-6 py-3 text-left text-xs font-medium text-muted-foreground uppercase tracking-wider">
-                        Status
-                      </th>
-                    </tr>
-                  </thead>
-                  <tbody className="divide-y divide-border">
-                    {positions.map((position) => {
-                      const returnPct = calculateReturn(position.start_price, position.current_price)
-                      const isPositive = parseFloat(returnPct) >= 0
-                      
-                      return (
-                        <tr key={position.id} className="hover:bg-muted/50">
-                          <td className="px-6 py-4 whitespace-nowrap">
-                            <div className="text-sm font-medium text-foreground">
-                              {position.ticker}
-                            </div>
-                          </td>
-                          <td className="px-6 py-4 whitespace-nowrap">
-                            <div className="text-sm text-muted-foreground">
-                              {position.company_name}
-                            </div>
-                          </td>
-                          <td className="px-6 py-4 whitespace-nowrap">
-                            <div className="text-sm text-foreground">
-                              ${position.start_price.toFixed(2)}
-                            </div>
-                          </td>
-                          <td className="px-6 py-4 whitespace-nowrap">
-                            <div className="text-sm text-foreground">
-                              ${position.current_price.toFixed(2)}
-                            </div>
-                          </td>
-                          <td className="px-6 py-4 whitespace-nowrap">
-                            <div className={`text-sm font-medium ${isPositive ? 'profit' : 'loss'}`}>
-                              {isPositive ? '+' : ''}{returnPct}%
-                            </div>
-                          </td>
-                          <td className="px-6 py-4 whitespace-nowrap">
-                            <span className={`inline-flex px-2 py-1 text-xs leading-5 font-semibold rounded-full ${
-                              position.status === 'Open' 
-                                ? 'bg-profit-green-100 text-profit-green-800' 
-                                : 'bg-muted text-muted-foreground'
-                            }`}>
+                {activity.length === 0 ? (
+                  <p className="px-6 py-8 text-sm text-center text-muted-foreground">No positions yet.</p>
+                ) : (
+                  <ul className="divide-y divide-border">
+                    {activity.map(({ position, kind, date }) => (
+                      <li key={`${position.id}-${kind}`}>
+                        <Link href={`/positions/${position.id}`} className="flex items-center justify-between px-6 py-3 hover:bg-muted/50">
+                          <div>
+                            <p className="text-sm font-medium text-foreground">
+                              {kind === 'opened' ? 'Opened' : position.status === 'Delisted' ? 'Delisted' : 'Closed'} {position.ticker}
+                            </p>
+                            {position.company_name && <p className="text-xs text-muted-foreground">{position.company_name}</p>}
+                          </div>
+                          <div className="flex items-center gap-3">
+                            <span className="text-sm text-muted-foreground">{formatDate(date)}</span>
+                            <span className={`inline-flex px-2 py-1 text-xs leading-5 font-semibold rounded-full ${positionStatusClassName(position.status)}`}>
                               {position.status}
                             </span>
-                          </td>
-                        </tr>
-                      )
-                    })}
-                  </tbody>
-                </table>
-              )}
-            </div>
-          </div>
+                          </div>
+                        </Link>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </>
+          )}
         </div>
       </Layout>
     </ProtectedRoute>
@@ -11,8 +11,9 @@ export default function Login() {
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState('')
   const [resetEmailSent, setResetEmailSent] = useState(false)
+  const [magicLinkSent, setMagicLinkSent] = useState(false)
   
-  const { signIn, resetPasswordForEmail } = useAuth()
+  const { signIn, signInWithOtp, resetPasswordForEmail } = useAuth()
   const router = useRouter()
 
   // Handle error messages from URL parameters
@@ -26,6 +27,9 @@ export default function Login() {
         case 'recovery_failed':
           setError('Password reset failed. Please try again.')
           break
+        case 'invalid_magic_link':
+          setError('Invalid or expired sign-in link. Please request a new one.')
+          break
         case 'no_session':
           setError('Session expired. Please sign in again.')
           break
@@ -61,6 +65,29 @@ export default function Login() {
     }
   }
 
+  const handleMagicLink = async () => {
+    if (!email) {
+      setError('Please enter your email address first')
+      return
+    }
+
+    setLoading(true)
+    setError('')
+
+    try {
+      const { error } = await signInWithOtp(email)
+      if (error) {
+        setError(error.message || 'Failed to send sign-in link')
+      } else {
+        setMagicLinkSent(true)
+      }
+    } catch {
+      setError('An unexpected error occurred')
+    } finally {
+      setLoading(false)
+    }
+  }
+
   const handleDemoLogin = () => {
     // For demo purposes, simulate login without Supabase
     setError('')
@@ -134,6 +161,14 @@ export default function Login() {
             </div>
           )}
           
+          {magicLinkSent && (
+            <div className="rounded-md bg-green-50 border border-green-200 p-3">
+              <div className="text-sm text-green-800">
+                Sign-in link sent! Check your inbox and click the link to sign in.
+              </div>
+            </div>
+          )}
+          
           <div className="space-y-4">
             <div>
               <label htmlFor="email" className="block text-sm font-medium text-foreground">
@@ -200,6 +235,17 @@ export default function Login() {
             </button>
           </div>
 
+          <div>
+            <button
+              type="button"
+              onClick={handleMagicLink}
+              disabled={loading}
+              className="group relative w-full flex justify-center py-2 px-4 border border-border text-sm font-medium rounded-md text-foreground bg-background hover:bg-muted focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-finance-blue-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Email me a sign-in link
+            </button>
+          </div>
+
           <div>
             <button
               type="button"
@@ -0,0 +1,226 @@
+import { useEffect, useState, useMemo } from 'react'
+import dynamic from 'next/dynamic'
+import Layout from '@/components/Layout'
+import ProtectedRoute from '@/components/ProtectedRoute'
+import { LineChart, TrendingUp, Percent, Clock } from 'lucide-react'
+import type { AgCartesianChartOptions } from 'ag-charts-community'
+import { supabase } from '@/utils/supabase'
+import { formatReturn } from '@/lib/returns'
+import { LOT_COLUMNS } from '@/lib/positions/lots'
+import {
+  buildPerformanceSeries,
+  buildTickerTimeline,
+  type PerformancePosition,
+  type PerformanceSnapshot,
+} from '@/lib/snapshots/performance'
+
+const ThemedChart = dynamic(() => import('@/components/charts/ThemedChart'), { ssr: false })
+
+const percentAxes: AgCartesianChartOptions['axes'] = {
+  x: { type: 'time', position: 'bottom' },
+  y: { type: 'number', position: 'left', label: { formatter: ({ value }) => `${value}%` } },
+}
+
+export default function Performance() {
+  const [snapshots, setSnapshots] = useState<PerformanceSnapshot[]>([])
+  const [positions, setPositions] = useState<PerformancePosition[]>([])
+  const [loading, setLoading] = useState(true)
+  const [selectedTicker, setSelectedTicker] = useState('')
+
+  useEffect(() => {
+    const fetchData = async () => {
+      try {
+        const [snapshotsResult, positionsResult] = await Promise.all([
+          supabase
+            .from('snapshots')
+            .select('id, name, end_date, overall_portfolio_return_pct')
+            .order('end_date', { ascending: true }),
+          supabase
+            .from('snapshot_positions')
+            .select(`snapshot_id, ticker, start_date, end_date, start_price, end_price, dividends_paid, start_price_override, end_price_override, dividends_paid_override, price_adjustment, ${LOT_COLUMNS}`)
+            .eq('excluded', false),
+        ])
+
+        if (snapshotsResult.error) {
+          console.error('Error fetching snapshots:', snapshotsResult.error)
+          return
+        }
+        if (positionsResult.error) {
+          console.error('Error fetching snapshot positions:', positionsResult.error)
+          return
+        }
+
+        setSnapshots(snapshotsResult.data || [])
+        setPositions(positionsResult.data || [])
+      } catch (error) {
+        console.error('Error fetching performance data:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchData()
+  }, [])
+
+  const series = useMemo(() => buildPerformanceSeries(snapshots, positions), [snapshots, positions])
+
+  const tickers = useMemo(() => (
+    [...new Set(positions.map(p => p.ticker))].sort()
+  ), [positions])
+
+  useEffect(() => {
+    if (!selectedTicker && tickers.length > 0) {
+      setSelectedTicker(tickers[0])
+    }
+  }, [tickers, selectedTicker])
+
+  const tickerTimeline = useMemo(() => (
+    selectedTicker ? buildTickerTimeline(selectedTicker, snapshots, positions) : []
+  ), [selectedTicker, snapshots, positions])
+
+  const latest = series[series.length - 1]
+
+  const portfolioOptions = useMemo<AgCartesianChartOptions>(() => ({
+    data: series,
+    series: [
+      {
+        type: 'line',
+        xKey: 'date',
+        yKey: 'overall_return',
+        yName: 'Overall Portfolio Return',
+      },
+      {
+        type: 'line',
+        xKey: 'date',
+        yKey: 'average_return',
+        yName: 'Average Position Return',
+      },
+      {
+        type: 'line',
+        xKey: 'date',
+        yKey: 'average_annualized_return',
+        yName: 'Average Annualized Return',
+      },
+    ],
+    axes: percentAxes,
+    legend: { position: 'bottom' },
+  }), [series])
+
+  const tickerOptions = useMemo<AgCartesianChartOptions>(() => ({
+    data: tickerTimeline,
+    series: [
+      {
+        type: 'line',
+        xKey: 'date',
+        yKey: 'return_pct',
+        yName: `${selectedTicker} Return`,
+      },
+    ],
+    axes: percentAxes,
+  }), [tickerTimeline, selectedTicker])
+
+  if (loading) {
+    return (
+      <ProtectedRoute allowDemo={true}>
+        <Layout>
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-finance-blue-500"></div>
+            </div>
+          </div>
+        </Layout>
+      </ProtectedRoute>
+    )
+  }
+
+  const selectClassName = "flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+
+  return (
+    <ProtectedRoute allowDemo={true}>
+      <Layout>
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {/* Header */}
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold text-foreground flex items-center">
+              <LineChart className="w-8 h-8 mr-3 text-finance-blue-600 dark:text-finance-blue-400" />
+              Performance
+            </h1>
+            <p className="text-muted-foreground mt-2">
+              Portfolio returns across {series.length} snapshot{series.length === 1 ? '' : 's'}
+            </p>
+          </div>
+
+          {/* Summary Cards */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+            <div className="bg-card rounded-lg border border-border p-6">
+              <div className="flex items-center">
+                <TrendingUp className="w-8 h-8 text-finance-blue-600 dark:text-finance-blue-400" />
+                <div className="ml-4">
+                  <p className="text-sm font-medium text-muted-foreground">Latest Portfolio Return</p>
+                  <p className="text-2xl font-bold text-foreground">{formatReturn(latest?.overall_return ?? null)}</p>
+                </div>
+              </div>
+            </div>
+            <div className="bg-card rounded-lg border border-border p-6">
+              <div className="flex items-center">
+                <Percent className="w-8 h-8 text-profit-green-600 dark:text-profit-green-400" />
+                <div className="ml-4">
+                  <p className="text-sm font-medium text-muted-foreground">Latest Average Return</p>
+                  <p className="text-2xl font-bold text-foreground">{formatReturn(latest?.average_return ?? null)}</p>
+                </div>
+              </div>
+            </div>
+            <div className="bg-card rounded-lg border border-border p-6">
+              <div className="flex items-center">
+                <Clock className="w-8 h-8 text-finance-blue-600 dark:text-finance-blue-400" />
+                <div className="ml-4">
+                  <p className="text-sm font-medium text-muted-foreground">Latest Average Annualized</p>
+                  <p className="text-2xl font-bold text-foreground">{formatReturn(latest?.average_annualized_return ?? null)}</p>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          {/* Portfolio return curve */}
+          <div className="bg-card rounded-lg border border-border p-6 mb-8">
+            <h2 className="text-lg font-semibold text-foreground mb-4">Returns Over Time</h2>
+            {series.length === 0 ? (
+              <div className="text-center py-12 text-muted-foreground">
+                No snapshots with an end date yet
+              </div>
+            ) : (
+              <ThemedChart options={portfolioOptions} height={360} />
+            )}
+          </div>
+
+          {/* Per-ticker timeline */}
+          <div className="bg-card rounded-lg border border-border p-6">
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-4">
+              <h2 className="text-lg font-semibold text-foreground">Ticker Return Timeline</h2>
+              <div className="md:w-64">
+                <label htmlFor="ticker" className="sr-only">Ticker</label>
+                <select
+                  id="ticker"
+                  value={selectedTicker}
+                  onChange={(e) => setSelectedTicker(e.target.value)}
+                  className={selectClassName}
+                >
+                  {tickers.map(ticker => (
+                    <option key={ticker} value={ticker}>{ticker}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            {tickerTimeline.length === 0 ? (
+              <div className="text-center py-12 text-muted-foreground">
+                No snapshot history for this ticker
+              </div>
+            ) : (
+              <ThemedChart options={tickerOptions} />
+            )}
+          </div>
+        </div>
+      </Layout>
+    </ProtectedRoute>
+  )
+}
@@ -1,4 +1,5 @@
-import { useEffect, useState, useMemo } from 'react'
+import { useEffect, useState, useMemo, useCallback } from 'react'
+import Link from 'next/link'
 import Layout from '@/components/Layout'
 import ProtectedRoute from '@/components/ProtectedRoute'
 import { 
@@ -7,10 +8,20 @@ import {
   getFilteredRowModel,
   getSortedRowModel,
   flexRender,
-  createColumnHelper
+  createColumnHelper,
+  type VisibilityState
 } from '@tanstack/react-table'
-import { ChevronDown, ChevronUp, Filter, TrendingUp, TrendingDown, Edit, Plus, Trash2, RefreshCw } from 'lucide-react'
+import { ChevronDown, ChevronUp, Filter, TrendingUp, TrendingDown, Edit, Plus, Trash2, RefreshCw, Upload, DollarSign, ExternalLink, Split } from 'lucide-react'
 import { supabase } from '@/utils/supabase'
+import { useAuth } from '@/contexts/AuthContext'
+import { syncCompanyNames } from '@/lib/api/client'
+import { effectivePrice, formatReturn, holdingDays, positionReturn, toNumber } from '@/lib/returns'
+import type { LedgerDividend } from '@/lib/dividends'
+import { holdingReturnFields, type LotTransaction } from '@/lib/positions/lots'
+import { CORPORATE_ACTION_COLUMNS, windowAdjustment, type CorporateAction } from '@/lib/corporateActions'
+import { POSITION_STATUSES, positionStatusClassName, type PositionStatus } from '@/lib/positions/status'
+import { tickerAsOf, tickerHistory, type TickerAlias } from '@/lib/positions/tickers'
+import { isValidUrl } from '@/lib/url'
 import {
   Table,
   TableBody,
@@ -20,6 +31,9 @@ import {
   TableRow,
 } from '@/components/ui/table'
 import { Button } from '@/components/ui/button'
+import ColumnsMenu from '@/components/table/ColumnsMenu'
+import ExportMenu from '@/components/table/ExportMenu'
+import PositionDividendsDrawer from '@/components/dividends/PositionDividendsDrawer'
 import { Input } from '@/components/ui/input'
 import {
   Dialog,
@@ -39,7 +53,9 @@ interface Position {
   end_price: number | null
   start_price_override: number | null
   end_price_override: number | null
-  status: 'Open' | 'Closed'
+  capital_allocated: number | null
+  blog_post_url: string | null
+  status: PositionStatus
   created_at: string
   updated_at: string
 }
@@ -47,13 +63,20 @@ interface Position {
 const columnHelper = createColumnHelper<Position>()
 
 export default function Positions() {
+  const { isAdmin } = useAuth()
   const [positions, setPositions] = useState<Position[]>([])
+  const [dividends, setDividends] = useState<Pick<LedgerDividend, 'position_id' | 'payment_date' | 'amount'>[]>([])
+  const [transactions, setTransactions] = useState<LotTransaction[]>([])
+  const [corporateActions, setCorporateActions] = useState<CorporateAction[]>([])
+  const [aliases, setAliases] = useState<TickerAlias[]>([])
   const [loading, setLoading] = useState(true)
-  const [statusFilter, setStatusFilter] = useState<'all' | 'open' | 'closed'>('all')
+  const [statusFilter, setStatusFilter] = useState<'all' | 'open' | 'closed' | 'delisted'>('all')
+  const [columnVisibility, setColumnVisibility] = useState<VisibilityState>({})
   const [isModalOpen, setIsModalOpen] = useState(false)
   const [editingPosition, setEditingPosition] = useState<Position | null>(null)
   const [isAddMode, setIsAddMode] = useState(false)
   const [isSyncing, setIsSyncing] = useState(false)
+  const [dividendsPosition, setDividendsPosition] = useState<Position | null>(null)
   const [editForm, setEditForm] = useState({
     ticker: '',
     company_name: '',
@@ -61,9 +84,26 @@ export default function Positions() {
     end_date: '',
     start_price_override: '',
     end_price_override: '',
-    status: 'Open' as 'Open' | 'Closed'
+    capital_allocated: '',
+    blog_post_url: '',
+    status: 'Open' as PositionStatus,
+    final_price: '',
+    renamed_on: '',
   })
 
+  // Dividends received per position, for returns that include them
+  const loadDividends = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('dividends')
+      .select('position_id, payment_date, amount')
+
+    if (error) {
+      console.error('Error fetching dividends:', error)
+      return
+    }
+    setDividends(data || [])
+  }, [])
+
   // Fetch positions from Supabase
   useEffect(() => {
     const fetchPositions = async () => {
@@ -79,6 +119,43 @@ export default function Positions() {
         }
 
         setPositions(data || [])
+        await loadDividends()
+
+        // Positions with trades recorded get cost-basis returns
+        const { data: transactionsData, error: transactionsError } = await supabase
+          .from('position_transactions')
+          .select('position_id, type, trade_date, quantity, price')
+
+        if (transactionsError) {
+          console.error('Error fetching trades:', transactionsError)
+          return
+        }
+
+        setTransactions(transactionsData || [])
+
+        // Splits, spin-offs and delistings adjust prices inside a holding
+        const { data: actionsData, error: actionsError } = await supabase
+          .from('corporate_actions')
+          .select(CORPORATE_ACTION_COLUMNS)
+
+        if (actionsError) {
+          console.error('Error fetching corporate actions:', actionsError)
+          return
+        }
+
+        setCorporateActions(actionsData || [])
+
+        // Earlier tickers, for renamed positions
+        const { data: aliasesData, error: aliasesError } = await supabase
+          .from('position_ticker_aliases')
+          .select('id, position_id, ticker, renamed_on')
+
+        if (aliasesError) {
+          console.error('Error fetching ticker aliases:', aliasesError)
+          return
+        }
+
+        setAliases(aliasesData || [])
       } catch (error) {
         console.error('Error fetching positions:', error)
       } finally {
@@ -87,23 +164,20 @@ export default function Positions() {
     }
 
     fetchPositions()
-  }, [])
+  }, [loadDividends])
+
+  // Notes for the corporate actions inside each holding, by position id
+  const adjustmentNotes = useMemo(() => Object.fromEntries(positions.map(position => [
+    position.id,
+    windowAdjustment(corporateActions, tickerAsOf(position, aliases, position.start_date), position.start_date,
+      position.end_date ?? new Date().toISOString().slice(0, 10)).adjustment_note,
+  ])), [positions, corporateActions, aliases])
 
   const filteredPositions = useMemo(() => {
     if (statusFilter === 'all') return positions
-    return positions.filter(position => 
-      statusFilter === 'open' ? position.status === 'Open' : position.status === 'Closed'
-    )
+    return positions.filter(position => position.status.toLowerCase() === statusFilter)
   }, [positions, statusFilter])
 
-  const calculateReturn = (startPrice: number | null, endPrice?: number | null, overrideStart?: number | null, overrideEnd?: number | null) => {
-    const actualStart = overrideStart || startPrice
-    const actualEnd = overrideEnd || endPrice
-    
-    if (!actualStart || !actualEnd) return null
-    return ((actualEnd - actualStart) / actualStart * 100)
-  }
-
   const handleEditPosition = (position: Position) => {
     setEditingPosition(position)
     setIsAddMode(false)
@@ -114,7 +188,11 @@ export default function Positions() {
       end_date: position.end_date || '',
       start_price_override: position.start_price_override?.toString() || '',
       end_price_override: position.end_price_override?.toString() || '',
-      status: position.status
+      capital_allocated: position.capital_allocated?.toString() || '',
+      blog_post_url: position.blog_post_url || '',
+      status: position.status,
+      final_price: position.status === 'Delisted' ? position.end_price?.toString() || '' : '',
+      renamed_on: new Date().toISOString().slice(0, 10),
     })
     setIsModalOpen(true)
   }
@@ -126,11 +204,12 @@ export default function Positions() {
     }
 
     try {
-      // First, delete related snapshot_positions
+      // First, delete the snapshot rows built from this position. Rows are linked by id,
+      // so another position that reused the ticker keeps its history.
       const { error: snapshotPositionsError } = await supabase
         .from('snapshot_positions')
         .delete()
-        .eq('ticker', position.ticker)
+        .eq('position_id', position.id)
 
       if (snapshotPositionsError) {
         console.error('Error deleting snapshot positions:', snapshotPositionsError)
@@ -162,21 +241,7 @@ export default function Positions() {
     setIsSyncing(true)
     
     try {
-      const response = await fetch('http://localhost:4021/snapshots/populate-all-company-names', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          force_update: false
-        }),
-      })
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`)
-      }
-
-      const result = await response.json()
+      const result = await syncCompanyNames({ force_update: false })
       console.log('Sync result:', result)
 
       // Refresh positions data after sync
@@ -194,7 +259,7 @@ export default function Positions() {
       alert('Company names synced successfully!')
     } catch (error) {
       console.error('Error syncing company names:', error)
-      alert('Error syncing company names. Please check if the FastAPI server is running on port 4021.')
+      alert(`Error syncing company names: ${error.message}`)
     } finally {
       setIsSyncing(false)
     }
@@ -210,12 +275,36 @@ export default function Positions() {
       end_date: '',
       start_price_override: '',
       end_price_override: '',
-      status: 'Open'
+      capital_allocated: '',
+      blog_post_url: '',
+      status: 'Open',
+      final_price: '',
+      renamed_on: '',
     })
     setIsModalOpen(true)
   }
 
   const handleSavePosition = async () => {
+    const blogPostUrl = editForm.blog_post_url.trim()
+    if (blogPostUrl && !isValidUrl(blogPostUrl)) {
+      alert('Blog post URL must be a full http(s) link, e.g. https://example.com/post')
+      return
+    }
+    if (editForm.status === 'Delisted') {
+      const finalPrice = toNumber(editForm.final_price)
+      if (!editForm.end_date || finalPrice === null || finalPrice < 0) {
+        alert('A delisted position needs an end date and a final price')
+        return
+      }
+    }
+    const renamedFrom = !isAddMode && editingPosition && editForm.ticker !== editingPosition.ticker
+      ? editingPosition.ticker
+      : null
+    if (renamedFrom && !editForm.renamed_on) {
+      alert(`Enter the date ${renamedFrom} became ${editForm.ticker}`)
+      return
+    }
+
     try {
       const positionData = {
         ticker: editForm.ticker,
@@ -224,7 +313,11 @@ export default function Positions() {
         end_date: editForm.end_date || null,
         start_price_override: editForm.start_price_override ? parseFloat(editForm.start_price_override) : null,
         end_price_override: editForm.end_price_override ? parseFloat(editForm.end_price_override) : null,
+        capital_allocated: editForm.capital_allocated ? parseFloat(editForm.capital_allocated) : null,
+        blog_post_url: blogPostUrl || null,
         status: editForm.status,
+        // Delisted positions can't be priced by the provider; the final price is the exit
+        ...(editForm.status === 'Delisted' ? { end_price: parseFloat(editForm.final_price) } : {}),
       }
 
       if (isAddMode) {
@@ -266,6 +359,22 @@ export default function Positions() {
           return
         }
 
+        // Keep the old symbol so snapshots and prices before the rename still resolve
+        if (renamedFrom) {
+          const { data: alias, error: aliasError } = await supabase
+            .from('position_ticker_aliases')
+            .insert([{ position_id: editingPosition.id, ticker: renamedFrom, renamed_on: editForm.renamed_on }])
+            .select('id, position_id, ticker, renamed_on')
+            .single()
+
+          if (aliasError) {
+            console.error('Error recording ticker alias:', aliasError)
+            alert(`Position saved, but the old ticker ${renamedFrom} could not be recorded.`)
+          } else {
+            setAliases(prev => [...prev, alias])
+          }
+        }
+
         // Update the local state
         setPositions(prev => prev.map(pos => 
           pos.id === editingPosition.id 
@@ -286,8 +395,21 @@ export default function Positions() {
     columnHelper.accessor('ticker', {
       header: 'Ticker',
       cell: info => (
-        <div className="font-medium text-foreground">
-          {info.getValue()}
+        <div className="flex items-center gap-1">
+          <Link href={`/positions/${info.row.original.id}`} className="font-medium text-foreground hover:underline">
+            {info.getValue()}
+          </Link>
+          {aliases.some(a => a.position_id === info.row.original.id) && (
+            <span className="text-xs text-muted-foreground">
+              (was {tickerHistory(info.row.original, aliases).slice(0, -1).map(period => period.ticker).join(', ')})
+            </span>
+          )}
+          {adjustmentNotes[info.row.original.id] && (
+            <span title={`Adjusted for: ${adjustmentNotes[info.row.original.id]}`} className="text-finance-blue-600 dark:text-finance-blue-400">
+              <Split className="h-3.5 w-3.5" />
+              <span className="sr-only">Adjusted for: {adjustmentNotes[info.row.original.id]}</span>
+            </span>
+          )}
         </div>
       )
     }),
@@ -307,50 +429,71 @@ export default function Positions() {
         </div>
       )
     }),
-    columnHelper.accessor('start_price', {
+    columnHelper.accessor(row => effectivePrice(row.start_price, row.start_price_override) ?? undefined, {
+      id: 'start_price',
       header: 'Start Price',
+      sortUndefined: 'last',
       cell: info => {
-        const override = info.row.original.start_price_override
-        const originalPrice = info.getValue()
-        const price = override || originalPrice
+        const override = toNumber(info.row.original.start_price_override)
+        const price = info.getValue() ?? null
         
-        if (!price && !override) {
+        if (price === null) {
           return <div className="text-sm text-muted-foreground">-</div>
         }
         
         return (
           <div className="text-sm text-foreground">
-            ${price?.toFixed(2)}
-            {override && <span className="text-xs text-muted-foreground ml-1">(override)</span>}
+            ${price.toFixed(2)}
+            {override !== null && <span className="text-xs text-muted-foreground ml-1">(override)</span>}
           </div>
         )
       }
     }),
-    columnHelper.accessor('end_price', {
+    columnHelper.accessor(row => effectivePrice(row.end_price, row.end_price_override) ?? undefined, {
+      id: 'end_price',
       header: 'End Price',
+      sortUndefined: 'last',
       cell: info => {
-        const endPrice = info.getValue()
-        const override = info.row.original.end_price_override
-        const price = override || endPrice
+        const override = toNumber(info.row.original.end_price_override)
+        const price = info.getValue() ?? null
         
-        if (!price) {
+        if (price === null) {
           return <div className="text-sm text-muted-foreground">-</div>
         }
         
         return (
           <div className="text-sm text-foreground">
             ${price.toFixed(2)}
-            {override && <span className="text-xs text-muted-foreground ml-1">(override)</span>}
+            {override !== null && <span className="text-xs text-muted-foreground ml-1">(override)</span>}
           </div>
         )
       }
     }),
-    columnHelper.display({
+    columnHelper.accessor(row => holdingDays(row.start_date, row.end_date) ?? undefined, {
+      id: 'holding_days',
+      header: 'Holding Days',
+      sortUndefined: 'last',
+      cell: info => (
+        <div className="text-sm text-foreground">
+          {info.getValue() ?? '-'}
+        </div>
+      )
+    }),
+    columnHelper.accessor(row => positionReturn({
+      ...row,
+      ...holdingReturnFields(
+        row,
+        transactions.filter(t => t.position_id === row.id),
+        dividends.filter(d => d.position_id === row.id),
+        corporateActions,
+        aliases
+      ),
+    }) ?? undefined, {
       id: 'return',
       header: 'Return',
+      sortUndefined: 'last',
       cell: info => {
-        const { start_price, end_price, start_price_override, end_price_override } = info.row.original
-        const returnPct = calculateReturn(start_price, end_price, start_price_override, end_price_override)
+        const returnPct = info.getValue() ?? null
         
         if (returnPct === null) {
           return <div className="text-sm text-muted-foreground">-</div>
@@ -360,21 +503,43 @@ export default function Positions() {
         return (
           <div className={`text-sm font-medium flex items-center ${isPositive ? 'text-profit-green-600 dark:text-profit-green-400' : 'text-loss-red-600 dark:text-loss-red-400'}`}>
             {isPositive ? <TrendingUp className="w-4 h-4 mr-1" /> : <TrendingDown className="w-4 h-4 mr-1" />}
-            {isPositive ? '+' : ''}{returnPct.toFixed(2)}%
+            {formatReturn(returnPct)}
           </div>
         )
       }
     }),
+    columnHelper.accessor('blog_post_url', {
+      header: 'Write-up',
+      enableSorting: false,
+      cell: info => {
+        const url = info.getValue()
+        if (!url) {
+          return <div className="text-sm text-muted-foreground">-</div>
+        }
+        // Older rows predate the URL check, so only link what would pass it
+        if (!isValidUrl(url)) {
+          return <div className="text-sm text-muted-foreground break-all">{url}</div>
+        }
+        return (
+          <a
+            href={url}
+            target="_blank"
+            rel="noopener noreferrer"
+            title={url}
+            className="inline-flex items-center gap-1 text-sm text-finance-blue-600 dark:text-finance-blue-400 hover:underline"
+          >
+            <ExternalLink className="h-4 w-4" />
+            Read
+          </a>
+        )
+      }
+    }),
     columnHelper.accessor('status', {
       header: 'Status',
       cell: info => {
         const status = info.getValue()
         return (
-          <span className={`inline-flex px-2 py-1 text-xs leading-5 font-semibold rounded-full ${
-            status === 'Open' 
-              ? 'bg-profit-green-100 text-profit-green-800 dark:bg-profit-green-900 dark:text-profit-green-200' 
-              : 'bg-muted text-muted-foreground'
-          }`}>
+          <span className={`inline-flex px-2 py-1 text-xs leading-5 font-semibold rounded-full ${positionStatusClassName(status)}`}>
             {status}
           </span>
         )
@@ -383,8 +548,18 @@ export default function Positions() {
     columnHelper.display({
       id: 'actions',
       header: 'Actions',
+      enableHiding: false,
       cell: info => (
         <div className="flex space-x-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8 w-8 p-0 text-foreground hover:text-accent-foreground hover:bg-accent"
+            onClick={() => setDividendsPosition(info.row.original)}
+          >
+            <span className="sr-only">Manage dividends</span>
+            <DollarSign className="h-4 w-4" />
+          </Button>
           <Button 
             variant="ghost" 
             size="sm" 
@@ -399,6 +574,8 @@ export default function Positions() {
             size="sm" 
             className="h-8 w-8 p-0 text-destructive hover:text-destructive-foreground hover:bg-destructive"
             onClick={() => handleDeletePosition(info.row.original)}
+            disabled={!isAdmin}
+            title={isAdmin ? undefined : 'Only an admin can delete positions'}
           >
             <span className="sr-only">Delete position</span>
             <Trash2 className="h-4 w-4" />
@@ -406,7 +583,7 @@ export default function Positions() {
         </div>
       )
     }),
-  ], [])
+  ], [dividends, transactions, corporateActions, aliases, adjustmentNotes, isAdmin])
 
   const table = useReactTable({
     data: filteredPositions,
@@ -414,6 +591,10 @@ export default function Positions() {
     getCoreRowModel: getCoreRowModel(),
     getFilteredRowModel: getFilteredRowModel(),
     getSortedRowModel: getSortedRowModel(),
+    state: {
+      columnVisibility,
+    },
+    onColumnVisibilityChange: setColumnVisibility,
     initialState: {
       sorting: [
         {
@@ -461,6 +642,12 @@ export default function Positions() {
                   <RefreshCw className={`h-4 w-4 ${isSyncing ? 'animate-spin' : ''}`} />
                   {isSyncing ? 'Syncing...' : 'Sync Names'}
                 </Button>
+                <Link href="/positions/import">
+                  <Button variant="outline" className="flex items-center gap-2">
+                    <Upload className="h-4 w-4" />
+                    Import CSV
+                  </Button>
+                </Link>
                 <Button onClick={handleAddPosition} className="flex items-center gap-2">
                   <Plus className="h-4 w-4" />
                   Add Position
@@ -470,14 +657,14 @@ export default function Positions() {
           </div>
 
           {/* Filters */}
-          <div className="mb-6">
+          <div className="mb-6 flex items-center justify-between">
             <div className="flex items-center space-x-4">
               <div className="flex items-center space-x-2">
                 <Filter className="w-4 h-4 text-muted-foreground" />
                 <span className="text-sm font-medium text-muted-foreground">Filter by status:</span>
               </div>
               <div className="flex space-x-2">
-                {(['all', 'open', 'closed'] as const).map((filter) => (
+                {(['all', 'open', 'closed', 'delisted'] as const).map((filter) => (
                   <Button
                     key={filter}
                     variant={statusFilter === filter ? "default" : "outline"}
@@ -489,6 +676,10 @@ export default function Positions() {
                 ))}
               </div>
             </div>
+            <div className="flex items-center gap-2">
+              <ColumnsMenu table={table} />
+              <ExportMenu table={table} fileName={`positions-${statusFilter}`} sheetName="Positions" />
+            </div>
           </div>
 
           {/* Table */}
@@ -569,6 +760,19 @@ export default function Positions() {
                     onChange={(e) => setEditForm({...editForm, ticker: e.target.value})}
                     placeholder="AAPL"
                   />
+                  {!isAddMode && editingPosition && editForm.ticker !== editingPosition.ticker && (
+                    <div className="mt-2">
+                      <label htmlFor="renamed_on" className="block text-xs font-medium text-muted-foreground mb-1">
+                        Renamed from {editingPosition.ticker} on
+                      </label>
+                      <Input
+                        id="renamed_on"
+                        type="date"
+                        value={editForm.renamed_on}
+                        onChange={(e) => setEditForm({...editForm, renamed_on: e.target.value})}
+                      />
+                    </div>
+                  )}
                 </div>
                 <div>
                   <label htmlFor="company" className="block text-sm font-medium text-foreground mb-1">
@@ -637,6 +841,34 @@ export default function Positions() {
                 </div>
               </div>
 
+              <div>
+                <label htmlFor="capital_allocated" className="block text-sm font-medium text-foreground mb-1">
+                  Capital Allocated
+                </label>
+                <Input
+                  id="capital_allocated"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={editForm.capital_allocated}
+                  onChange={(e) => setEditForm({...editForm, capital_allocated: e.target.value})}
+                  placeholder="10000.00"
+                />
+              </div>
+
+              <div>
+                <label htmlFor="blog_post_url" className="block text-sm font-medium text-foreground mb-1">
+                  Blog Post URL
+                </label>
+                <Input
+                  id="blog_post_url"
+                  type="url"
+                  value={editForm.blog_post_url}
+                  onChange={(e) => setEditForm({...editForm, blog_post_url: e.target.value})}
+                  placeholder="https://example.com/why-we-bought-aapl"
+                />
+              </div>
+
               <div>
                 <label htmlFor="status" className="block text-sm font-medium text-foreground mb-1">
                   Status
@@ -644,13 +876,34 @@ export default function Positions() {
                 <select
                   id="status"
                   value={editForm.status}
-                  onChange={(e) => setEditForm({...editForm, status: e.target.value as 'Open' | 'Closed'})}
+                  onChange={(e) => setEditForm({...editForm, status: e.target.value as PositionStatus})}
                   className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
                 >
-                  <option value="Open">Open</option>
-                  <option value="Closed">Closed</option>
+                  {POSITION_STATUSES.map(status => (
+                    <option key={status} value={status}>{status}</option>
+                  ))}
                 </select>
               </div>
+
+              {editForm.status === 'Delisted' && (
+                <div>
+                  <label htmlFor="final_price" className="block text-sm font-medium text-foreground mb-1">
+                    Final Price
+                  </label>
+                  <Input
+                    id="final_price"
+                    type="number"
+                    step="0.0001"
+                    min="0"
+                    value={editForm.final_price}
+                    onChange={(e) => setEditForm({...editForm, final_price: e.target.value})}
+                    placeholder="0.50"
+                  />
+                  <p className="mt-1 text-xs text-muted-foreground">
+                    What each share was worth when trading stopped. Used as the end price; the end date is the last trading day.
+                  </p>
+                </div>
+              )}
             </div>
 
             <DialogFooter>
@@ -663,6 +916,13 @@ export default function Positions() {
             </DialogFooter>
           </DialogContent>
         </Dialog>
+
+        <PositionDividendsDrawer
+          position={dividendsPosition}
+          open={dividendsPosition !== null}
+          onOpenChange={(open) => !open && setDividendsPosition(null)}
+          onChange={() => loadDividends()}
+        />
       </Layout>
     </ProtectedRoute>
   )
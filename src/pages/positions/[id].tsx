@@ -0,0 +1,550 @@
+import { useEffect, useState, useMemo, useCallback } from 'react'
+import { useRouter } from 'next/router'
+import Link from 'next/link'
+import dynamic from 'next/dynamic'
+import Layout from '@/components/Layout'
+import ProtectedRoute from '@/components/ProtectedRoute'
+import PositionDividendsDrawer from '@/components/dividends/PositionDividendsDrawer'
+import PositionLotsCard from '@/components/positions/PositionLotsCard'
+import CorporateActionsCard from '@/components/positions/CorporateActionsCard'
+import AuditHistory from '@/components/audit/AuditHistory'
+import { useAuth } from '@/contexts/AuthContext'
+import {
+  ArrowLeft,
+  Calendar,
+  Clock,
+  DollarSign,
+  ExternalLink,
+  Percent,
+  TrendingUp,
+  TrendingDown,
+  Wallet,
+} from 'lucide-react'
+import type { AgCartesianChartOptions } from 'ag-charts-community'
+import { supabase } from '@/utils/supabase'
+import { effectiveDividends, effectivePrice, formatReturn, holdingDays, positionMetrics, positionReturn, toNumber } from '@/lib/returns'
+import { sumAmounts, type LedgerDividend } from '@/lib/dividends'
+import { LOT_COLUMNS, holdingReturnFields, type LotTransaction } from '@/lib/positions/lots'
+import { CORPORATE_ACTION_COLUMNS, windowAdjustment, type CorporateAction } from '@/lib/corporateActions'
+import { buildTickerTimeline, type PerformanceSnapshot } from '@/lib/snapshots/performance'
+import { SNAPSHOT_STATUS_LABELS, toSnapshotStatus } from '@/lib/snapshots/status'
+import { positionStatusClassName, type PositionStatus } from '@/lib/positions/status'
+import { tickerAsOf, tickerHistory, type TickerAlias } from '@/lib/positions/tickers'
+import { isValidUrl } from '@/lib/url'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Button } from '@/components/ui/button'
+
+const ThemedChart = dynamic(() => import('@/components/charts/ThemedChart'), { ssr: false })
+
+interface Position {
+  id: string
+  ticker: string
+  company_name: string | null
+  start_date: string
+  start_price: number | null
+  end_date: string | null
+  end_price: number | null
+  start_price_override: number | null
+  end_price_override: number | null
+  capital_allocated: number | null
+  blog_post_url: string | null
+  status: PositionStatus
+}
+
+interface HistorySnapshot extends PerformanceSnapshot {
+  status: string | null
+}
+
+interface HistoryRow {
+  id: string
+  snapshot_id: string
+  ticker: string
+  start_date: string
+  end_date: string
+  start_price: number | null
+  end_price: number | null
+  dividends_paid: number | null
+  start_price_override: number | null
+  end_price_override: number | null
+  dividends_paid_override: number | null
+  excluded: boolean
+  opening_shares: number | null
+  price_adjustment: number | null
+  adjustment_note: string | null
+}
+
+const formatMoney = (value: number | null) => value === null ? '-' : `$${value.toFixed(2)}`
+
+const formatDate = (value: string | null) => value ? new Date(`${value}T00:00:00`).toLocaleDateString() : '-'
+
+const returnClassName = (value: number | null) => {
+  if (value === null) return 'text-muted-foreground'
+  return value >= 0 ? 'text-profit-green-600 dark:text-profit-green-400' : 'text-loss-red-600 dark:text-loss-red-400'
+}
+
+export default function PositionDetail() {
+  const router = useRouter()
+  const { isAdmin } = useAuth()
+  const { id } = router.query
+
+  const [position, setPosition] = useState<Position | null>(null)
+  const [dividends, setDividends] = useState<LedgerDividend[]>([])
+  const [transactions, setTransactions] = useState<LotTransaction[]>([])
+  const [corporateActions, setCorporateActions] = useState<CorporateAction[]>([])
+  const [aliases, setAliases] = useState<TickerAlias[]>([])
+  const [snapshots, setSnapshots] = useState<HistorySnapshot[]>([])
+  const [history, setHistory] = useState<HistoryRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [isDrawerOpen, setIsDrawerOpen] = useState(false)
+  const [historyTab, setHistoryTab] = useState<'snapshots' | 'changes'>('snapshots')
+
+  const loadDividends = useCallback(async (positionId: string) => {
+    const { data, error } = await supabase
+      .from('dividends')
+      .select('id, position_id, payment_date, amount, ticker, created_at')
+      .eq('position_id', positionId)
+      .order('payment_date', { ascending: false })
+
+    if (error) {
+      console.error('Error fetching dividends:', error)
+      return
+    }
+    setDividends(data || [])
+  }, [])
+
+  useEffect(() => {
+    if (!id || typeof id !== 'string') return
+
+    const fetchData = async () => {
+      setLoading(true)
+
+      try {
+        const { data: positionData, error: positionError } = await supabase
+          .from('positions')
+          .select('*')
+          .eq('id', id)
+          .single()
+
+        if (positionError) {
+          console.error('Error fetching position:', positionError)
+          return
+        }
+
+        setPosition(positionData)
+        await loadDividends(positionData.id)
+
+        const { data: transactionsData, error: transactionsError } = await supabase
+          .from('position_transactions')
+          .select('id, position_id, type, trade_date, quantity, price, notes')
+          .eq('position_id', positionData.id)
+
+        if (transactionsError) {
+          console.error('Error fetching trades:', transactionsError)
+          return
+        }
+        setTransactions(transactionsData || [])
+
+        const { data: actionsData, error: actionsError } = await supabase
+          .from('corporate_actions')
+          .select(CORPORATE_ACTION_COLUMNS)
+
+        if (actionsError) {
+          console.error('Error fetching corporate actions:', actionsError)
+          return
+        }
+        setCorporateActions(actionsData || [])
+
+        const { data: aliasesData, error: aliasesError } = await supabase
+          .from('position_ticker_aliases')
+          .select('id, position_id, ticker, renamed_on')
+          .eq('position_id', positionData.id)
+
+        if (aliasesError) {
+          console.error('Error fetching ticker aliases:', aliasesError)
+          return
+        }
+        setAliases(aliasesData || [])
+
+        // Snapshot rows are linked by position id and keep the ticker they were built under
+        const { data: rowsData, error: rowsError } = await supabase
+          .from('snapshot_positions')
+          .select(`id, snapshot_id, ticker, start_date, end_date, start_price, end_price, dividends_paid, start_price_override, end_price_override, dividends_paid_override, excluded, price_adjustment, adjustment_note, ${LOT_COLUMNS}`)
+          .eq('position_id', positionData.id)
+
+        if (rowsError) {
+          console.error('Error fetching snapshot history:', rowsError)
+          return
+        }
+
+        const rows = rowsData || []
+        setHistory(rows)
+
+        if (rows.length > 0) {
+          const { data: snapshotsData, error: snapshotsError } = await supabase
+            .from('snapshots')
+            .select('id, name, end_date, overall_portfolio_return_pct, status')
+            .in('id', [...new Set(rows.map(row => row.snapshot_id))])
+
+          if (snapshotsError) {
+            console.error('Error fetching snapshots:', snapshotsError)
+            return
+          }
+          setSnapshots(snapshotsData || [])
+        }
+      } catch (error) {
+        console.error('Error fetching position:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchData()
+  }, [id, loadDividends])
+
+  const snapshotsById = useMemo(() => new Map(snapshots.map(s => [s.id, s])), [snapshots])
+
+  // Latest snapshot first
+  const sortedHistory = useMemo(() => (
+    [...history].sort((a, b) => (snapshotsById.get(b.snapshot_id)?.end_date ?? b.end_date)
+      .localeCompare(snapshotsById.get(a.snapshot_id)?.end_date ?? a.end_date))
+  ), [history, snapshotsById])
+
+  const timeline = useMemo(() => (
+    // Rows from before a rename carry the old ticker; chart them as one series
+    position
+      ? buildTickerTimeline(position.ticker, snapshots, history
+        .filter(row => !row.excluded)
+        .map(row => ({ ...row, ticker: position.ticker })))
+      : []
+  ), [position, snapshots, history])
+
+  const timelineOptions = useMemo<AgCartesianChartOptions>(() => ({
+    data: timeline,
+    series: [
+      {
+        type: 'line',
+        xKey: 'date',
+        yKey: 'return_pct',
+        yName: `${position?.ticker ?? ''} Return`,
+      },
+    ],
+    axes: {
+      x: { type: 'time', position: 'bottom' },
+      y: { type: 'number', position: 'left', label: { formatter: ({ value }) => `${value}%` } },
+    },
+  }), [timeline, position])
+
+  if (loading) {
+    return (
+      <ProtectedRoute allowDemo={true}>
+        <Layout>
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-finance-blue-500"></div>
+            </div>
+          </div>
+        </Layout>
+      </ProtectedRoute>
+    )
+  }
+
+  if (!position) {
+    return (
+      <ProtectedRoute allowDemo={true}>
+        <Layout>
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+            <div className="text-center py-12">
+              <h1 className="text-2xl font-bold text-foreground mb-4">Position Not Found</h1>
+              <p className="text-muted-foreground mb-6">The position you&apos;re looking for doesn&apos;t exist or has been deleted.</p>
+              <Link href="/positions">
+                <Button className="flex items-center gap-2">
+                  <ArrowLeft className="h-4 w-4" />
+                  Back to Positions
+                </Button>
+              </Link>
+            </div>
+          </div>
+        </Layout>
+      </ProtectedRoute>
+    )
+  }
+
+  const startPrice = effectivePrice(position.start_price, position.start_price_override)
+  const endPrice = effectivePrice(position.end_price, position.end_price_override)
+  const dividendTotal = sumAmounts(dividends)
+  const returnPct = positionReturn({
+    ...position,
+    ...holdingReturnFields(position, transactions, dividends, corporateActions, aliases),
+  })
+  const startTicker = tickerAsOf(position, aliases, position.start_date)
+  const tickerPeriods = tickerHistory(position, aliases)
+  const adjustmentNote = windowAdjustment(corporateActions, startTicker, position.start_date,
+    position.end_date ?? new Date().toISOString().slice(0, 10)).adjustment_note
+  const days = holdingDays(position.start_date, position.end_date)
+
+  return (
+    <ProtectedRoute allowDemo={true}>
+      <Layout>
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {/* Header */}
+          <div className="mb-8">
+            <div className="flex items-center gap-2 text-sm text-muted-foreground mb-4">
+              <Link href="/positions" className="hover:text-foreground transition-colors">
+                Positions
+              </Link>
+              <span>/</span>
+              <span className="text-foreground">{position.ticker}</span>
+            </div>
+
+            <div className="flex justify-between items-start">
+              <div>
+                <h1 className="text-3xl font-bold text-foreground mb-2 flex items-center gap-3">
+                  {position.ticker}
+                  <span className={`inline-flex px-2 py-1 text-xs leading-5 font-semibold rounded-full ${positionStatusClassName(position.status)}`}>
+                    {position.status}
+                  </span>
+                </h1>
+                {position.company_name && (
+                  <p className="text-muted-foreground">{position.company_name}</p>
+                )}
+                {tickerPeriods.length > 1 && (
+                  <p className="text-sm text-muted-foreground mt-1">
+                    Traded as{' '}
+                    {tickerPeriods.slice(0, -1).map(period =>
+                      `${period.ticker} until ${formatDate(period.until)}`).join(', ')}
+                  </p>
+                )}
+                <div className="flex items-center gap-4 text-sm text-muted-foreground mt-2">
+                  <div className="flex items-center gap-1">
+                    <Calendar className="h-4 w-4" />
+                    <span>{formatDate(position.start_date)} – {position.end_date ? formatDate(position.end_date) : 'present'}</span>
+                  </div>
+                  {position.blog_post_url && isValidUrl(position.blog_post_url) && (
+                    <a
+                      href={position.blog_post_url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center gap-1 text-finance-blue-600 dark:text-finance-blue-400 hover:underline"
+                    >
+                      <ExternalLink className="h-4 w-4" />
+                      Read the write-up
+                    </a>
+                  )}
+                  {position.blog_post_url && !isValidUrl(position.blog_post_url) && (
+                    <span className="break-all">{position.blog_post_url}</span>
+                  )}
+                </div>
+              </div>
+            </div>
+          </div>
+
+          {/* Summary Cards */}
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
+            <div className="bg-card rounded-lg border border-border p-6">
+              <div className="flex items-center">
+                {returnPct !== null && returnPct < 0
+                  ? <TrendingDown className="w-8 h-8 text-loss-red-600 dark:text-loss-red-400" />
+                  : <TrendingUp className="w-8 h-8 text-profit-green-600 dark:text-profit-green-400" />}
+                <div className="ml-4">
+                  <p className="text-sm font-medium text-muted-foreground">Return incl. Dividends</p>
+                  <p className={`text-2xl font-bold ${returnClassName(returnPct)}`}>{formatReturn(returnPct)}</p>
+                  {transactions.length > 0 && (
+                    <p className="text-xs text-muted-foreground">Cost basis across {transactions.length} trade{transactions.length === 1 ? '' : 's'}</p>
+                  )}
+                </div>
+              </div>
+            </div>
+            <div className="bg-card rounded-lg border border-border p-6">
+              <div className="flex items-center">
+                <Percent className="w-8 h-8 text-finance-blue-600 dark:text-finance-blue-400" />
+                <div className="ml-4">
+                  <p className="text-sm font-medium text-muted-foreground">Start → End Price</p>
+                  <p className="text-2xl font-bold text-foreground">
+                    {formatMoney(startPrice)} → {formatMoney(endPrice)}
+                  </p>
+                  {(position.start_price_override !== null || position.end_price_override !== null) && (
+                    <p className="text-xs text-muted-foreground">Includes a price override</p>
+                  )}
+                  {adjustmentNote && (
+                    <p className="text-xs text-finance-blue-600 dark:text-finance-blue-400">Adjusted for: {adjustmentNote}</p>
+                  )}
+                </div>
+              </div>
+            </div>
+            <div className="bg-card rounded-lg border border-border p-6">
+              <div className="flex items-center">
+                <Clock className="w-8 h-8 text-finance-blue-600 dark:text-finance-blue-400" />
+                <div className="ml-4">
+                  <p className="text-sm font-medium text-muted-foreground">Holding Days</p>
+                  <p className="text-2xl font-bold text-foreground">{days ?? '-'}</p>
+                </div>
+              </div>
+            </div>
+            <div className="bg-card rounded-lg border border-border p-6">
+              <div className="flex items-center">
+                <Wallet className="w-8 h-8 text-finance-blue-600 dark:text-finance-blue-400" />
+                <div className="ml-4">
+                  <p className="text-sm font-medium text-muted-foreground">Capital Allocated</p>
+                  <p className="text-2xl font-bold text-foreground">{formatMoney(toNumber(position.capital_allocated))}</p>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mb-8">
+            {/* Returns over time */}
+            <div className="bg-card rounded-lg border border-border p-6 lg:col-span-2">
+              <h2 className="text-xl font-semibold text-foreground mb-4">Return Across Snapshots</h2>
+              {timeline.length === 0 ? (
+                <div className="text-center py-12 text-muted-foreground">
+                  This position hasn&apos;t appeared in a dated snapshot yet
+                </div>
+              ) : (
+                <ThemedChart options={timelineOptions} height={280} />
+              )}
+            </div>
+
+            {/* Dividends */}
+            <div className="bg-card rounded-lg border border-border p-6">
+              <div className="flex justify-between items-center mb-4">
+                <h2 className="text-xl font-semibold text-foreground">Dividends</h2>
+                <Button variant="outline" size="sm" onClick={() => setIsDrawerOpen(true)} className="flex items-center gap-2">
+                  <DollarSign className="h-4 w-4" />
+                  Manage
+                </Button>
+              </div>
+              <p className="text-sm text-muted-foreground mb-3">
+                {dividends.length} payment{dividends.length === 1 ? '' : 's'}, ${dividendTotal.toFixed(2)} per share
+              </p>
+              {dividends.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No dividends recorded.</p>
+              ) : (
+                <ul className="divide-y divide-border max-h-64 overflow-y-auto">
+                  {dividends.map(dividend => (
+                    <li key={dividend.id} className="flex justify-between py-2 text-sm">
+                      <span className="text-muted-foreground">{formatDate(dividend.payment_date)}</span>
+                      <span className="text-foreground">${(toNumber(dividend.amount) ?? 0).toFixed(4)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
+            <PositionLotsCard position={position} transactions={transactions} onChange={setTransactions} />
+            <CorporateActionsCard ticker={position.ticker} actions={corporateActions} onChange={setCorporateActions} />
+          </div>
+
+          {/* Snapshot and change history */}
+          <div className="bg-card rounded-lg border border-border">
+            <div className="p-6 border-b border-border flex items-center justify-between">
+              <h2 className="text-xl font-semibold text-foreground">History</h2>
+              {/* Only admins can read the audit log */}
+              {isAdmin && (
+                <div className="flex gap-2">
+                  {([['snapshots', 'Snapshots'], ['changes', 'Changes']] as const).map(([tab, label]) => (
+                    <Button
+                      key={tab}
+                      variant={historyTab === tab ? 'default' : 'outline'}
+                      size="sm"
+                      onClick={() => setHistoryTab(tab)}
+                    >
+                      {label}
+                    </Button>
+                  ))}
+                </div>
+              )}
+            </div>
+            {isAdmin && historyTab === 'changes' ? (
+              <div className="p-6">
+                <AuditHistory positionId={position.id} />
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Snapshot</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Window</TableHead>
+                    <TableHead>Start Price</TableHead>
+                    <TableHead>End Price</TableHead>
+                    <TableHead>Dividends</TableHead>
+                    <TableHead>Return %</TableHead>
+                    <TableHead>Annualized %</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sortedHistory.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={8} className="h-24 text-center text-muted-foreground">
+                        Not in any snapshot yet.
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    sortedHistory.map(row => {
+                      const snapshot = snapshotsById.get(row.snapshot_id)
+                      const metrics = positionMetrics(row)
+                      return (
+                        <TableRow key={row.id} className={row.excluded ? 'opacity-50' : undefined}>
+                          <TableCell>
+                            <Link href={`/snapshots/${row.snapshot_id}`} className="font-medium text-foreground hover:underline">
+                              {snapshot?.name || formatDate(snapshot?.end_date ?? null)}
+                            </Link>
+                            {row.ticker !== position.ticker && <span className="ml-2 text-xs text-muted-foreground">(as {row.ticker})</span>}
+                            {row.excluded && <span className="ml-2 text-xs text-muted-foreground">(excluded)</span>}
+                            {row.opening_shares !== null && <span className="ml-2 text-xs text-muted-foreground">(lots)</span>}
+                          </TableCell>
+                          <TableCell className="text-sm text-muted-foreground">
+                            {SNAPSHOT_STATUS_LABELS[toSnapshotStatus(snapshot?.status)]}
+                          </TableCell>
+                          <TableCell className="text-sm text-foreground">
+                            {formatDate(row.start_date)} – {formatDate(row.end_date)}
+                          </TableCell>
+                          <TableCell className="text-sm text-foreground">
+                            {formatMoney(effectivePrice(row.start_price, row.start_price_override))}
+                            {row.adjustment_note && (
+                              <div className="text-xs text-finance-blue-600 dark:text-finance-blue-400" title={`Start price ×${Number((toNumber(row.price_adjustment) ?? 1).toFixed(4))} for returns`}>
+                                {row.adjustment_note}
+                              </div>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-sm text-foreground">
+                            {formatMoney(effectivePrice(row.end_price, row.end_price_override))}
+                          </TableCell>
+                          <TableCell className="text-sm text-foreground">
+                            {formatMoney(effectiveDividends(row))}
+                          </TableCell>
+                          <TableCell className={`text-sm font-medium ${returnClassName(metrics.returnPct)}`}>
+                            {formatReturn(metrics.returnPct)}
+                          </TableCell>
+                          <TableCell className={`text-sm ${returnClassName(metrics.annualizedPct)}`}>
+                            {formatReturn(metrics.annualizedPct)}
+                          </TableCell>
+                        </TableRow>
+                      )
+                    })
+                  )}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        </div>
+
+        <PositionDividendsDrawer
+          position={position}
+          open={isDrawerOpen}
+          onOpenChange={setIsDrawerOpen}
+          onChange={(positionId) => loadDividends(positionId)}
+        />
+      </Layout>
+    </ProtectedRoute>
+  )
+}
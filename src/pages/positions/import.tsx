@@ -0,0 +1,399 @@
+import { useMemo, useState } from 'react'
+import Link from 'next/link'
+import Layout from '@/components/Layout'
+import ProtectedRoute from '@/components/ProtectedRoute'
+import { Upload, FileText, ArrowLeft, ArrowRight, CheckCircle2, AlertTriangle } from 'lucide-react'
+import { supabase } from '@/utils/supabase'
+import { parseCsvRecordsWithLines, type CsvRecord } from '@/lib/csv'
+import {
+  IMPORT_FIELDS,
+  guessMapping,
+  parseImportRows,
+  planImport,
+  type ColumnMapping,
+  type ImportAction,
+  type ImportPlanRow,
+} from '@/lib/positions/import'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Button } from '@/components/ui/button'
+
+type Step = 'upload' | 'map' | 'review' | 'done'
+
+interface ImportResult {
+  inserted: number
+  updated: number
+  failed: string[]
+}
+
+const STEPS: { step: Step, label: string }[] = [
+  { step: 'upload', label: 'Upload' },
+  { step: 'map', label: 'Map Columns' },
+  { step: 'review', label: 'Review' },
+  { step: 'done', label: 'Import' },
+]
+
+const actionStyles: Record<ImportAction, string> = {
+  insert: 'bg-profit-green-100 text-profit-green-800 dark:bg-profit-green-900 dark:text-profit-green-200',
+  update: 'bg-finance-blue-100 text-finance-blue-800 dark:bg-finance-blue-900 dark:text-finance-blue-200',
+  unchanged: 'bg-muted text-muted-foreground',
+  error: 'bg-destructive/10 text-destructive',
+}
+
+const formatChangeValue = (value: string | number | null) => value === null ? 'empty' : String(value)
+
+export default function ImportPositions() {
+  const [step, setStep] = useState<Step>('upload')
+  const [fileName, setFileName] = useState('')
+  const [headers, setHeaders] = useState<string[]>([])
+  const [records, setRecords] = useState<CsvRecord[]>([])
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null)
+  const [plan, setPlan] = useState<ImportPlanRow[]>([])
+  const [isPlanning, setIsPlanning] = useState(false)
+  const [isImporting, setIsImporting] = useState(false)
+  const [result, setResult] = useState<ImportResult | null>(null)
+
+  const counts = useMemo(() => (
+    plan.reduce((acc, row) => {
+      acc[row.action] += 1
+      return acc
+    }, { insert: 0, update: 0, unchanged: 0, error: 0 } as Record<ImportAction, number>)
+  ), [plan])
+
+  const missingRequired = mapping
+    ? IMPORT_FIELDS.filter(f => f.required && !mapping[f.field])
+    : []
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return
+    try {
+      const text = await file.text()
+      const rows = parseCsvRecordsWithLines(text)
+      if (rows.length === 0) {
+        alert('The file has no data rows.')
+        return
+      }
+      const trimmed = Object.keys(rows[0].values).filter(Boolean)
+      setFileName(file.name)
+      setHeaders(trimmed)
+      setRecords(rows)
+      setMapping(guessMapping(trimmed))
+      setStep('map')
+    } catch (error) {
+      console.error('Error reading CSV:', error)
+      alert('Error reading the file. Please check it is a CSV and try again.')
+    }
+  }
+
+  const handlePreview = async () => {
+    if (!mapping) return
+    setIsPlanning(true)
+    try {
+      const { data, error } = await supabase
+        .from('positions')
+        .select('id, ticker, company_name, start_date, end_date, start_price_override, end_price_override, capital_allocated, status, blog_post_url')
+
+      if (error) {
+        console.error('Error fetching positions:', error)
+        alert('Error loading existing positions. Please try again.')
+        return
+      }
+
+      setPlan(planImport(parseImportRows(records, mapping), data || []))
+      setStep('review')
+    } catch (error) {
+      console.error('Error previewing import:', error)
+      alert('Error previewing import. Please try again.')
+    } finally {
+      setIsPlanning(false)
+    }
+  }
+
+  const handleImport = async () => {
+    const inserts = plan.filter(row => row.action === 'insert')
+    const updates = plan.filter(row => row.action === 'update')
+    if (counts.error > 0 && !confirm(`${counts.error} row${counts.error === 1 ? ' has' : 's have'} errors and will be skipped. Import the rest?`)) {
+      return
+    }
+
+    setIsImporting(true)
+    const failed: string[] = []
+    let inserted = 0
+    let updated = 0
+    try {
+      const now = new Date().toISOString()
+
+      if (inserts.length > 0) {
+        const { error } = await supabase
+          .from('positions')
+          .insert(inserts.map(row => ({ ...row.values, created_at: now, updated_at: now })))
+
+        if (error) {
+          console.error('Error inserting positions:', error)
+          failed.push(`Inserting ${inserts.length} new position${inserts.length === 1 ? '' : 's'} failed: ${error.message}`)
+        } else {
+          inserted = inserts.length
+        }
+      }
+
+      for (const row of updates) {
+        const changes = Object.fromEntries(row.changes.map(change => [change.field, change.to]))
+        const { error } = await supabase
+          .from('positions')
+          .update({ ...changes, updated_at: now })
+          .eq('id', row.existingId)
+
+        if (error) {
+          console.error(`Error updating ${row.ticker}:`, error)
+          failed.push(`Line ${row.line} (${row.ticker}): ${error.message}`)
+        } else {
+          updated += 1
+        }
+      }
+
+      setResult({ inserted, updated, failed })
+      setStep('done')
+    } catch (error) {
+      console.error('Error importing positions:', error)
+      alert('Error importing positions. Please try again.')
+    } finally {
+      setIsImporting(false)
+    }
+  }
+
+  const handleReset = () => {
+    setStep('upload')
+    setFileName('')
+    setHeaders([])
+    setRecords([])
+    setMapping(null)
+    setPlan([])
+    setResult(null)
+  }
+
+  const selectClassName = "flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+
+  return (
+    <ProtectedRoute allowDemo={true}>
+      <Layout>
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {/* Header */}
+          <div className="mb-8">
+            <div className="flex items-center gap-2 text-sm text-muted-foreground mb-4">
+              <Link href="/positions" className="hover:text-foreground transition-colors">
+                Positions
+              </Link>
+              <span>/</span>
+              <span className="text-foreground">Import</span>
+            </div>
+            <h1 className="text-3xl font-bold text-foreground flex items-center">
+              <Upload className="w-8 h-8 mr-3 text-finance-blue-600 dark:text-finance-blue-400" />
+              Import Positions
+            </h1>
+            <p className="text-muted-foreground mt-2">
+              Create and update positions from a CSV. Rows are matched to existing positions by ticker and start date.
+            </p>
+          </div>
+
+          {/* Steps */}
+          <ol className="flex items-center gap-2 mb-8 text-sm">
+            {STEPS.map(({ step: s, label }, index) => {
+              const active = s === step
+              const complete = STEPS.findIndex(x => x.step === step) > index
+              return (
+                <li key={s} className="flex items-center gap-2">
+                  {index > 0 && <span className="text-muted-foreground">/</span>}
+                  <span className={active ? 'font-semibold text-foreground' : complete ? 'text-foreground' : 'text-muted-foreground'}>
+                    {index + 1}. {label}
+                  </span>
+                </li>
+              )
+            })}
+          </ol>
+
+          {step === 'upload' && (
+            <div className="bg-card rounded-lg border border-border p-6">
+              <label
+                htmlFor="csv-file"
+                className="flex flex-col items-center justify-center gap-3 py-12 border-2 border-dashed border-border rounded-lg cursor-pointer hover:bg-muted/50 transition-colors"
+              >
+                <FileText className="w-10 h-10 text-muted-foreground" />
+                <span className="text-foreground font-medium">Choose a CSV file</span>
+                <span className="text-sm text-muted-foreground">
+                  One row per position. Columns: {IMPORT_FIELDS.map(f => f.label).join(', ')}
+                </span>
+              </label>
+              <input
+                id="csv-file"
+                type="file"
+                accept=".csv,text/csv"
+                className="sr-only"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+              />
+            </div>
+          )}
+
+          {step === 'map' && mapping && (
+            <div className="bg-card rounded-lg border border-border p-6">
+              <h2 className="text-xl font-semibold text-foreground mb-1">Map Columns</h2>
+              <p className="text-sm text-muted-foreground mb-6">
+                {fileName}: {records.length} row{records.length === 1 ? '' : 's'}. Blank cells leave an existing position&apos;s value unchanged.
+              </p>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {IMPORT_FIELDS.map(({ field, label, required }) => (
+                  <div key={field}>
+                    <label htmlFor={`map-${field}`} className="block text-sm font-medium text-foreground mb-1">
+                      {label}{required && <span className="text-destructive ml-1">*</span>}
+                    </label>
+                    <select
+                      id={`map-${field}`}
+                      value={mapping[field]}
+                      onChange={(e) => setMapping({ ...mapping, [field]: e.target.value })}
+                      className={selectClassName}
+                    >
+                      <option value="">Not imported</option>
+                      {headers.map(header => (
+                        <option key={header} value={header}>{header}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+              {missingRequired.length > 0 && (
+                <p className="text-sm text-destructive mt-4">
+                  Map a column for {missingRequired.map(f => f.label).join(' and ')}.
+                </p>
+              )}
+              <div className="flex justify-between mt-6">
+                <Button variant="outline" onClick={handleReset} className="flex items-center gap-2">
+                  <ArrowLeft className="h-4 w-4" />
+                  Choose Another File
+                </Button>
+                <Button onClick={handlePreview} disabled={missingRequired.length > 0 || isPlanning} className="flex items-center gap-2">
+                  {isPlanning ? 'Checking...' : 'Preview Changes'}
+                  <ArrowRight className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {step === 'review' && (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+                {(['insert', 'update', 'unchanged', 'error'] as const).map(action => (
+                  <div key={action} className="bg-card rounded-lg border border-border p-4">
+                    <p className="text-sm font-medium text-muted-foreground capitalize">
+                      {action === 'insert' ? 'New' : action === 'error' ? 'Errors' : action}
+                    </p>
+                    <p className={`text-2xl font-bold ${action === 'error' && counts.error > 0 ? 'text-destructive' : 'text-foreground'}`}>
+                      {counts[action]}
+                    </p>
+                  </div>
+                ))}
+              </div>
+
+              <div className="bg-card rounded-lg border border-border mb-6">
+                <div className="p-6 border-b border-border">
+                  <h2 className="text-xl font-semibold text-foreground">Dry Run</h2>
+                  <p className="text-sm text-muted-foreground mt-1">Nothing has been written yet.</p>
+                </div>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Line</TableHead>
+                      <TableHead>Action</TableHead>
+                      <TableHead>Ticker</TableHead>
+                      <TableHead>Start Date</TableHead>
+                      <TableHead>Details</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {plan.map(row => (
+                      <TableRow key={row.line}>
+                        <TableCell className="text-muted-foreground">{row.line}</TableCell>
+                        <TableCell>
+                          <span className={`px-2 py-1 rounded-full text-xs font-medium ${actionStyles[row.action]}`}>
+                            {row.action}
+                          </span>
+                        </TableCell>
+                        <TableCell className="font-medium text-foreground">{row.ticker || '-'}</TableCell>
+                        <TableCell className="text-foreground">{row.start_date || '-'}</TableCell>
+                        <TableCell className="text-sm">
+                          {row.action === 'error' && (
+                            <ul className="text-destructive space-y-1">
+                              {row.errors.map(error => <li key={error}>{error}</li>)}
+                            </ul>
+                          )}
+                          {row.action === 'update' && (
+                            <ul className="text-foreground space-y-1">
+                              {row.changes.map(change => (
+                                <li key={change.field}>
+                                  <span className="text-muted-foreground">{IMPORT_FIELDS.find(f => f.field === change.field)?.label}:</span>{' '}
+                                  {formatChangeValue(change.from)} → {formatChangeValue(change.to)}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                          {row.action === 'insert' && <span className="text-muted-foreground">New position</span>}
+                          {row.action === 'unchanged' && <span className="text-muted-foreground">Already up to date</span>}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              <div className="flex justify-between">
+                <Button variant="outline" onClick={() => setStep('map')} className="flex items-center gap-2">
+                  <ArrowLeft className="h-4 w-4" />
+                  Back to Mapping
+                </Button>
+                <Button
+                  onClick={handleImport}
+                  disabled={isImporting || counts.insert + counts.update === 0}
+                  className="flex items-center gap-2"
+                >
+                  <Upload className="h-4 w-4" />
+                  {isImporting ? 'Importing...' : `Import ${counts.insert + counts.update} Change${counts.insert + counts.update === 1 ? '' : 's'}`}
+                </Button>
+              </div>
+            </>
+          )}
+
+          {step === 'done' && result && (
+            <div className="bg-card rounded-lg border border-border p-6">
+              <div className="flex items-center gap-3 mb-4">
+                {result.failed.length === 0
+                  ? <CheckCircle2 className="w-8 h-8 text-profit-green-600" />
+                  : <AlertTriangle className="w-8 h-8 text-destructive" />}
+                <div>
+                  <h2 className="text-xl font-semibold text-foreground">Import {result.failed.length === 0 ? 'Complete' : 'Finished With Errors'}</h2>
+                  <p className="text-sm text-muted-foreground">
+                    {result.inserted} added, {result.updated} updated{counts.error > 0 ? `, ${counts.error} skipped` : ''}
+                  </p>
+                </div>
+              </div>
+              {result.failed.length > 0 && (
+                <ul className="text-sm text-destructive space-y-1 mb-4">
+                  {result.failed.map(message => <li key={message}>{message}</li>)}
+                </ul>
+              )}
+              <div className="flex gap-2">
+                <Link href="/positions">
+                  <Button>View Positions</Button>
+                </Link>
+                <Button variant="outline" onClick={handleReset}>Import Another File</Button>
+              </div>
+            </div>
+          )}
+        </div>
+      </Layout>
+    </ProtectedRoute>
+  )
+}
@@ -3,6 +3,7 @@ import Layout from '@/components/Layout'
 import ProtectedRoute from '@/components/ProtectedRoute'
 import { Settings as SettingsIcon, User, Database, Bell, Shield, Palette, Save } from 'lucide-react'
 import { supabase } from '@/utils/supabase'
+import { useAuth } from '@/contexts/AuthContext'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import {
@@ -37,6 +38,7 @@ interface SettingsData {
 }
 
 export default function Settings() {
+  const { isAdmin } = useAuth()
   const [settings, setSettings] = useState<SettingsData>({
     display_name: '',
     email: '',
@@ -188,6 +190,11 @@ export default function Settings() {
             <p className="text-muted-foreground mt-2">
               Configure your portfolio management preferences
             </p>
+            {!isAdmin && (
+              <p className="text-sm text-muted-foreground mt-2">
+                Settings are shared by everyone. Only an admin can change them.
+              </p>
+            )}
           </div>
 
           <div className="grid grid-cols-1 lg:grid-cols-4 gap-8">
@@ -416,7 +423,8 @@ export default function Settings() {
                     </Button>
                     <Button
                       onClick={() => setShowConfirmDialog(true)}
-                      disabled={saving}
+                      disabled={saving || !isAdmin}
+                      title={isAdmin ? undefined : 'Only an admin can change settings'}
                       className="flex items-center gap-2"
                     >
                       <Save className="h-4 w-4" />
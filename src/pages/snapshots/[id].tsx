@@ -1,15 +1,22 @@
-import { useEffect, useState, useMemo } from 'react'
+import { useEffect, useState, useMemo, useCallback } from 'react'
 import { useRouter } from 'next/router'
 import Link from 'next/link'
+import dynamic from 'next/dynamic'
 import Layout from '@/components/Layout'
 import ProtectedRoute from '@/components/ProtectedRoute'
+import AuditHistory from '@/components/audit/AuditHistory'
+import OverrideCell from '@/components/snapshots/OverrideCell'
+import ColumnsMenu from '@/components/table/ColumnsMenu'
+import ExportMenu from '@/components/table/ExportMenu'
+import { useAuth } from '@/contexts/AuthContext'
 import { 
   useReactTable,
   getCoreRowModel,
   getFilteredRowModel,
   getSortedRowModel,
   flexRender,
-  createColumnHelper
+  createColumnHelper,
+  type VisibilityState
 } from '@tanstack/react-table'
 import { 
   ChevronDown, 
@@ -23,9 +30,36 @@ import {
   Edit3,
   Trash2,
   Download,
-  RefreshCw
+  RefreshCw,
+  Percent,
+  Clock,
+  BarChart3,
+  PieChart,
+  AlertTriangle,
+  Lock,
+  History,
+  Plus,
+  Eye,
+  EyeOff,
+  ExternalLink
 } from 'lucide-react'
 import { supabase } from '@/utils/supabase'
+import { effectiveDividends, effectivePrice, excessReturn, meanReturn, formatReturn, positionMetrics, positionReturn, toNumber } from '@/lib/returns'
+import { addSnapshotPosition, fetchSnapshotPrices, getSnapshotBenchmarks, populateSnapshotDividends, recalculatePortfolioReturn, recomputeSnapshotDividends, refreshSnapshotPrices } from '@/lib/api/client'
+import { WEIGHTING_METHODS, type WeightingMethod } from '@/lib/snapshots/portfolioReturn'
+import { SOURCE_POSITION_COLUMNS, clipToWindow, isHeldDuring, type SourcePosition } from '@/lib/snapshots/engine'
+import { isExited, positionStatusClassName } from '@/lib/positions/status'
+import { isValidUrl } from '@/lib/url'
+import {
+  SNAPSHOT_STATUS_LABELS,
+  availableTransitions,
+  isLocked,
+  toSnapshotStatus,
+  transitionError,
+  type SnapshotStatus,
+} from '@/lib/snapshots/status'
+import type { BenchmarkComparison } from '@/lib/api/types'
+import type { AgCartesianChartOptions } from 'ag-charts-community'
 import {
   Table,
   TableBody,
@@ -43,6 +77,14 @@ import {
   DialogTitle,
   DialogFooter,
 } from '@/components/ui/dialog'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+
+const ThemedChart = dynamic(() => import('@/components/charts/ThemedChart'), { ssr: false })
 
 interface Snapshot {
   id: string
@@ -52,6 +94,9 @@ interface Snapshot {
   notes: string | null
   status: string
   overall_portfolio_return_pct: number | null
+  weighting_method: WeightingMethod
+  overall_return_computed_at: string | null
+  overall_return_stale: boolean
   created_at: string
   updated_at: string
 }
@@ -59,6 +104,9 @@ interface Snapshot {
 interface SnapshotPosition {
   id: string
   snapshot_id: string
+  // Null for rows from before snapshot rows were linked to positions
+  position_id: string | null
+  // As the position traded when the snapshot was taken
   ticker: string
   company_name: string | null
   start_date: string
@@ -68,10 +116,35 @@ interface SnapshotPosition {
   return_pct_at_snapshot: number | null
   status: string | null
   dividends_paid: number | null
+  // Manual corrections; the fetched values above are kept
+  start_price_override: number | null
+  end_price_override: number | null
+  dividends_paid_override: number | null
+  // Left out of every snapshot figure, but kept so it can be re-included
+  excluded: boolean
+  // Splits and spin-offs inside the window restate the start price for returns
+  price_adjustment?: number | null
+  adjustment_note?: string | null
   created_at: string
   updated_at: string
   // Position status from positions table
   position_status?: string | null
+  blog_post_url?: string | null
+}
+
+interface StatusChange {
+  id: string
+  from_status: string | null
+  to_status: string
+  changed_by: string | null
+  changed_at: string
+  changed_by_name?: string
+}
+
+const statusStyles: Record<SnapshotStatus, string> = {
+  pending: 'bg-muted text-muted-foreground',
+  priced: 'bg-finance-blue-100 text-finance-blue-800 dark:bg-finance-blue-900 dark:text-finance-blue-200',
+  finalized: 'bg-profit-green-100 text-profit-green-800 dark:bg-profit-green-900 dark:text-profit-green-200',
 }
 
 const columnHelper = createColumnHelper<SnapshotPosition>()
@@ -79,12 +152,14 @@ const columnHelper = createColumnHelper<SnapshotPosition>()
 export default function SnapshotDetail() {
   const router = useRouter()
   const { id } = router.query
+  const { user, isAdmin } = useAuth()
   
   const [snapshot, setSnapshot] = useState<Snapshot | null>(null)
   const [positions, setPositions] = useState<SnapshotPosition[]>([])
   const [loading, setLoading] = useState(true)
   const [positionsLoading, setPositionsLoading] = useState(true)
   const [globalFilter, setGlobalFilter] = useState('')
+  const [columnVisibility, setColumnVisibility] = useState<VisibilityState>({})
   const [sorting, setSorting] = useState([
     {
       id: 'ticker',
@@ -94,15 +169,91 @@ export default function SnapshotDetail() {
   const [isEditModalOpen, setIsEditModalOpen] = useState(false)
   const [isFetchingPrices, setIsFetchingPrices] = useState(false)
   const [isFetchingDividends, setIsFetchingDividends] = useState(false)
-  const [portfolioStats, setPortfolioStats] = useState<any>(null)
-  const [statsLoading, setStatsLoading] = useState(false)
+  const [isRecalculating, setIsRecalculating] = useState(false)
+  const [isChangingStatus, setIsChangingStatus] = useState(false)
+  const [statusHistory, setStatusHistory] = useState<StatusChange[]>([])
+  const [historyTab, setHistoryTab] = useState<'status' | 'changes'>('status')
+  const [isAddPositionOpen, setIsAddPositionOpen] = useState(false)
+  const [candidatePositions, setCandidatePositions] = useState<SourcePosition[]>([])
+  const [selectedPositionId, setSelectedPositionId] = useState('')
+  const [isAddingPosition, setIsAddingPosition] = useState(false)
+  const [benchmarkTickers, setBenchmarkTickers] = useState<string[]>([])
+  const [benchmarks, setBenchmarks] = useState<BenchmarkComparison[]>([])
   const [editForm, setEditForm] = useState({
     name: '',
     start_date: '',
     end_date: '',
     notes: '',
+    weighting_method: 'equal' as WeightingMethod,
+    benchmarks: '',
   })
 
+  // Benchmark tickers come from Supabase; their returns are priced server-side
+  const loadBenchmarks = async (snapshotId: string) => {
+    const { data, error } = await supabase
+      .from('snapshot_benchmarks')
+      .select('ticker')
+      .eq('snapshot_id', snapshotId)
+      .order('ticker', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching benchmarks:', error)
+      return []
+    }
+
+    const tickers = (data || []).map(b => b.ticker)
+    setBenchmarkTickers(tickers)
+
+    if (tickers.length === 0) {
+      setBenchmarks([])
+      return tickers
+    }
+
+    try {
+      const result = await getSnapshotBenchmarks(snapshotId)
+      setBenchmarks(result.benchmarks)
+    } catch (error) {
+      // Comparison is optional - the page still works without it
+      console.error('Error fetching benchmark returns:', error)
+      setBenchmarks([])
+    }
+    return tickers
+  }
+
+  // Transitions are recorded by a database trigger; names come from profiles
+  const loadStatusHistory = async (snapshotId: string) => {
+    const { data, error } = await supabase
+      .from('snapshot_status_history')
+      .select('*')
+      .eq('snapshot_id', snapshotId)
+      .order('changed_at', { ascending: false })
+
+    if (error) {
+      console.error('Error fetching status history:', error)
+      return
+    }
+
+    const userIds = [...new Set((data || []).map(h => h.changed_by).filter(Boolean))]
+    let names: Record<string, string> = {}
+    if (userIds.length > 0) {
+      const { data: profiles, error: profilesError } = await supabase
+        .from('profiles')
+        .select('id, username, full_name')
+        .in('id', userIds)
+
+      if (profilesError) {
+        console.error('Error fetching profiles:', profilesError)
+      } else {
+        names = Object.fromEntries((profiles || []).map(p => [p.id, p.full_name || p.username || p.id]))
+      }
+    }
+
+    setStatusHistory((data || []).map(h => ({
+      ...h,
+      changed_by_name: h.changed_by ? names[h.changed_by] || h.changed_by : 'System',
+    })))
+  }
+
   // Fetch snapshot and positions data
   useEffect(() => {
     if (!id || typeof id !== 'string') return
@@ -133,6 +284,8 @@ export default function SnapshotDetail() {
           start_date: snapshotData.start_date || '',
           end_date: snapshotData.end_date || '',
           notes: snapshotData.notes || '',
+          weighting_method: snapshotData.weighting_method || 'equal',
+          benchmarks: '',
         })
 
         // Fetch snapshot positions with position status using view
@@ -148,9 +301,11 @@ export default function SnapshotDetail() {
         }
 
         setPositions(positionsData || [])
-        
-        // Fetch portfolio statistics
-        fetchPortfolioStats(id)
+
+        const tickers = await loadBenchmarks(id)
+        setEditForm(prev => ({ ...prev, benchmarks: tickers.join(', ') }))
+
+        await loadStatusHistory(id)
       } catch (error) {
         console.error('Error fetching data:', error)
       } finally {
@@ -162,24 +317,199 @@ export default function SnapshotDetail() {
     fetchData()
   }, [id, router])
 
-  // Fetch portfolio statistics
-  const fetchPortfolioStats = async (snapshotId: string) => {
-    setStatsLoading(true)
+  // Stores a fresh overall_portfolio_return_pct after prices, dividends or weighting change
+  const updatePortfolioReturn = async (snapshotId: string) => {
+    setIsRecalculating(true)
     try {
-      const response = await fetch(`http://localhost:4021/snapshots/${snapshotId}/stats`)
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`)
+      const result = await recalculatePortfolioReturn(snapshotId)
+      setSnapshot(prev => prev ? {
+        ...prev,
+        weighting_method: result.weighting_method,
+        overall_portfolio_return_pct: result.overall_portfolio_return_pct,
+        overall_return_computed_at: new Date().toISOString(),
+        overall_return_stale: false,
+      } : null)
+    } catch (error) {
+      console.error('Error computing portfolio return:', error)
+      setSnapshot(prev => prev ? { ...prev, overall_return_stale: true } : null)
+    } finally {
+      setIsRecalculating(false)
+    }
+  }
+
+  const handleStatusChange = async (to: SnapshotStatus) => {
+    if (!snapshot) return
+
+    const reason = transitionError(snapshot.status, to, includedPositions, isAdmin)
+    if (reason) {
+      alert(reason)
+      return
+    }
+
+    if (to === 'finalized' && !confirm('Finalize this snapshot? Prices, dividends and details will be locked until an admin reopens it.')) {
+      return
+    }
+    if (snapshot.status === 'finalized' && !confirm('Reopen this finalized snapshot? It will be editable again.')) {
+      return
+    }
+
+    setIsChangingStatus(true)
+    try {
+      const updateData = { status: to, updated_at: new Date().toISOString() }
+      const { error } = await supabase
+        .from('snapshots')
+        .update(updateData)
+        .eq('id', snapshot.id)
+
+      if (error) {
+        console.error('Error changing snapshot status:', error)
+        alert(`Error changing status: ${error.message}`)
+        return
       }
-      const stats = await response.json()
-      setPortfolioStats(stats)
+
+      setSnapshot(prev => prev ? { ...prev, ...updateData } : null)
+      await loadStatusHistory(snapshot.id)
     } catch (error) {
-      console.error('Error fetching portfolio stats:', error)
-      // Don't show error to user - stats are optional
+      console.error('Error changing snapshot status:', error)
     } finally {
-      setStatsLoading(false)
+      setIsChangingStatus(false)
     }
   }
 
+  // Every figure on the page ignores excluded rows; the table still lists them
+  const includedPositions = useMemo(() => positions.filter(p => !p.excluded), [positions])
+
+  const reloadPositions = async (snapshotId: string) => {
+    const { data, error } = await supabase
+      .from('snapshot_positions_with_status')
+      .select('*')
+      .eq('snapshot_id', snapshotId)
+      .order('ticker', { ascending: true })
+
+    if (error) {
+      console.error('Error refreshing positions:', error)
+      return
+    }
+    setPositions(data || [])
+  }
+
+  // Positions held during the window that aren't in the snapshot yet
+  const handleOpenAddPosition = async () => {
+    if (!snapshot?.end_date) {
+      alert('Set an end date on the snapshot before adding positions.')
+      return
+    }
+
+    const { data, error } = await supabase
+      .from('positions')
+      .select(SOURCE_POSITION_COLUMNS)
+      .lte('start_date', snapshot.end_date)
+      .order('ticker', { ascending: true })
+
+    if (error) {
+      console.error('Error fetching positions:', error)
+      alert('Error loading positions. Please try again.')
+      return
+    }
+
+    const included = new Set(positions.map(p => p.position_id))
+    const window = { start_date: snapshot.start_date, end_date: snapshot.end_date }
+    const candidates = (data as SourcePosition[]).filter(p => isHeldDuring(p, window) && !included.has(p.id))
+    setCandidatePositions(candidates)
+    setSelectedPositionId(candidates[0]?.id || '')
+    setIsAddPositionOpen(true)
+  }
+
+  const handleAddPosition = async () => {
+    if (!snapshot || !selectedPositionId) return
+
+    setIsAddingPosition(true)
+    try {
+      await addSnapshotPosition(snapshot.id, { position_id: selectedPositionId })
+      await reloadPositions(snapshot.id)
+      // The new row needs its own benchmark returns
+      await loadBenchmarks(snapshot.id)
+
+      // The server recomputed the overall return along with the insert
+      const { data, error } = await supabase
+        .from('snapshots')
+        .select('*')
+        .eq('id', snapshot.id)
+        .single()
+
+      if (error) {
+        console.error('Error refreshing snapshot:', error)
+      } else {
+        setSnapshot(data)
+      }
+
+      setIsAddPositionOpen(false)
+    } catch (error) {
+      console.error('Error adding position:', error)
+      alert(`Error adding position: ${error.message}`)
+    } finally {
+      setIsAddingPosition(false)
+    }
+  }
+
+  const handleToggleExcluded = useCallback(async (row: SnapshotPosition) => {
+    const updateData = { excluded: !row.excluded, updated_at: new Date().toISOString() }
+
+    const { error } = await supabase
+      .from('snapshot_positions')
+      .update(updateData)
+      .eq('id', row.id)
+
+    if (error) {
+      console.error('Error updating position:', error)
+      alert(`Error ${row.excluded ? 'including' : 'excluding'} position: ${error.message}`)
+      return
+    }
+
+    setPositions(prev => prev.map(p => p.id === row.id ? { ...p, ...updateData } : p))
+
+    try {
+      const result = await recalculatePortfolioReturn(row.snapshot_id)
+      setSnapshot(prev => prev ? {
+        ...prev,
+        overall_portfolio_return_pct: result.overall_portfolio_return_pct,
+        overall_return_computed_at: new Date().toISOString(),
+        overall_return_stale: false,
+      } : null)
+    } catch (error) {
+      console.error('Error computing portfolio return:', error)
+      setSnapshot(prev => prev ? { ...prev, overall_return_stale: true } : null)
+    }
+  }, [])
+
+  // Saves a manual override (or clears it with null) on one snapshot row
+  const handleOverride = useCallback(async (
+    row: SnapshotPosition,
+    field: 'start_price_override' | 'end_price_override' | 'dividends_paid_override',
+    value: number | null
+  ) => {
+    const updateData = {
+      [field]: value,
+      return_pct_at_snapshot: positionReturn({ ...row, [field]: value }),
+      updated_at: new Date().toISOString(),
+    }
+
+    const { error } = await supabase
+      .from('snapshot_positions')
+      .update(updateData)
+      .eq('id', row.id)
+
+    if (error) {
+      console.error('Error saving override:', error)
+      alert(`Error saving override: ${error.message}`)
+      return
+    }
+
+    setPositions(prev => prev.map(p => p.id === row.id ? { ...p, ...updateData } : p))
+    // The database trigger marks a computed overall return as stale
+    setSnapshot(prev => prev && prev.overall_return_computed_at ? { ...prev, overall_return_stale: true } : prev)
+  }, [])
+
   const handleEditSnapshot = () => {
     setIsEditModalOpen(true)
   }
@@ -193,6 +523,7 @@ export default function SnapshotDetail() {
         start_date: editForm.start_date || null,
         end_date: editForm.end_date || null,
         notes: editForm.notes || null,
+        weighting_method: editForm.weighting_method,
         updated_at: new Date().toISOString()
       }
 
@@ -207,6 +538,42 @@ export default function SnapshotDetail() {
       }
 
       setSnapshot(prev => prev ? { ...prev, ...updateData } : null)
+
+      if (editForm.weighting_method !== snapshot.weighting_method) {
+        await updatePortfolioReturn(snapshot.id)
+      }
+
+      // Sync benchmark tickers
+      const tickers = [...new Set(editForm.benchmarks.split(/[\s,]+/).map(t => t.trim().toUpperCase()).filter(Boolean))]
+      const removed = benchmarkTickers.filter(t => !tickers.includes(t))
+      const added = tickers.filter(t => !benchmarkTickers.includes(t))
+
+      if (removed.length > 0) {
+        const { error: removeError } = await supabase
+          .from('snapshot_benchmarks')
+          .delete()
+          .eq('snapshot_id', snapshot.id)
+          .in('ticker', removed)
+
+        if (removeError) {
+          console.error('Error removing benchmarks:', removeError)
+        }
+      }
+
+      if (added.length > 0) {
+        const { error: addError } = await supabase
+          .from('snapshot_benchmarks')
+          .insert(added.map(ticker => ({ snapshot_id: snapshot.id, ticker })))
+
+        if (addError) {
+          console.error('Error adding benchmarks:', addError)
+        }
+      }
+
+      if (removed.length > 0 || added.length > 0) {
+        await loadBenchmarks(snapshot.id)
+      }
+
       setIsEditModalOpen(false)
     } catch (error) {
       console.error('Error saving snapshot:', error)
@@ -244,18 +611,7 @@ export default function SnapshotDetail() {
     setIsFetchingPrices(true)
     
     try {
-      const response = await fetch(`http://localhost:4021/snapshots/${snapshot.id}/fetch-prices`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      })
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`)
-      }
-
-      const result = await response.json()
+      const result = await fetchSnapshotPrices(snapshot.id)
       console.log('Fetch prices result:', result)
 
       // Refresh positions data after fetching prices
@@ -271,10 +627,32 @@ export default function SnapshotDetail() {
         setPositions(data || [])
       }
 
+      await updatePortfolioReturn(snapshot.id)
+
       alert('Prices fetched successfully!')
     } catch (error) {
       console.error('Error fetching prices:', error)
-      alert('Error fetching prices. Please check if the FastAPI server is running on port 4021.')
+      alert(`Error fetching prices: ${error.message}`)
+    } finally {
+      setIsFetchingPrices(false)
+    }
+  }
+
+  // Re-prices every row through the server's market-data provider instead of the backend
+  const handleRefreshPrices = async () => {
+    if (!snapshot) return
+
+    setIsFetchingPrices(true)
+
+    try {
+      const result = await refreshSnapshotPrices(snapshot.id)
+      await reloadPositions(snapshot.id)
+      await updatePortfolioReturn(snapshot.id)
+
+      alert(`Prices refreshed from market data (${result.updated ?? 0} position${result.updated === 1 ? '' : 's'} changed).`)
+    } catch (error) {
+      console.error('Error refreshing prices:', error)
+      alert(`Error refreshing prices: ${error.message}`)
     } finally {
       setIsFetchingPrices(false)
     }
@@ -286,18 +664,7 @@ export default function SnapshotDetail() {
     setIsFetchingDividends(true)
     
     try {
-      const response = await fetch(`http://localhost:4021/snapshots/${snapshot.id}/populate-dividends`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      })
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`)
-      }
-
-      const result = await response.json()
+      const result = await populateSnapshotDividends(snapshot.id)
       console.log('Fetch dividends result:', result)
 
       // Refresh positions data after fetching dividends
@@ -313,21 +680,43 @@ export default function SnapshotDetail() {
         setPositions(data || [])
       }
 
+      await updatePortfolioReturn(snapshot.id)
+
       alert('Dividends fetched successfully!')
     } catch (error) {
       console.error('Error fetching dividends:', error)
-      alert('Error fetching dividends. Please check if the FastAPI server is running on port 4021.')
+      alert(`Error fetching dividends: ${error.message}`)
+    } finally {
+      setIsFetchingDividends(false)
+    }
+  }
+
+  // Sums each row's dividends from the ledger as it stands, without fetching new payments
+  const handleRecomputeDividends = async () => {
+    if (!snapshot) return
+
+    setIsFetchingDividends(true)
+
+    try {
+      const result = await recomputeSnapshotDividends(snapshot.id)
+      await reloadPositions(snapshot.id)
+      await updatePortfolioReturn(snapshot.id)
+
+      alert(`Dividends recomputed from the ledger (${result.updated ?? 0} position${result.updated === 1 ? '' : 's'} changed).`)
+    } catch (error) {
+      console.error('Error recomputing dividends:', error)
+      alert(`Error recomputing dividends: ${error.message}`)
     } finally {
       setIsFetchingDividends(false)
     }
   }
 
   const handleExportToHTML = () => {
-    if (!snapshot || !positions.length) return
+    if (!snapshot || !includedPositions.length) return
 
     // Separate open and closed positions based on position_status from positions table
-    const openPositions = positions.filter(p => p.position_status !== 'Closed')
-    const closedPositions = positions.filter(p => p.position_status === 'Closed')
+    const openPositions = includedPositions.filter(p => !isExited(p.position_status))
+    const closedPositions = includedPositions.filter(p => isExited(p.position_status))
 
     const getReturnClass = (returnPct: number) => {
       if (returnPct < 0) return 'negative'
@@ -337,18 +726,26 @@ export default function SnapshotDetail() {
       return 'very-positive'
     }
 
-    const formatReturn = (startPrice: number | null, endPrice: number | null, dividends: number) => {
-      if (!startPrice || !endPrice || startPrice === 0) return { return: 0, formatted: '-' }
-      const totalReturn = ((endPrice + dividends) - startPrice) / startPrice * 100
-      return { return: totalReturn, formatted: `${totalReturn >= 0 ? '+' : ''}${totalReturn.toFixed(1)}%` }
-    }
+    const formatExportReturn = (returnPct: number | null) => (
+      { return: returnPct ?? 0, formatted: formatReturn(returnPct, 1) }
+    )
 
-    const calculateHoldingDays = (startDate: string, endDate: string) => {
-      const start = new Date(startDate)
-      const end = new Date(endDate)
-      const diffTime = Math.abs(end.getTime() - start.getTime())
-      return Math.ceil(diffTime / (1000 * 60 * 60 * 24))
+    // Overridden values are starred, with the fetched value in the tooltip
+    const exportValue = (value: number | null, override: number | null) => {
+      const effective = effectivePrice(value, override) ?? 0
+      if (toNumber(override) === null) return `$${effective.toFixed(2)}`
+      return `<span class="overridden" title="Fetched value: $${(toNumber(value) ?? 0).toFixed(2)}">$${effective.toFixed(2)}*</span>`
+    }
+    // Tickers link to the position's write-up when it has one
+    const exportTicker = (pos: SnapshotPosition) => {
+      if (!pos.blog_post_url || !isValidUrl(pos.blog_post_url)) return pos.ticker
+      const href = pos.blog_post_url.replace(/&/g, '&amp;').replace(/"/g, '&quot;')
+      return `<a href="${href}" target="_blank" rel="noopener noreferrer">${pos.ticker}</a>`
     }
+    const hasOverrides = includedPositions.some(p =>
+      toNumber(p.start_price_override) !== null ||
+      toNumber(p.end_price_override) !== null ||
+      toNumber(p.dividends_paid_override) !== null)
 
     const html = `<!DOCTYPE html>
 <html lang="en">
@@ -390,6 +787,13 @@ export default function SnapshotDetail() {
             border-bottom: 1px solid #e9ecef;
         }
         
+        .summary-info {
+            padding: 12px 25px;
+            font-size: 14px;
+            color: #495057;
+            border-bottom: 1px solid #e9ecef;
+        }
+        
         .section-title {
             padding: 20px 25px 0 25px;
             font-size: 20px;
@@ -463,6 +867,12 @@ export default function SnapshotDetail() {
             font-weight: 600;
             color: #2c3e50;
         }
+
+        .ticker a {
+            color: inherit;
+            text-decoration: none;
+            border-bottom: 1px dotted #2c3e50;
+        }
         
         .status {
             padding: 4px 8px;
@@ -547,6 +957,11 @@ export default function SnapshotDetail() {
             white-space: nowrap;
         }
         
+        .overridden {
+            color: rgb(25, 117, 179);
+            font-weight: 600;
+        }
+        
         .footer {
             padding: 15px 25px;
             background-color: #f8f9fa;
@@ -591,6 +1006,9 @@ export default function SnapshotDetail() {
     <div class="container">
         <h1>Microcap Opportunities Portfolio</h1>
         <div class="period-info">Period: ${snapshot.start_date || 'N/A'} to ${snapshot.end_date || 'N/A'}</div>
+        <div class="summary-info">Portfolio Return (${WEIGHTING_METHODS.find(m => m.value === snapshot.weighting_method)?.label || 'Equal weight'}): ${formatReturn(toNumber(snapshot.overall_portfolio_return_pct), 1)}</div>
+        <div class="summary-info">Average Return: ${formatReturn(summaryStats.averageReturn, 1)} • Average Annualized Return: ${formatReturn(summaryStats.averageAnnualizedReturn, 1)}</div>
+        ${benchmarkStats.map(stat => `<div class="summary-info">Excess Return vs ${stat.ticker}: ${formatReturn(stat.averageExcessReturn, 1)} (${stat.ticker} average: ${formatReturn(stat.averageBenchmarkReturn, 1)})</div>`).join('')}
         
         <div class="table-container">
             <table>
@@ -603,26 +1021,30 @@ export default function SnapshotDetail() {
                         <th class="numeric-header">End Price</th>
                         <th class="numeric-header">Dividends</th>
                         <th>Return Pct</th>
+                        <th class="numeric-header">Annualized</th>
+                        ${benchmarks.map(b => `<th class="numeric-header">vs ${b.ticker}</th>`).join('')}
                         <th class="numeric-header">Holding Days</th>
                     </tr>
                 </thead>
                 <tbody>
                     ${openPositions.map(pos => {
-                      const dividends = Number(pos.dividends_paid) || 0
-                      const returnCalc = formatReturn(pos.start_price, pos.end_price, dividends)
-                      const holdingDays = calculateHoldingDays(pos.start_date, pos.end_date)
+                      const metrics = positionMetrics(pos)
+                      const returnCalc = formatExportReturn(metrics.returnPct)
+                      const annualizedCalc = formatExportReturn(metrics.annualizedPct)
                       const returnClass = getReturnClass(returnCalc.return)
                       
                       return `
                     <tr>
-                        <td class="ticker">${pos.ticker}</td>
+                        <td class="ticker">${exportTicker(pos)}</td>
                         <td class="date">${new Date(pos.start_date).toLocaleDateString()}</td>
                         <td class="date">${new Date(pos.end_date).toLocaleDateString()}</td>
-                        <td class="number">$${pos.start_price?.toFixed(2) || '0.00'}</td>
-                        <td class="number">$${pos.end_price?.toFixed(2) || '0.00'}</td>
-                        <td class="number">$${dividends.toFixed(2)}</td>
+                        <td class="number">${exportValue(pos.start_price, pos.start_price_override)}</td>
+                        <td class="number">${exportValue(pos.end_price, pos.end_price_override)}</td>
+                        <td class="number">${exportValue(toNumber(pos.dividends_paid) ?? 0, pos.dividends_paid_override)}</td>
                         <td class="percentage"><span class="${returnClass}">${returnCalc.formatted}</span></td>
-                        <td class="number">${holdingDays}</td>
+                        <td class="number">${annualizedCalc.formatted}</td>
+                        ${benchmarks.map(b => `<td class="number">${formatReturn(excessReturn(metrics.returnPct, b.position_returns[pos.id] ?? null), 1)}</td>`).join('')}
+                        <td class="number">${metrics.holdingDays ?? '-'}</td>
                     </tr>`
                     }).join('')}
                 </tbody>
@@ -641,26 +1063,30 @@ export default function SnapshotDetail() {
                         <th class="numeric-header">End Price</th>
                         <th class="numeric-header">Dividends</th>
                         <th>Return Pct</th>
+                        <th class="numeric-header">Annualized</th>
+                        ${benchmarks.map(b => `<th class="numeric-header">vs ${b.ticker}</th>`).join('')}
                         <th class="numeric-header">Holding Days</th>
                     </tr>
                 </thead>
                 <tbody>
                     ${closedPositions.map(pos => {
-                      const dividends = Number(pos.dividends_paid) || 0
-                      const returnCalc = formatReturn(pos.start_price, pos.end_price, dividends)
-                      const holdingDays = calculateHoldingDays(pos.start_date, pos.end_date)
+                      const metrics = positionMetrics(pos)
+                      const returnCalc = formatExportReturn(metrics.returnPct)
+                      const annualizedCalc = formatExportReturn(metrics.annualizedPct)
                       const returnClass = getReturnClass(returnCalc.return)
                       
                       return `
                     <tr>
-                        <td class="ticker">${pos.ticker}</td>
+                        <td class="ticker">${exportTicker(pos)}</td>
                         <td class="date">${new Date(pos.start_date).toLocaleDateString()}</td>
                         <td class="date">${new Date(pos.end_date).toLocaleDateString()}</td>
-                        <td class="number">$${pos.start_price?.toFixed(2) || '0.00'}</td>
-                        <td class="number">$${pos.end_price?.toFixed(2) || '0.00'}</td>
-                        <td class="number">$${dividends.toFixed(2)}</td>
+                        <td class="number">${exportValue(pos.start_price, pos.start_price_override)}</td>
+                        <td class="number">${exportValue(pos.end_price, pos.end_price_override)}</td>
+                        <td class="number">${exportValue(toNumber(pos.dividends_paid) ?? 0, pos.dividends_paid_override)}</td>
                         <td class="percentage"><span class="${returnClass}">${returnCalc.formatted}</span></td>
-                        <td class="number">${holdingDays}</td>
+                        <td class="number">${annualizedCalc.formatted}</td>
+                        ${benchmarks.map(b => `<td class="number">${formatReturn(excessReturn(metrics.returnPct, b.position_returns[pos.id] ?? null), 1)}</td>`).join('')}
+                        <td class="number">${metrics.holdingDays ?? '-'}</td>
                     </tr>`
                     }).join('')}
                 </tbody>
@@ -669,6 +1095,7 @@ export default function SnapshotDetail() {
         ` : ''}
         
         <div class="footer">
+            ${hasOverrides ? '<div><span class="overridden">*</span> Manually overridden value</div>' : ''}
             Generated on ${new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: '2-digit' })} • Data from Portfolio Snapshot ${snapshot.id}
         </div>
     </div>
@@ -690,45 +1117,69 @@ export default function SnapshotDetail() {
 
   // Calculate summary statistics
   const summaryStats = useMemo(() => {
-    if (!positions || positions.length === 0) {
+    if (includedPositions.length === 0) {
       return {
         totalPositions: 0,
         winners: 0,
         losers: 0,
         totalDividends: 0,
-        averageReturn: 0
+        averageReturn: null,
+        averageAnnualizedReturn: null
       }
     }
 
-    const totalPositions = positions.length
-    
-    // Calculate returns including dividends for each position
-    const positionsWithReturns = positions.map(p => {
-      const startPrice = p.start_price
-      const endPrice = p.end_price
-      const dividends = Number(p.dividends_paid) || 0
-      
-      if (!startPrice || !endPrice || startPrice === 0) {
-        return { ...p, calculatedReturn: 0 }
-      }
-      
-      const totalReturn = ((endPrice + dividends) - startPrice) / startPrice * 100
-      return { ...p, calculatedReturn: totalReturn }
-    })
-    
-    const winners = positionsWithReturns.filter(p => p.calculatedReturn > 0).length
-    const losers = positionsWithReturns.filter(p => p.calculatedReturn < 0).length
-    const totalDividends = positions.reduce((sum, p) => sum + (Number(p.dividends_paid) || 0), 0)
-    const averageReturn = positionsWithReturns.reduce((sum, p) => sum + p.calculatedReturn, 0) / positions.length
+    const totalPositions = includedPositions.length
+    const metrics = includedPositions.map(p => positionMetrics(p))
+    const returns = metrics.map(m => m.returnPct)
+
+    const winners = returns.filter(r => r !== null && r > 0).length
+    const losers = returns.filter(r => r !== null && r < 0).length
+    const totalDividends = includedPositions.reduce((sum, p) => sum + effectiveDividends(p), 0)
+    const averageReturn = meanReturn(returns)
+    const averageAnnualizedReturn = meanReturn(metrics.map(m => m.annualizedPct))
 
     return {
       totalPositions,
       winners,
       losers,
       totalDividends,
-      averageReturn
+      averageReturn,
+      averageAnnualizedReturn
+    }
+  }, [includedPositions])
+
+  // Average benchmark return and average excess return (alpha) per benchmark, over the
+  // included rows as they stand now (exclusions are toggled without refetching benchmarks)
+  const benchmarkStats = useMemo(() => benchmarks.map(benchmark => {
+    const alphas = includedPositions.map(p =>
+      excessReturn(positionMetrics(p).returnPct, benchmark.position_returns[p.id] ?? null))
+    return {
+      ticker: benchmark.ticker,
+      averageBenchmarkReturn: meanReturn(includedPositions.map(p => benchmark.position_returns[p.id] ?? null)),
+      averageExcessReturn: meanReturn(alphas),
     }
-  }, [positions])
+  }), [includedPositions, benchmarks])
+
+  // Distribution of total returns across the snapshot's positions
+  const histogramOptions = useMemo<AgCartesianChartOptions>(() => ({
+    data: includedPositions
+      .map(p => ({ ticker: p.ticker, return_pct: positionMetrics(p).returnPct }))
+      .filter(d => d.return_pct !== null),
+    series: [
+      {
+        type: 'histogram',
+        xKey: 'return_pct',
+        xName: 'Return',
+        yName: 'Positions',
+      },
+    ],
+    axes: {
+      x: { type: 'number', position: 'bottom', label: { formatter: ({ value }) => `${value}%` } },
+      y: { type: 'number', position: 'left', title: { text: 'Positions' } },
+    },
+  }), [includedPositions])
+
+  const snapshotLocked = isLocked(snapshot?.status)
 
   const columns = useMemo(() => [
     columnHelper.accessor('ticker', {
@@ -763,83 +1214,189 @@ export default function SnapshotDetail() {
         </div>
       )
     }),
-    columnHelper.accessor('start_price', {
+    // Prices and dividends sort by their effective value and can be overridden inline
+    columnHelper.accessor(row => effectivePrice(row.start_price, row.start_price_override) ?? undefined, {
+      id: 'start_price',
       header: 'Start Price',
+      sortUndefined: 'last',
+      cell: info => (
+        <div>
+          <OverrideCell
+            original={toNumber(info.row.original.start_price)}
+            override={toNumber(info.row.original.start_price_override)}
+            disabled={snapshotLocked}
+            onSave={value => handleOverride(info.row.original, 'start_price_override', value)}
+          />
+          {info.row.original.adjustment_note && (
+            <div className="text-xs text-finance-blue-600 dark:text-finance-blue-400" title={`Start price ×${Number((toNumber(info.row.original.price_adjustment) ?? 1).toFixed(4))} for returns`}>
+              {info.row.original.adjustment_note}
+            </div>
+          )}
+        </div>
+      )
+    }),
+    columnHelper.accessor(row => effectivePrice(row.end_price, row.end_price_override) ?? undefined, {
+      id: 'end_price',
+      header: 'End Price',
+      sortUndefined: 'last',
+      cell: info => (
+        <OverrideCell
+          original={toNumber(info.row.original.end_price)}
+          override={toNumber(info.row.original.end_price_override)}
+          disabled={snapshotLocked}
+          onSave={value => handleOverride(info.row.original, 'end_price_override', value)}
+        />
+      )
+    }),
+    columnHelper.accessor(row => effectiveDividends(row), {
+      id: 'dividends_paid',
+      header: 'Dividends',
+      cell: info => (
+        <OverrideCell
+          original={toNumber(info.row.original.dividends_paid) ?? 0}
+          override={toNumber(info.row.original.dividends_paid_override)}
+          disabled={snapshotLocked}
+          onSave={value => handleOverride(info.row.original, 'dividends_paid_override', value)}
+        />
+      )
+    }),
+    // Computed metrics use accessors (not display columns) so they can be sorted; missing values sort last
+    columnHelper.accessor(row => positionMetrics(row).returnPct ?? undefined, {
+      id: 'return_pct_with_dividends',
+      header: 'Return %',
+      sortUndefined: 'last',
       cell: info => {
-        const value = info.getValue()
+        const totalReturn = info.getValue()
+
+        if (totalReturn === undefined) {
+          return <div className="text-muted-foreground">-</div>
+        }
+
         return (
-          <div className="text-foreground">
-            {value !== null ? `$${value.toFixed(2)}` : '-'}
+          <div className={`font-medium ${totalReturn >= 0 ? 'text-profit-green-600' : 'text-loss-red-600'}`}>
+            {formatReturn(totalReturn)}
           </div>
         )
       }
     }),
-    columnHelper.accessor('end_price', {
-      header: 'End Price',
+    columnHelper.accessor(row => positionMetrics(row).holdingDays ?? undefined, {
+      id: 'holding_days',
+      header: 'Holding Days',
+      sortUndefined: 'last',
       cell: info => {
-        const value = info.getValue()
+        const days = info.getValue()
         return (
-          <div className="text-foreground">
-            {value !== null ? `$${value.toFixed(2)}` : '-'}
+          <div className={days === undefined ? 'text-muted-foreground' : 'text-foreground'}>
+            {days ?? '-'}
           </div>
         )
       }
     }),
-    columnHelper.accessor('dividends_paid', {
-      header: 'Dividends',
+    columnHelper.accessor(row => positionMetrics(row).annualizedPct ?? undefined, {
+      id: 'annualized_return',
+      header: 'Annualized %',
+      sortUndefined: 'last',
       cell: info => {
-        const value = info.getValue()
-        const numValue = Number(value) || 0
-        if (numValue === 0) {
+        const annualized = info.getValue()
+
+        if (annualized === undefined) {
           return <div className="text-muted-foreground">-</div>
         }
+
         return (
-          <div className="text-foreground">
-            ${numValue.toFixed(2)}
+          <div className={`font-medium ${annualized >= 0 ? 'text-profit-green-600' : 'text-loss-red-600'}`}>
+            {formatReturn(annualized)}
           </div>
         )
       }
     }),
-    columnHelper.display({
-      id: 'return_pct_with_dividends',
-      header: 'Return %',
+    ...benchmarks.map(benchmark =>
+      columnHelper.accessor(row => excessReturn(
+        positionMetrics(row).returnPct,
+        benchmark.position_returns[row.id] ?? null
+      ) ?? undefined, {
+        id: `alpha_${benchmark.ticker}`,
+        header: `vs ${benchmark.ticker}`,
+        sortUndefined: 'last',
+        cell: info => {
+          const alpha = info.getValue()
+          const benchmarkReturn = benchmark.position_returns[info.row.original.id] ?? null
+
+          if (alpha === undefined) {
+            return <div className="text-muted-foreground">-</div>
+          }
+
+          return (
+            <div title={`${benchmark.ticker} returned ${formatReturn(benchmarkReturn)} over this window`}
+              className={`font-medium ${alpha >= 0 ? 'text-profit-green-600' : 'text-loss-red-600'}`}>
+              {formatReturn(alpha)}
+            </div>
+          )
+        }
+      })
+    ),
+    columnHelper.accessor(row => row.blog_post_url ?? undefined, {
+      id: 'blog_post_url',
+      header: 'Write-up',
+      enableSorting: false,
       cell: info => {
-        const row = info.row.original
-        const startPrice = row.start_price
-        const endPrice = row.end_price
-        const dividends = Number(row.dividends_paid) || 0
-        
-        if (!startPrice || !endPrice || startPrice === 0) {
-          return <div className="text-muted-foreground">-</div>
+        const url = info.getValue()
+        if (!url) {
+          return <div className="text-sm text-muted-foreground">-</div>
+        }
+        // Rows from before the URL check was added may hold anything
+        if (!isValidUrl(url)) {
+          return <div className="text-sm text-muted-foreground break-all">{url}</div>
         }
-        
-        // Calculate return including dividends: ((End Price + Dividends) - Start Price) / Start Price * 100
-        const totalReturn = ((endPrice + dividends) - startPrice) / startPrice * 100
-        
         return (
-          <div className={`font-medium ${totalReturn >= 0 ? 'text-profit-green-600' : 'text-loss-red-600'}`}>
-            {totalReturn >= 0 ? '+' : ''}{totalReturn.toFixed(2)}%
-          </div>
+          <a
+            href={url}
+            target="_blank"
+            rel="noopener noreferrer"
+            title={url}
+            className="inline-flex items-center gap-1 text-sm text-finance-blue-600 dark:text-finance-blue-400 hover:underline"
+          >
+            <ExternalLink className="h-4 w-4" />
+            Read
+          </a>
         )
       }
     }),
-    columnHelper.display({
+    columnHelper.accessor(row => row.position_status ?? undefined, {
       id: 'position_status',
       header: 'Status',
+      sortUndefined: 'last',
       cell: info => {
-        const status = info.row.original.position_status
+        const status = info.getValue()
         return (
-          <span className={`px-2 py-1 rounded-full text-xs font-medium ${
-            status === 'Open' 
-              ? 'bg-profit-green-100 text-profit-green-800 dark:bg-profit-green-900 dark:text-profit-green-200' 
-              : 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200'
-          }`}>
+          <span className={`px-2 py-1 rounded-full text-xs font-medium ${positionStatusClassName(status)}`}>
             {status || '-'}
           </span>
         )
       }
     }),
-  ], [])
+    columnHelper.display({
+      id: 'actions',
+      header: '',
+      enableHiding: false,
+      cell: info => {
+        const row = info.row.original
+        return (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8 w-8 p-0 text-foreground hover:text-accent-foreground hover:bg-accent"
+            onClick={() => handleToggleExcluded(row)}
+            disabled={snapshotLocked}
+            title={row.excluded ? 'Include in snapshot' : 'Exclude from snapshot'}
+          >
+            <span className="sr-only">{row.excluded ? 'Include position' : 'Exclude position'}</span>
+            {row.excluded ? <Eye className="h-4 w-4" /> : <EyeOff className="h-4 w-4" />}
+          </Button>
+        )
+      }
+    }),
+  ], [benchmarks, snapshotLocked, handleOverride, handleToggleExcluded])
 
   const table = useReactTable({
     data: positions,
@@ -850,8 +1407,10 @@ export default function SnapshotDetail() {
     state: {
       globalFilter,
       sorting,
+      columnVisibility,
     },
     onGlobalFilterChange: setGlobalFilter,
+    onColumnVisibilityChange: setColumnVisibility,
     onSortingChange: setSorting,
   })
 
@@ -890,6 +1449,12 @@ export default function SnapshotDetail() {
     )
   }
 
+  const overallReturn = toNumber(snapshot.overall_portfolio_return_pct)
+  const status = toSnapshotStatus(snapshot.status)
+  const locked = isLocked(snapshot.status)
+  const lockedTitle = locked ? 'Finalized snapshots are locked. An admin can reopen it.' : undefined
+  const exportBaseName = `portfolio-snapshot-${snapshot.end_date || 'export'}`
+
   return (
     <ProtectedRoute allowDemo={true}>
       <Layout>
@@ -908,8 +1473,12 @@ export default function SnapshotDetail() {
 
             <div className="flex justify-between items-start">
               <div>
-                <h1 className="text-3xl font-bold text-foreground mb-2">
+                <h1 className="text-3xl font-bold text-foreground mb-2 flex items-center gap-3">
                   {snapshot.name || 'Unnamed Snapshot'}
+                  <span className={`px-2 py-1 rounded-full text-xs font-medium flex items-center gap-1 ${statusStyles[status]}`}>
+                    {locked && <Lock className="h-3 w-3" />}
+                    {SNAPSHOT_STATUS_LABELS[status]}
+                  </span>
                 </h1>
                 <div className="flex items-center gap-6 text-muted-foreground">
                   {snapshot.start_date && (
@@ -931,7 +1500,19 @@ export default function SnapshotDetail() {
               </div>
 
               <div className="flex items-center gap-2">
-                <Button variant="outline" onClick={handleEditSnapshot} className="flex items-center gap-2">
+                {availableTransitions(status, isAdmin).map(transition => (
+                  <Button
+                    key={transition.to}
+                    variant={transition.to === 'finalized' ? 'default' : 'outline'}
+                    onClick={() => handleStatusChange(transition.to)}
+                    disabled={isChangingStatus || !user}
+                    className="flex items-center gap-2"
+                  >
+                    {transition.to === 'finalized' && <Lock className="h-4 w-4" />}
+                    {transition.label}
+                  </Button>
+                ))}
+                <Button variant="outline" onClick={handleEditSnapshot} disabled={locked} title={lockedTitle} className="flex items-center gap-2">
                   <Edit3 className="h-4 w-4" />
                   Edit
                 </Button>
@@ -939,27 +1520,55 @@ export default function SnapshotDetail() {
                   <Download className="h-4 w-4" />
                   Export
                 </Button>
-                <Button 
-                  variant="outline" 
-                  onClick={handleFetchPrices}
-                  disabled={isFetchingPrices}
-                  className="flex items-center gap-2"
-                >
-                  <RefreshCw className={`h-4 w-4 ${isFetchingPrices ? 'animate-spin' : ''}`} />
-                  {isFetchingPrices ? 'Fetching...' : 'Fetch Prices'}
-                </Button>
-                <Button 
-                  variant="outline" 
-                  onClick={handleFetchDividends}
-                  disabled={isFetchingDividends}
-                  className="flex items-center gap-2"
-                >
-                  <DollarSign className={`h-4 w-4 ${isFetchingDividends ? 'animate-spin' : ''}`} />
-                  {isFetchingDividends ? 'Fetching...' : 'Fetch Dividends'}
-                </Button>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      variant="outline"
+                      disabled={isFetchingPrices || locked || !isAdmin}
+                      title={lockedTitle ?? (isAdmin ? undefined : 'Only an admin can fetch prices')}
+                      className="flex items-center gap-2"
+                    >
+                      <RefreshCw className={`h-4 w-4 ${isFetchingPrices ? 'animate-spin' : ''}`} />
+                      {isFetchingPrices ? 'Fetching...' : 'Fetch Prices'}
+                      <ChevronDown className="h-4 w-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem onClick={handleFetchPrices}>
+                      Fetch from Backend
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={handleRefreshPrices}>
+                      Refresh from Market Data
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      variant="outline"
+                      disabled={isFetchingDividends || locked}
+                      title={lockedTitle}
+                      className="flex items-center gap-2"
+                    >
+                      <DollarSign className={`h-4 w-4 ${isFetchingDividends ? 'animate-spin' : ''}`} />
+                      {isFetchingDividends ? 'Fetching...' : 'Dividends'}
+                      <ChevronDown className="h-4 w-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem onClick={handleFetchDividends}>
+                      Fetch from Market Data
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={handleRecomputeDividends}>
+                      Recompute from Ledger
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
                 <Button 
                   variant="destructive" 
                   onClick={handleDeleteSnapshot}
+                  disabled={locked || !isAdmin}
+                  title={lockedTitle ?? (isAdmin ? undefined : 'Only an admin can delete snapshots')}
                   className="flex items-center gap-2"
                 >
                   <Trash2 className="h-4 w-4" />
@@ -970,7 +1579,32 @@ export default function SnapshotDetail() {
           </div>
 
           {/* Summary Cards */}
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mb-8">
+            <div className="bg-card rounded-lg border border-border p-6">
+              <div className="flex items-center">
+                <PieChart className="w-8 h-8 text-finance-blue-600 dark:text-finance-blue-400" />
+                <div className="ml-4">
+                  <p className="text-sm font-medium text-muted-foreground">Portfolio Return</p>
+                  <p className={`text-2xl font-bold ${overallReturn === null ? 'text-foreground' : overallReturn >= 0 ? 'text-profit-green-600' : 'text-loss-red-600'}`}>
+                    {formatReturn(overallReturn)}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {WEIGHTING_METHODS.find(m => m.value === snapshot.weighting_method)?.label || 'Equal weight'}
+                  </p>
+                  {snapshot.overall_return_stale && (
+                    <button
+                      onClick={() => updatePortfolioReturn(snapshot.id)}
+                      disabled={isRecalculating || locked}
+                      className="flex items-center gap-1 text-xs text-loss-red-600 hover:underline mt-1"
+                    >
+                      <AlertTriangle className="h-3 w-3" />
+                      {isRecalculating ? 'Recalculating...' : 'Stale - positions changed. Recalculate'}
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+
             <div className="bg-card rounded-lg border border-border p-6">
               <div className="flex items-center">
                 <Users className="w-8 h-8 text-finance-blue-600 dark:text-finance-blue-400" />
@@ -1010,13 +1644,69 @@ export default function SnapshotDetail() {
                 </div>
               </div>
             </div>
+
+            <div className="bg-card rounded-lg border border-border p-6">
+              <div className="flex items-center">
+                <Percent className="w-8 h-8 text-finance-blue-600 dark:text-finance-blue-400" />
+                <div className="ml-4">
+                  <p className="text-sm font-medium text-muted-foreground">Average Return</p>
+                  <p className={`text-2xl font-bold ${(summaryStats.averageReturn ?? 0) >= 0 ? 'text-profit-green-600' : 'text-loss-red-600'}`}>
+                    {formatReturn(summaryStats.averageReturn)}
+                  </p>
+                </div>
+              </div>
+            </div>
+
+            <div className="bg-card rounded-lg border border-border p-6">
+              <div className="flex items-center">
+                <Clock className="w-8 h-8 text-finance-blue-600 dark:text-finance-blue-400" />
+                <div className="ml-4">
+                  <p className="text-sm font-medium text-muted-foreground">Average Annualized Return</p>
+                  <p className={`text-2xl font-bold ${(summaryStats.averageAnnualizedReturn ?? 0) >= 0 ? 'text-profit-green-600' : 'text-loss-red-600'}`}>
+                    {formatReturn(summaryStats.averageAnnualizedReturn)}
+                  </p>
+                </div>
+              </div>
+            </div>
+
+            {benchmarkStats.map(stat => (
+              <div key={stat.ticker} className="bg-card rounded-lg border border-border p-6">
+                <div className="flex items-center">
+                  <BarChart3 className="w-8 h-8 text-finance-blue-600 dark:text-finance-blue-400" />
+                  <div className="ml-4">
+                    <p className="text-sm font-medium text-muted-foreground">Excess Return vs {stat.ticker}</p>
+                    <p className={`text-2xl font-bold ${(stat.averageExcessReturn ?? 0) >= 0 ? 'text-profit-green-600' : 'text-loss-red-600'}`}>
+                      {formatReturn(stat.averageExcessReturn)}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {stat.ticker} average: {formatReturn(stat.averageBenchmarkReturn)}
+                    </p>
+                  </div>
+                </div>
+              </div>
+            ))}
           </div>
 
+          {/* Return Distribution */}
+          {summaryStats.averageReturn !== null && (
+            <div className="bg-card rounded-lg border border-border p-6 mb-8">
+              <h2 className="text-xl font-semibold text-foreground mb-4">Return Distribution</h2>
+              <ThemedChart options={histogramOptions} height={280} />
+            </div>
+          )}
+
           {/* Positions Table */}
           <div className="bg-card rounded-lg border border-border">
             <div className="p-6 border-b border-border">
               <div className="flex justify-between items-center">
-                <h2 className="text-xl font-semibold text-foreground">Portfolio Positions</h2>
+                <h2 className="text-xl font-semibold text-foreground">
+                  Portfolio Positions
+                  {positions.length > includedPositions.length && (
+                    <span className="ml-2 text-sm font-normal text-muted-foreground">
+                      ({positions.length - includedPositions.length} excluded)
+                    </span>
+                  )}
+                </h2>
                 <div className="flex items-center gap-4">
                   <Input
                     placeholder="Search positions..."
@@ -1024,6 +1714,23 @@ export default function SnapshotDetail() {
                     onChange={(e) => setGlobalFilter(e.target.value)}
                     className="w-64"
                   />
+                  <ColumnsMenu table={table} />
+                  <ExportMenu
+                    table={table}
+                    fileName={exportBaseName}
+                    sheetName={snapshot.name}
+                    includeRow={row => !row.original.excluded}
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={handleOpenAddPosition}
+                    disabled={snapshotLocked}
+                    title={snapshotLocked ? 'Finalized snapshots are locked. An admin can reopen it.' : undefined}
+                    className="flex items-center gap-2"
+                  >
+                    <Plus className="h-4 w-4" />
+                    Add Position
+                  </Button>
                 </div>
               </div>
             </div>
@@ -1070,7 +1777,7 @@ export default function SnapshotDetail() {
                 </TableHeader>
                 <TableBody>
                   {table.getRowModel().rows.map(row => (
-                    <TableRow key={row.id}>
+                    <TableRow key={row.id} className={row.original.excluded ? 'opacity-50' : undefined}>
                       {row.getVisibleCells().map(cell => (
                         <TableCell key={cell.id}>
                           {flexRender(cell.column.columnDef.cell, cell.getContext())}
@@ -1082,8 +1789,116 @@ export default function SnapshotDetail() {
               </Table>
             )}
           </div>
+
+          {/* Status and change history */}
+          <div className="bg-card rounded-lg border border-border p-6 mt-8">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-semibold text-foreground flex items-center gap-2">
+                <History className="h-5 w-5" />
+                History
+              </h2>
+              {/* Only admins can read the audit log */}
+              {isAdmin && (
+                <div className="flex gap-2">
+                  {([['status', 'Status'], ['changes', 'Changes']] as const).map(([tab, label]) => (
+                    <Button
+                      key={tab}
+                      variant={historyTab === tab ? 'default' : 'outline'}
+                      size="sm"
+                      onClick={() => setHistoryTab(tab)}
+                    >
+                      {label}
+                    </Button>
+                  ))}
+                </div>
+              )}
+            </div>
+            {isAdmin && historyTab === 'changes' ? (
+              <AuditHistory snapshotId={snapshot.id} />
+            ) : statusHistory.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No status changes yet.</p>
+            ) : (
+              <ul className="space-y-2">
+                {statusHistory.map(change => (
+                  <li key={change.id} className="flex items-center justify-between text-sm">
+                    <span className="text-foreground">
+                      {change.from_status ? SNAPSHOT_STATUS_LABELS[toSnapshotStatus(change.from_status)] : 'New'}
+                      {' → '}
+                      {SNAPSHOT_STATUS_LABELS[toSnapshotStatus(change.to_status)]}
+                    </span>
+                    <span className="text-muted-foreground">
+                      {change.changed_by_name} · {new Date(change.changed_at).toLocaleString()}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
         </div>
 
+        {/* Add Position Modal */}
+        <Dialog open={isAddPositionOpen} onOpenChange={setIsAddPositionOpen}>
+          <DialogContent className="sm:max-w-[500px]">
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                <Plus className="w-5 h-5" />
+                Add Position
+              </DialogTitle>
+            </DialogHeader>
+
+            <div className="grid gap-4 py-4">
+              {candidatePositions.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  Every position held during this snapshot is already included.
+                </p>
+              ) : (
+                <>
+                  <div>
+                    <label htmlFor="position_id" className="block text-sm font-medium text-foreground mb-1">
+                      Position
+                    </label>
+                    <select
+                      id="position_id"
+                      value={selectedPositionId}
+                      onChange={(e) => setSelectedPositionId(e.target.value)}
+                      className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                    >
+                      {candidatePositions.map(p => (
+                        <option key={p.id} value={p.id}>
+                          {p.ticker}{p.company_name ? ` - ${p.company_name}` : ''} ({p.start_date} to {p.end_date || 'open'})
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+
+                  {(() => {
+                    const selected = candidatePositions.find(p => p.id === selectedPositionId)
+                    if (!selected || !snapshot.end_date) return null
+                    const { start, end } = clipToWindow(selected, { start_date: snapshot.start_date, end_date: snapshot.end_date })
+                    return (
+                      <div className="bg-muted/50 rounded-lg p-4 border border-border text-sm text-muted-foreground">
+                        <div className="flex items-center">
+                          <Calendar className="w-4 h-4 mr-2" />
+                          Included from {new Date(start).toLocaleDateString()} to {new Date(end).toLocaleDateString()}
+                        </div>
+                      </div>
+                    )
+                  })()}
+                </>
+              )}
+            </div>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setIsAddPositionOpen(false)}>
+                Cancel
+              </Button>
+              <Button onClick={handleAddPosition} disabled={isAddingPosition || !selectedPositionId}>
+                {isAddingPosition ? 'Adding...' : 'Add Position'}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
         {/* Edit Snapshot Modal */}
         <Dialog open={isEditModalOpen} onOpenChange={setIsEditModalOpen}>
           <DialogContent className="sm:max-w-[500px]">
@@ -1142,6 +1957,34 @@ export default function SnapshotDetail() {
                   placeholder="Quarterly portfolio snapshot"
                 />
               </div>
+
+              <div>
+                <label htmlFor="weighting_method" className="block text-sm font-medium text-foreground mb-1">
+                  Portfolio Return Weighting
+                </label>
+                <select
+                  id="weighting_method"
+                  value={editForm.weighting_method}
+                  onChange={(e) => setEditForm({...editForm, weighting_method: e.target.value as WeightingMethod})}
+                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                >
+                  {WEIGHTING_METHODS.map(method => (
+                    <option key={method.value} value={method.value}>{method.label}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label htmlFor="benchmarks" className="block text-sm font-medium text-foreground mb-1">
+                  Benchmarks
+                </label>
+                <Input
+                  id="benchmarks"
+                  value={editForm.benchmarks}
+                  onChange={(e) => setEditForm({...editForm, benchmarks: e.target.value})}
+                  placeholder="IWM, SPY"
+                />
+              </div>
             </div>
 
             <DialogFooter>
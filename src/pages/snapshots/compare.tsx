@@ -0,0 +1,472 @@
+import { useEffect, useRef, useState, useMemo } from 'react'
+import { useRouter } from 'next/router'
+import Link from 'next/link'
+import Layout from '@/components/Layout'
+import ProtectedRoute from '@/components/ProtectedRoute'
+import {
+  useReactTable,
+  getCoreRowModel,
+  getFilteredRowModel,
+  getSortedRowModel,
+  flexRender,
+  createColumnHelper
+} from '@tanstack/react-table'
+import { ChevronDown, ChevronUp, GitCompare, Plus, Minus, XCircle, Repeat, Download, Filter } from 'lucide-react'
+import { supabase } from '@/utils/supabase'
+import { compareSnapshotPositions, type ComparablePosition, type PositionChange, type PositionComparison } from '@/lib/snapshots/compare'
+import { effectiveDividends, effectivePrice, formatReturn, toNumber } from '@/lib/returns'
+import { toCsv } from '@/lib/csv'
+import { downloadFile } from '@/lib/download'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table'
+import { Button } from '@/components/ui/button'
+
+interface Snapshot {
+  id: string
+  name: string | null
+  start_date: string | null
+  end_date: string | null
+}
+
+const columnHelper = createColumnHelper<PositionComparison>()
+
+const changeStyles: Record<PositionChange, string> = {
+  added: 'bg-profit-green-100 text-profit-green-800 dark:bg-profit-green-900 dark:text-profit-green-200',
+  removed: 'bg-destructive/10 text-destructive',
+  closed: 'bg-muted text-muted-foreground',
+  held: 'bg-finance-blue-100 text-finance-blue-800 dark:bg-finance-blue-900 dark:text-finance-blue-200',
+}
+
+const snapshotLabel = (snapshot: Snapshot | undefined) => {
+  if (!snapshot) return '-'
+  return snapshot.name || (snapshot.end_date ? new Date(snapshot.end_date).toLocaleDateString() : 'Untitled')
+}
+
+const formatPrice = (value: number | null | undefined) => {
+  const n = toNumber(value)
+  return n === null ? '-' : `$${n.toFixed(2)}`
+}
+
+// Overrides on the snapshot row win over the fetched price
+const endPrice = (row: ComparablePosition | null) =>
+  row ? effectivePrice(row.end_price, row.end_price_override) : null
+
+const formatSigned = (value: number | null, prefix = '') => {
+  if (value === null) return '-'
+  return `${value >= 0 ? '+' : '-'}${prefix}${Math.abs(value).toFixed(2)}`
+}
+
+const DeltaCell = ({ value, children }: { value: number | null, children: React.ReactNode }) => (
+  <div className={value === null ? 'text-muted-foreground' : value >= 0 ? 'text-profit-green-600' : 'text-loss-red-600'}>
+    {children}
+  </div>
+)
+
+export default function CompareSnapshots() {
+  const router = useRouter()
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([])
+  const [comparison, setComparison] = useState<PositionComparison[]>([])
+  const [loading, setLoading] = useState(true)
+  const [comparing, setComparing] = useState(false)
+  const [changeFilter, setChangeFilter] = useState<'all' | PositionChange>('all')
+  const [sorting, setSorting] = useState([{ id: 'ticker', desc: false }])
+
+  const a = typeof router.query.a === 'string' ? router.query.a : ''
+  const b = typeof router.query.b === 'string' ? router.query.b : ''
+
+  const { isReady, replace } = router
+  const defaulted = useRef(false)
+
+  useEffect(() => {
+    const fetchSnapshots = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('snapshots')
+          .select('id, name, start_date, end_date')
+          .order('end_date', { ascending: false })
+
+        if (error) {
+          console.error('Error fetching snapshots:', error)
+          return
+        }
+
+        setSnapshots(data || [])
+      } catch (error) {
+        console.error('Error fetching snapshots:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchSnapshots()
+  }, [])
+
+  // Once the list is in, default to the two most recent when nothing is selected. Only on
+  // first load, so clearing a selection afterwards sticks.
+  useEffect(() => {
+    if (!isReady || defaulted.current || snapshots.length === 0) return
+    defaulted.current = true
+
+    if ((!a || !b) && snapshots.length >= 2) {
+      replace({ pathname: '/snapshots/compare', query: { a: a || snapshots[1].id, b: b || snapshots[0].id } }, undefined, { shallow: true })
+    }
+  }, [isReady, replace, snapshots, a, b])
+
+  useEffect(() => {
+    if (!a || !b) return
+
+    const fetchComparison = async () => {
+      setComparing(true)
+      try {
+        const { data, error } = await supabase
+          .from('snapshot_positions')
+          .select('*')
+          .in('snapshot_id', [a, b])
+          .eq('excluded', false)
+
+        if (error) {
+          console.error('Error fetching snapshot positions:', error)
+          return
+        }
+
+        const rows = data || []
+        setComparison(compareSnapshotPositions(
+          rows.filter(row => row.snapshot_id === a),
+          rows.filter(row => row.snapshot_id === b)
+        ))
+      } catch (error) {
+        console.error('Error comparing snapshots:', error)
+      } finally {
+        setComparing(false)
+      }
+    }
+
+    fetchComparison()
+  }, [a, b])
+
+  const handleSelect = (key: 'a' | 'b', value: string) => {
+    router.push({ pathname: '/snapshots/compare', query: { a, b, [key]: value } }, undefined, { shallow: true })
+  }
+
+  const counts = useMemo(() => comparison.reduce((acc, row) => {
+    acc[row.change]++
+    return acc
+  }, { added: 0, removed: 0, closed: 0, held: 0 } as Record<PositionChange, number>), [comparison])
+
+  const filteredComparison = useMemo(() => (
+    changeFilter === 'all' ? comparison : comparison.filter(row => row.change === changeFilter)
+  ), [comparison, changeFilter])
+
+  const snapshotA = snapshots.find(s => s.id === a)
+  const snapshotB = snapshots.find(s => s.id === b)
+
+  const handleExport = () => {
+    const header = [
+      'Ticker', 'Company', 'Change',
+      'End Price A', 'End Price B', 'End Price Change',
+      'Return % A', 'Return % B', 'Return Change (pts)',
+      'Dividends A', 'Dividends B', 'Dividends Change',
+    ]
+    const fixed = (value: number | null | undefined) => {
+      const n = toNumber(value)
+      return n === null ? '' : n.toFixed(2)
+    }
+    const rows = filteredComparison.map(row => [
+      row.ticker,
+      row.company_name ?? '',
+      row.change,
+      fixed(endPrice(row.a)), fixed(endPrice(row.b)), fixed(row.endPriceDelta),
+      fixed(row.returnA), fixed(row.returnB), fixed(row.returnDelta),
+      fixed(row.a && effectiveDividends(row.a)), fixed(row.b && effectiveDividends(row.b)), fixed(row.dividendsDelta),
+    ])
+    const fileName = `snapshot-comparison-${snapshotA?.end_date || 'a'}-vs-${snapshotB?.end_date || 'b'}.csv`
+    downloadFile(toCsv(header, rows), fileName, 'text/csv')
+  }
+
+  const columns = useMemo(() => [
+    columnHelper.accessor('ticker', {
+      header: 'Ticker',
+      cell: info => (
+        <div className="font-semibold text-foreground">
+          {info.getValue()}
+        </div>
+      )
+    }),
+    columnHelper.accessor('company_name', {
+      header: 'Company',
+      cell: info => (
+        <div className="text-muted-foreground">
+          {info.getValue() || '-'}
+        </div>
+      )
+    }),
+    columnHelper.accessor('change', {
+      header: 'Change',
+      cell: info => (
+        <span className={`px-2 py-1 rounded-full text-xs font-medium capitalize ${changeStyles[info.getValue()]}`}>
+          {info.getValue()}
+        </span>
+      )
+    }),
+    columnHelper.accessor(row => endPrice(row.a) ?? undefined, {
+      id: 'end_price_a',
+      header: 'End Price A',
+      sortUndefined: 'last',
+      cell: info => <div className="text-foreground">{formatPrice(info.getValue())}</div>
+    }),
+    columnHelper.accessor(row => endPrice(row.b) ?? undefined, {
+      id: 'end_price_b',
+      header: 'End Price B',
+      sortUndefined: 'last',
+      cell: info => <div className="text-foreground">{formatPrice(info.getValue())}</div>
+    }),
+    columnHelper.accessor(row => row.endPriceDelta ?? undefined, {
+      id: 'end_price_delta',
+      header: 'Price Δ',
+      sortUndefined: 'last',
+      cell: info => {
+        const value = info.getValue() ?? null
+        return <DeltaCell value={value}>{formatSigned(value, '$')}</DeltaCell>
+      }
+    }),
+    columnHelper.accessor(row => row.returnA ?? undefined, {
+      id: 'return_a',
+      header: 'Return % A',
+      sortUndefined: 'last',
+      cell: info => <div className="text-foreground">{formatReturn(info.getValue() ?? null)}</div>
+    }),
+    columnHelper.accessor(row => row.returnB ?? undefined, {
+      id: 'return_b',
+      header: 'Return % B',
+      sortUndefined: 'last',
+      cell: info => <div className="text-foreground">{formatReturn(info.getValue() ?? null)}</div>
+    }),
+    columnHelper.accessor(row => row.returnDelta ?? undefined, {
+      id: 'return_delta',
+      header: 'Return Δ (pts)',
+      sortUndefined: 'last',
+      cell: info => {
+        const value = info.getValue() ?? null
+        return <DeltaCell value={value}>{formatSigned(value)}</DeltaCell>
+      }
+    }),
+    columnHelper.accessor(row => row.dividendsDelta ?? undefined, {
+      id: 'dividends_delta',
+      header: 'Dividends Δ',
+      sortUndefined: 'last',
+      cell: info => {
+        const value = info.getValue() ?? null
+        return <DeltaCell value={value}>{formatSigned(value, '$')}</DeltaCell>
+      }
+    }),
+  ], [])
+
+  const table = useReactTable({
+    data: filteredComparison,
+    columns,
+    getCoreRowModel: getCoreRowModel(),
+    getFilteredRowModel: getFilteredRowModel(),
+    getSortedRowModel: getSortedRowModel(),
+    state: {
+      sorting,
+    },
+    onSortingChange: setSorting,
+  })
+
+  if (loading) {
+    return (
+      <ProtectedRoute allowDemo={true}>
+        <Layout>
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+            <div className="flex items-center justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-finance-blue-500"></div>
+            </div>
+          </div>
+        </Layout>
+      </ProtectedRoute>
+    )
+  }
+
+  const selectClassName = "flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+
+  return (
+    <ProtectedRoute allowDemo={true}>
+      <Layout>
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {/* Header */}
+          <div className="mb-8">
+            <div className="flex items-center gap-2 text-sm text-muted-foreground mb-4">
+              <Link href="/snapshots" className="hover:text-foreground transition-colors">
+                Snapshots
+              </Link>
+              <span>/</span>
+              <span className="text-foreground">Compare</span>
+            </div>
+
+            <div className="flex justify-between items-start">
+              <div>
+                <h1 className="text-3xl font-bold text-foreground flex items-center">
+                  <GitCompare className="w-8 h-8 mr-3 text-finance-blue-600 dark:text-finance-blue-400" />
+                  Compare Snapshots
+                </h1>
+                <p className="text-muted-foreground mt-2">
+                  See what changed between {snapshotLabel(snapshotA)} and {snapshotLabel(snapshotB)}
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                onClick={handleExport}
+                disabled={filteredComparison.length === 0}
+                className="flex items-center gap-2"
+              >
+                <Download className="h-4 w-4" />
+                Export CSV
+              </Button>
+            </div>
+          </div>
+
+          {/* Snapshot pickers */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-8">
+            <div>
+              <label htmlFor="snapshot_a" className="block text-sm font-medium text-foreground mb-1">
+                Snapshot A (earlier)
+              </label>
+              <select id="snapshot_a" value={a} onChange={(e) => handleSelect('a', e.target.value)} className={selectClassName}>
+                <option value="">Select a snapshot</option>
+                {snapshots.map(s => (
+                  <option key={s.id} value={s.id}>{snapshotLabel(s)}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="snapshot_b" className="block text-sm font-medium text-foreground mb-1">
+                Snapshot B (later)
+              </label>
+              <select id="snapshot_b" value={b} onChange={(e) => handleSelect('b', e.target.value)} className={selectClassName}>
+                <option value="">Select a snapshot</option>
+                {snapshots.map(s => (
+                  <option key={s.id} value={s.id}>{snapshotLabel(s)}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {/* Summary Cards */}
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+            {([
+              { key: 'added', label: 'Added', icon: Plus, color: 'text-profit-green-600 dark:text-profit-green-400' },
+              { key: 'removed', label: 'Removed', icon: Minus, color: 'text-loss-red-600 dark:text-loss-red-400' },
+              { key: 'closed', label: 'Closed', icon: XCircle, color: 'text-muted-foreground' },
+              { key: 'held', label: 'Held', icon: Repeat, color: 'text-finance-blue-600 dark:text-finance-blue-400' },
+            ] as const).map(card => {
+              const Icon = card.icon
+              return (
+                <div key={card.key} className="bg-card rounded-lg border border-border p-6">
+                  <div className="flex items-center">
+                    <Icon className={`w-8 h-8 ${card.color}`} />
+                    <div className="ml-4">
+                      <p className="text-sm font-medium text-muted-foreground">{card.label}</p>
+                      <p className="text-2xl font-bold text-foreground">{counts[card.key]}</p>
+                    </div>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+
+          {/* Filters */}
+          <div className="mb-6">
+            <div className="flex items-center space-x-4">
+              <div className="flex items-center space-x-2">
+                <Filter className="w-4 h-4 text-muted-foreground" />
+                <span className="text-sm font-medium text-muted-foreground">Filter by change:</span>
+              </div>
+              <div className="flex space-x-2">
+                {(['all', 'added', 'removed', 'closed', 'held'] as const).map((filter) => (
+                  <Button
+                    key={filter}
+                    variant={changeFilter === filter ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => setChangeFilter(filter)}
+                  >
+                    {filter.charAt(0).toUpperCase() + filter.slice(1)}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {/* Table */}
+          <div className="bg-card rounded-lg border border-border">
+            {comparing ? (
+              <div className="flex items-center justify-center py-12">
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-finance-blue-500"></div>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  {table.getHeaderGroups().map(headerGroup => (
+                    <TableRow key={headerGroup.id}>
+                      {headerGroup.headers.map(header => (
+                        <TableHead
+                          key={header.id}
+                          className="cursor-pointer hover:bg-muted/50 transition-colors"
+                          onClick={header.column.getToggleSortingHandler()}
+                        >
+                          <div className="flex items-center space-x-1">
+                            <span>
+                              {header.isPlaceholder
+                                ? null
+                                : flexRender(header.column.columnDef.header, header.getContext())
+                              }
+                            </span>
+                            {header.column.getCanSort() && (
+                              <span className="ml-1">
+                                {{
+                                  asc: <ChevronUp className="w-4 h-4" />,
+                                  desc: <ChevronDown className="w-4 h-4" />,
+                                }[header.column.getIsSorted() as string] ?? <ChevronDown className="w-4 h-4 opacity-50" />}
+                              </span>
+                            )}
+                          </div>
+                        </TableHead>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableHeader>
+                <TableBody>
+                  {table.getRowModel().rows.length === 0 ? (
+                    <TableRow>
+                      <TableCell
+                        colSpan={columns.length}
+                        className="h-24 text-center text-muted-foreground"
+                      >
+                        {a && b ? 'No positions to compare.' : 'Select two snapshots to compare.'}
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    table.getRowModel().rows.map(row => (
+                      <TableRow key={row.id}>
+                        {row.getVisibleCells().map(cell => (
+                          <TableCell key={cell.id}>
+                            {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        </div>
+      </Layout>
+    </ProtectedRoute>
+  )
+}
@@ -1,5 +1,6 @@
 import { useEffect, useState, useMemo, useCallback } from 'react'
 import { useRouter } from 'next/router'
+import Link from 'next/link'
 import Layout from '@/components/Layout'
 import ProtectedRoute from '@/components/ProtectedRoute'
 import { 
@@ -10,8 +11,14 @@ import {
   flexRender,
   createColumnHelper
 } from '@tanstack/react-table'
-import { ChevronDown, ChevronUp, Camera, Calendar, TrendingUp, Eye, Trash2, Plus, Edit3 } from 'lucide-react'
+import { ChevronDown, ChevronUp, Camera, Calendar, TrendingUp, Eye, Trash2, Plus, Edit3, GitCompare, AlertTriangle } from 'lucide-react'
 import { supabase } from '@/utils/supabase'
+import { useAuth } from '@/contexts/AuthContext'
+import { createSnapshot, recalculatePortfolioReturn } from '@/lib/api/client'
+import type { CreateSnapshotRequest } from '@/lib/api/types'
+import { formatReturn, toNumber } from '@/lib/returns'
+import { WEIGHTING_METHODS, type WeightingMethod } from '@/lib/snapshots/portfolioReturn'
+import { SNAPSHOT_STATUS_LABELS, isLocked, toSnapshotStatus, type SnapshotStatus } from '@/lib/snapshots/status'
 import {
   Table,
   TableBody,
@@ -38,6 +45,8 @@ interface Snapshot {
   notes: string | null
   status: string
   overall_portfolio_return_pct: number | null
+  weighting_method: WeightingMethod
+  overall_return_stale: boolean
   created_at: string
   updated_at: string
 }
@@ -45,7 +54,14 @@ interface Snapshot {
 
 const columnHelper = createColumnHelper<Snapshot>()
 
+const statusStyles: Record<SnapshotStatus, string> = {
+  pending: 'bg-muted text-muted-foreground',
+  priced: 'bg-finance-blue-100 text-finance-blue-800 dark:bg-finance-blue-900 dark:text-finance-blue-200',
+  finalized: 'bg-profit-green-100 text-profit-green-800 dark:bg-profit-green-900 dark:text-profit-green-200',
+}
+
 export default function Snapshots() {
+  const { isAdmin } = useAuth()
   const router = useRouter()
   const [snapshots, setSnapshots] = useState<Snapshot[]>([])
   const [loading, setLoading] = useState(true)
@@ -58,6 +74,7 @@ export default function Snapshots() {
     start_date: '',
     end_date: '',
     notes: '',
+    weighting_method: 'equal' as WeightingMethod,
   })
 
   // Fetch snapshots from Supabase
@@ -97,6 +114,7 @@ export default function Snapshots() {
       start_date: snapshot.start_date || '',
       end_date: snapshot.end_date || '',
       notes: snapshot.notes || '',
+      weighting_method: snapshot.weighting_method || 'equal',
     })
     setIsModalOpen(true)
   }
@@ -115,6 +133,7 @@ export default function Snapshots() {
       start_date: '2024-08-05',
       end_date: lastDayPrevMonth,
       notes: '',
+      weighting_method: 'equal',
     })
     setIsModalOpen(true)
   }
@@ -127,44 +146,22 @@ export default function Snapshots() {
         start_date: editForm.start_date || null,
         end_date: editForm.end_date || null,
         notes: editForm.notes || null,
+        weighting_method: editForm.weighting_method,
       }
 
       if (isAddMode) {
-        // Call FastAPI endpoint to create snapshot with positions
-        const requestBody = {
+        // Build the snapshot and its positions natively from the positions table
+        const requestBody: CreateSnapshotRequest = {
           end_date: editForm.end_date,
           ...(editForm.start_date && { start_date: editForm.start_date }),
-          ...(editForm.notes && { notes: editForm.notes })
+          ...(editForm.name && { name: editForm.name }),
+          ...(editForm.notes && { notes: editForm.notes }),
+          weighting_method: editForm.weighting_method
         }
 
-        const response = await fetch('http://localhost:4021/snapshots/create', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(requestBody)
-        })
-
-        if (!response.ok) {
-          const errorData = await response.text()
-          throw new Error(`HTTP error! status: ${response.status}, message: ${errorData}`)
-        }
-
-        const result = await response.json()
+        const result = await createSnapshot(requestBody)
         console.log('Snapshot created:', result)
 
-        // After FastAPI creates the snapshot, update the name if provided
-        if (editForm.name && result.snapshot_id) {
-          const { error: updateError } = await supabase
-            .from('snapshots')
-            .update({ name: editForm.name })
-            .eq('id', result.snapshot_id)
-
-          if (updateError) {
-            console.error('Error updating snapshot name:', updateError)
-          }
-        }
-
         // Refresh the snapshots list
         const { data: refreshedSnapshots, error: fetchError } = await supabase
           .from('snapshots')
@@ -197,6 +194,16 @@ export default function Snapshots() {
             ? { ...snap, ...updateData }
             : snap
         ))
+
+        // A new weighting method changes the stored overall return
+        if (editForm.weighting_method !== editingSnapshot.weighting_method) {
+          const result = await recalculatePortfolioReturn(editingSnapshot.id)
+          setSnapshots(prev => prev.map(snap =>
+            snap.id === editingSnapshot.id
+              ? { ...snap, overall_portfolio_return_pct: result.overall_portfolio_return_pct, overall_return_stale: false }
+              : snap
+          ))
+        }
       }
 
       setIsModalOpen(false)
@@ -258,6 +265,37 @@ export default function Snapshots() {
         </div>
       )
     }),
+    columnHelper.accessor('status', {
+      header: 'Status',
+      cell: info => {
+        const status = toSnapshotStatus(info.getValue())
+        return (
+          <span className={`px-2 py-1 rounded-full text-xs font-medium ${statusStyles[status]}`}>
+            {SNAPSHOT_STATUS_LABELS[status]}
+          </span>
+        )
+      }
+    }),
+    columnHelper.accessor(row => toNumber(row.overall_portfolio_return_pct) ?? undefined, {
+      id: 'overall_portfolio_return_pct',
+      header: 'Portfolio Return',
+      sortUndefined: 'last',
+      cell: info => {
+        const value = info.getValue() ?? null
+        return (
+          <div className="flex items-center gap-1 text-sm">
+            <span className={value === null ? 'text-muted-foreground' : value >= 0 ? 'text-profit-green-600' : 'text-loss-red-600'}>
+              {formatReturn(value)}
+            </span>
+            {info.row.original.overall_return_stale && (
+              <span title="Positions changed since this was computed">
+                <AlertTriangle className="h-3 w-3 text-loss-red-600" />
+              </span>
+            )}
+          </div>
+        )
+      }
+    }),
     columnHelper.display({
       id: 'actions',
       header: 'Actions',
@@ -277,6 +315,7 @@ export default function Snapshots() {
             size="sm" 
             className="h-8 w-8 p-0 text-foreground hover:text-accent-foreground hover:bg-accent"
             onClick={() => handleEditSnapshot(info.row.original)}
+            disabled={isLocked(info.row.original.status)}
           >
             <span className="sr-only">Edit snapshot</span>
             <Edit3 className="h-4 w-4" />
@@ -286,6 +325,8 @@ export default function Snapshots() {
             size="sm" 
             className="h-8 w-8 p-0 text-destructive hover:text-destructive-foreground hover:bg-destructive"
             onClick={() => handleDeleteSnapshot(info.row.original)}
+            disabled={!isAdmin || isLocked(info.row.original.status)}
+            title={isAdmin ? undefined : 'Only an admin can delete snapshots'}
           >
             <span className="sr-only">Delete snapshot</span>
             <Trash2 className="h-4 w-4" />
@@ -293,7 +334,7 @@ export default function Snapshots() {
         </div>
       )
     }),
-  ], [handleViewSnapshot])
+  ], [handleViewSnapshot, isAdmin])
 
   const table = useReactTable({
     data: snapshots,
@@ -333,10 +374,18 @@ export default function Snapshots() {
                   Capture and compare your portfolio performance over time
                 </p>
               </div>
-              <Button onClick={handleAddSnapshot} className="flex items-center gap-2">
-                <Plus className="h-4 w-4" />
-                Add Snapshot
-              </Button>
+              <div className="flex items-center gap-2">
+                <Link href="/snapshots/compare">
+                  <Button variant="outline" className="flex items-center gap-2" disabled={snapshots.length < 2}>
+                    <GitCompare className="h-4 w-4" />
+                    Compare
+                  </Button>
+                </Link>
+                <Button onClick={handleAddSnapshot} className="flex items-center gap-2">
+                  <Plus className="h-4 w-4" />
+                  Add Snapshot
+                </Button>
+              </div>
             </div>
           </div>
 
@@ -373,8 +422,8 @@ export default function Snapshots() {
                 <div className="ml-4">
                   <p className="text-sm font-medium text-muted-foreground">Latest Return</p>
                   <p className="text-2xl font-bold text-foreground">
-                    {snapshots.length > 0 && snapshots[0].overall_portfolio_return_pct !== null
-                      ? `${snapshots[0].overall_portfolio_return_pct.toFixed(2)}%`
+                    {snapshots.length > 0
+                      ? formatReturn(toNumber(snapshots[0].overall_portfolio_return_pct))
                       : '-'
                     }
                   </p>
@@ -509,6 +558,22 @@ export default function Snapshots() {
                 />
               </div>
 
+              <div>
+                <label htmlFor="weighting_method" className="block text-sm font-medium text-foreground mb-1">
+                  Portfolio Return Weighting
+                </label>
+                <select
+                  id="weighting_method"
+                  value={editForm.weighting_method}
+                  onChange={(e) => setEditForm({...editForm, weighting_method: e.target.value as WeightingMethod})}
+                  className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+                >
+                  {WEIGHTING_METHODS.map(method => (
+                    <option key={method.value} value={method.value}>{method.label}</option>
+                  ))}
+                </select>
+              </div>
+
               {isAddMode && (
                 <div className="bg-muted/50 rounded-lg p-4 border border-border">
                   <div className="flex items-center text-sm text-muted-foreground">
@@ -0,0 +1,30 @@
+import Link from 'next/link'
+import Layout from '@/components/Layout'
+import ProtectedRoute from '@/components/ProtectedRoute'
+import { ArrowLeft, ShieldAlert } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+
+// Where ProtectedRoute sends signed-in users who lack a page's required role
+export default function Unauthorized() {
+  return (
+    <ProtectedRoute>
+      <Layout>
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <div className="text-center py-12">
+            <ShieldAlert className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+            <h1 className="text-2xl font-bold text-foreground mb-4">Access Denied</h1>
+            <p className="text-muted-foreground mb-6">
+              You don&apos;t have permission to view that page. Ask an admin if you need access.
+            </p>
+            <Link href="/">
+              <Button className="flex items-center gap-2 mx-auto">
+                <ArrowLeft className="h-4 w-4" />
+                Back to Dashboard
+              </Button>
+            </Link>
+          </div>
+        </div>
+      </Layout>
+    </ProtectedRoute>
+  )
+}
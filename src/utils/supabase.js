@@ -18,6 +18,9 @@ if (!isValidUrl || !isValidKey) {
       getSession: () => Promise.resolve({ data: { session: null }, error: null }),
       onAuthStateChange: () => ({ data: { subscription: { unsubscribe: () => {} } } }),
       signInWithPassword: () => Promise.resolve({ data: null, error: new Error('Supabase not configured') }),
+      signInWithOtp: () => Promise.resolve({ data: null, error: new Error('Supabase not configured') }),
+      verifyOtp: () => Promise.resolve({ data: null, error: new Error('Supabase not configured') }),
+      exchangeCodeForSession: () => Promise.resolve({ data: null, error: new Error('Supabase not configured') }),
       signUp: () => Promise.resolve({ data: null, error: new Error('Supabase not configured') }),
       signOut: () => Promise.resolve({ error: null }),
       resetPasswordForEmail: () => Promise.resolve({ data: null, error: new Error('Supabase not configured') }),
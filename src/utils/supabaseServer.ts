@@ -0,0 +1,44 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js'
+
+// Server-side clients for API routes. Never import this from a page.
+
+let client: SupabaseClient | null = null
+
+const supabaseUrl = () => {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL
+  return url && url.startsWith('https://') ? url : null
+}
+
+// Service-role client. Bypasses row-level security and records no audit actor, so use it
+// only for what a signed-in user can't do themselves (auth admin calls, caller checks).
+export const getServiceSupabase = () => {
+  const url = supabaseUrl()
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!url || !serviceKey) {
+    return null
+  }
+
+  if (!client) {
+    client = createClient(url, serviceKey, {
+      auth: { persistSession: false, autoRefreshToken: false },
+    })
+  }
+  return client
+}
+
+// Client that acts as the user holding `accessToken`, so row-level security, the admin
+// triggers and the audit log see that user. One per request.
+export const getUserSupabase = (accessToken: string) => {
+  const url = supabaseUrl()
+  const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+
+  if (!url || !anonKey) {
+    return null
+  }
+
+  return createClient(url, anonKey, {
+    global: { headers: { Authorization: `Bearer ${accessToken}` } },
+    auth: { persistSession: false, autoRefreshToken: false },
+  })
+}
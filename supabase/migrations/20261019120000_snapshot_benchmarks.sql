@@ -0,0 +1,10 @@
+-- Benchmark tickers (e.g. IWM, SPY) attached to a snapshot for excess-return comparison
+CREATE TABLE public.snapshot_benchmarks (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  snapshot_id uuid NOT NULL,
+  ticker text NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT snapshot_benchmarks_pkey PRIMARY KEY (id),
+  CONSTRAINT snapshot_benchmarks_snapshot_id_fkey FOREIGN KEY (snapshot_id) REFERENCES public.snapshots(id) ON DELETE CASCADE,
+  CONSTRAINT snapshot_benchmarks_snapshot_ticker_key UNIQUE (snapshot_id, ticker)
+);
@@ -0,0 +1,25 @@
+-- Weighting for snapshots.overall_portfolio_return_pct: 'equal' averages position
+-- returns, 'capital' weights each position by the capital allocated to it
+ALTER TABLE public.positions ADD COLUMN capital_allocated numeric CHECK (capital_allocated >= 0::numeric);
+ALTER TABLE public.snapshot_positions ADD COLUMN capital_allocated numeric;
+
+ALTER TABLE public.snapshots
+  ADD COLUMN weighting_method text NOT NULL DEFAULT 'equal' CHECK (weighting_method = ANY (ARRAY['equal'::text, 'capital'::text])),
+  ADD COLUMN overall_return_computed_at timestamp with time zone,
+  ADD COLUMN overall_return_stale boolean NOT NULL DEFAULT false;
+
+-- Any change to a snapshot's positions after the return was computed makes it stale
+CREATE OR REPLACE FUNCTION public.mark_snapshot_return_stale()
+RETURNS trigger AS $$
+BEGIN
+  UPDATE public.snapshots
+  SET overall_return_stale = true
+  WHERE id = COALESCE(NEW.snapshot_id, OLD.snapshot_id)
+    AND overall_return_computed_at IS NOT NULL;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER snapshot_positions_mark_return_stale
+AFTER INSERT OR UPDATE OR DELETE ON public.snapshot_positions
+FOR EACH ROW EXECUTE FUNCTION public.mark_snapshot_return_stale();
@@ -0,0 +1,78 @@
+-- Snapshot lifecycle: pending -> priced -> finalized. A finalized snapshot is locked;
+-- only moving it back to 'priced' (reopening) is allowed.
+ALTER TYPE public.snapshot_status ADD VALUE IF NOT EXISTS 'pending';
+ALTER TYPE public.snapshot_status ADD VALUE IF NOT EXISTS 'priced';
+ALTER TYPE public.snapshot_status ADD VALUE IF NOT EXISTS 'finalized';
+
+-- Every status change, with who made it and when
+CREATE TABLE public.snapshot_status_history (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  snapshot_id uuid NOT NULL,
+  from_status text,
+  to_status text NOT NULL,
+  changed_by uuid DEFAULT auth.uid(),
+  changed_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT snapshot_status_history_pkey PRIMARY KEY (id),
+  CONSTRAINT snapshot_status_history_snapshot_id_fkey FOREIGN KEY (snapshot_id) REFERENCES public.snapshots(id) ON DELETE CASCADE,
+  CONSTRAINT snapshot_status_history_changed_by_fkey FOREIGN KEY (changed_by) REFERENCES auth.users(id)
+);
+
+CREATE OR REPLACE FUNCTION public.enforce_snapshot_status()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.status::text = 'finalized' THEN
+      RAISE EXCEPTION 'Snapshot % is finalized and cannot be deleted', OLD.id;
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF OLD.status::text = 'finalized' AND NEW.status::text = 'finalized' THEN
+    RAISE EXCEPTION 'Snapshot % is finalized and cannot be edited', OLD.id;
+  END IF;
+
+  IF NEW.status::text <> OLD.status::text THEN
+    IF NOT (
+      (OLD.status::text = 'pending' AND NEW.status::text = 'priced') OR
+      (OLD.status::text = 'priced' AND NEW.status::text IN ('pending', 'finalized')) OR
+      (OLD.status::text = 'finalized' AND NEW.status::text = 'priced')
+    ) THEN
+      RAISE EXCEPTION 'Snapshot % cannot move from % to %', OLD.id, OLD.status, NEW.status;
+    END IF;
+
+    IF NEW.status::text IN ('priced', 'finalized') AND EXISTS (
+      SELECT 1 FROM public.snapshot_positions
+      WHERE snapshot_id = NEW.id AND (start_price IS NULL OR end_price IS NULL)
+    ) THEN
+      RAISE EXCEPTION 'Snapshot % has positions without start and end prices', NEW.id;
+    END IF;
+
+    INSERT INTO public.snapshot_status_history (snapshot_id, from_status, to_status)
+    VALUES (NEW.id, OLD.status::text, NEW.status::text);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER snapshots_enforce_status
+BEFORE UPDATE OR DELETE ON public.snapshots
+FOR EACH ROW EXECUTE FUNCTION public.enforce_snapshot_status();
+
+-- Rows of a finalized snapshot can't be re-priced, edited, added or removed
+CREATE OR REPLACE FUNCTION public.lock_finalized_snapshot_positions()
+RETURNS trigger AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.snapshots
+    WHERE id = COALESCE(NEW.snapshot_id, OLD.snapshot_id) AND status::text = 'finalized'
+  ) THEN
+    RAISE EXCEPTION 'Snapshot % is finalized', COALESCE(NEW.snapshot_id, OLD.snapshot_id);
+  END IF;
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER snapshot_positions_lock_finalized
+BEFORE INSERT OR UPDATE OR DELETE ON public.snapshot_positions
+FOR EACH ROW EXECUTE FUNCTION public.lock_finalized_snapshot_positions();
@@ -0,0 +1,60 @@
+-- Manual corrections on individual snapshot rows. The fetched start_price, end_price and
+-- dividends_paid are kept as-is; an override wins whenever it is set.
+ALTER TABLE public.snapshot_positions
+  ADD COLUMN start_price_override double precision,
+  ADD COLUMN end_price_override double precision,
+  ADD COLUMN dividends_paid_override numeric;
+
+-- An overridden price counts as priced when moving a snapshot forward
+CREATE OR REPLACE FUNCTION public.enforce_snapshot_status()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.status::text = 'finalized' THEN
+      RAISE EXCEPTION 'Snapshot % is finalized and cannot be deleted', OLD.id;
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF OLD.status::text = 'finalized' AND NEW.status::text = 'finalized' THEN
+    RAISE EXCEPTION 'Snapshot % is finalized and cannot be edited', OLD.id;
+  END IF;
+
+  IF NEW.status::text <> OLD.status::text THEN
+    IF NOT (
+      (OLD.status::text = 'pending' AND NEW.status::text = 'priced') OR
+      (OLD.status::text = 'priced' AND NEW.status::text IN ('pending', 'finalized')) OR
+      (OLD.status::text = 'finalized' AND NEW.status::text = 'priced')
+    ) THEN
+      RAISE EXCEPTION 'Snapshot % cannot move from % to %', OLD.id, OLD.status, NEW.status;
+    END IF;
+
+    IF NEW.status::text IN ('priced', 'finalized') AND EXISTS (
+      SELECT 1 FROM public.snapshot_positions
+      WHERE snapshot_id = NEW.id
+        AND (COALESCE(start_price_override, start_price) IS NULL OR COALESCE(end_price_override, end_price) IS NULL)
+    ) THEN
+      RAISE EXCEPTION 'Snapshot % has positions without start and end prices', NEW.id;
+    END IF;
+
+    INSERT INTO public.snapshot_status_history (snapshot_id, from_status, to_status)
+    VALUES (NEW.id, OLD.status::text, NEW.status::text);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Recreate the view so it picks up the new snapshot_positions columns
+DROP VIEW IF EXISTS public.snapshot_positions_with_status;
+CREATE VIEW public.snapshot_positions_with_status AS
+SELECT
+  sp.*,
+  (
+    SELECT p.status::text
+    FROM public.positions p
+    WHERE p.ticker = sp.ticker
+    ORDER BY p.start_date DESC
+    LIMIT 1
+  ) AS position_status
+FROM public.snapshot_positions sp;
@@ -0,0 +1,58 @@
+-- Rows left out of a snapshot without deleting them, so they can be re-included later
+-- with their overrides intact. Excluded rows don't count toward any snapshot figures.
+ALTER TABLE public.snapshot_positions ADD COLUMN excluded boolean NOT NULL DEFAULT false;
+
+-- Excluded rows don't need prices to move a snapshot forward
+CREATE OR REPLACE FUNCTION public.enforce_snapshot_status()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.status::text = 'finalized' THEN
+      RAISE EXCEPTION 'Snapshot % is finalized and cannot be deleted', OLD.id;
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF OLD.status::text = 'finalized' AND NEW.status::text = 'finalized' THEN
+    RAISE EXCEPTION 'Snapshot % is finalized and cannot be edited', OLD.id;
+  END IF;
+
+  IF NEW.status::text <> OLD.status::text THEN
+    IF NOT (
+      (OLD.status::text = 'pending' AND NEW.status::text = 'priced') OR
+      (OLD.status::text = 'priced' AND NEW.status::text IN ('pending', 'finalized')) OR
+      (OLD.status::text = 'finalized' AND NEW.status::text = 'priced')
+    ) THEN
+      RAISE EXCEPTION 'Snapshot % cannot move from % to %', OLD.id, OLD.status, NEW.status;
+    END IF;
+
+    IF NEW.status::text IN ('priced', 'finalized') AND EXISTS (
+      SELECT 1 FROM public.snapshot_positions
+      WHERE snapshot_id = NEW.id
+        AND NOT excluded
+        AND (COALESCE(start_price_override, start_price) IS NULL OR COALESCE(end_price_override, end_price) IS NULL)
+    ) THEN
+      RAISE EXCEPTION 'Snapshot % has positions without start and end prices', NEW.id;
+    END IF;
+
+    INSERT INTO public.snapshot_status_history (snapshot_id, from_status, to_status)
+    VALUES (NEW.id, OLD.status::text, NEW.status::text);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Recreate the view so it picks up `excluded`
+DROP VIEW IF EXISTS public.snapshot_positions_with_status;
+CREATE VIEW public.snapshot_positions_with_status AS
+SELECT
+  sp.*,
+  (
+    SELECT p.status::text
+    FROM public.positions p
+    WHERE p.ticker = sp.ticker
+    ORDER BY p.start_date DESC
+    LIMIT 1
+  ) AS position_status
+FROM public.snapshot_positions sp;
@@ -0,0 +1,21 @@
+-- Thesis write-up links must be http(s) URLs. NOT VALID leaves any existing rows alone
+-- until they are next edited.
+ALTER TABLE public.positions
+  ADD CONSTRAINT positions_blog_post_url_check
+  CHECK (blog_post_url ~* '^https?://\S+$') NOT VALID;
+
+-- Snapshot rows link to the write-up of the latest position for their ticker
+DROP VIEW IF EXISTS public.snapshot_positions_with_status;
+CREATE VIEW public.snapshot_positions_with_status AS
+SELECT
+  sp.*,
+  p.status::text AS position_status,
+  p.blog_post_url
+FROM public.snapshot_positions sp
+LEFT JOIN LATERAL (
+  SELECT status, blog_post_url
+  FROM public.positions
+  WHERE ticker = sp.ticker
+  ORDER BY start_date DESC
+  LIMIT 1
+) p ON true;
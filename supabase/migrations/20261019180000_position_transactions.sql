@@ -0,0 +1,40 @@
+-- Buys and sells under a position, for holdings that were added to or trimmed. A
+-- position without transactions keeps using its single start_price/end_price lot.
+CREATE TABLE public.position_transactions (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  position_id uuid NOT NULL,
+  type text NOT NULL CHECK (type = ANY (ARRAY['buy'::text, 'sell'::text])),
+  trade_date date NOT NULL,
+  quantity numeric NOT NULL CHECK (quantity > 0::numeric),
+  price numeric NOT NULL CHECK (price >= 0::numeric),
+  notes text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT position_transactions_pkey PRIMARY KEY (id),
+  CONSTRAINT position_transactions_position_id_fkey FOREIGN KEY (position_id) REFERENCES public.positions(id) ON DELETE CASCADE
+);
+CREATE INDEX position_transactions_position_date_idx ON public.position_transactions (position_id, trade_date);
+
+-- What the lots did inside a snapshot row's window, so its return can be recomputed from
+-- the row's (possibly overridden) prices. All null for single-lot rows.
+ALTER TABLE public.snapshot_positions
+  ADD COLUMN opening_shares numeric,
+  ADD COLUMN closing_shares numeric,
+  ADD COLUMN lot_buy_cost numeric,
+  ADD COLUMN lot_sell_proceeds numeric,
+  ADD COLUMN dividend_shares numeric;
+
+-- sp.* is expanded when a view is created, so pick up the new columns
+DROP VIEW IF EXISTS public.snapshot_positions_with_status;
+CREATE VIEW public.snapshot_positions_with_status AS
+SELECT
+  sp.*,
+  p.status::text AS position_status,
+  p.blog_post_url
+FROM public.snapshot_positions sp
+LEFT JOIN LATERAL (
+  SELECT status, blog_post_url
+  FROM public.positions
+  WHERE ticker = sp.ticker
+  ORDER BY start_date DESC
+  LIMIT 1
+) p ON true;
@@ -0,0 +1,48 @@
+-- Splits, ticker changes, spin-offs and delistings, keyed by the ticker they happened
+-- to. Prices quoted before an action's effective_date are adjusted to be comparable
+-- with prices after it (see src/lib/corporateActions.ts).
+--   split:         ratio = new shares per old share (2 for 2-for-1, 0.1 for 1-for-10)
+--   spin_off:      ratio = share of the parent's value kept after the spin (0 < ratio <= 1)
+--   ticker_change: new_ticker = the symbol from effective_date on
+--   delisting:     cash_price = what each share was cashed out at
+CREATE TABLE public.corporate_actions (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  ticker text NOT NULL,
+  action_type text NOT NULL CHECK (action_type = ANY (ARRAY['split'::text, 'ticker_change'::text, 'spin_off'::text, 'delisting'::text])),
+  effective_date date NOT NULL,
+  ratio numeric CHECK (ratio > 0::numeric),
+  new_ticker text,
+  cash_price numeric CHECK (cash_price >= 0::numeric),
+  notes text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT corporate_actions_pkey PRIMARY KEY (id),
+  CONSTRAINT corporate_actions_fields_check CHECK (
+    (action_type = 'split' AND ratio IS NOT NULL) OR
+    (action_type = 'spin_off' AND ratio IS NOT NULL AND ratio <= 1) OR
+    (action_type = 'ticker_change' AND new_ticker IS NOT NULL) OR
+    (action_type = 'delisting' AND cash_price IS NOT NULL)
+  )
+);
+CREATE INDEX corporate_actions_ticker_date_idx ON public.corporate_actions (ticker, effective_date);
+
+-- Factor applied to a snapshot row's start price (and the dividends and trades inside
+-- its window) for actions in the window, with a readable summary. Null when none applied.
+ALTER TABLE public.snapshot_positions
+  ADD COLUMN price_adjustment numeric,
+  ADD COLUMN adjustment_note text;
+
+-- sp.* is expanded when a view is created, so pick up the new columns
+DROP VIEW IF EXISTS public.snapshot_positions_with_status;
+CREATE VIEW public.snapshot_positions_with_status AS
+SELECT
+  sp.*,
+  p.status::text AS position_status,
+  p.blog_post_url
+FROM public.snapshot_positions sp
+LEFT JOIN LATERAL (
+  SELECT status, blog_post_url
+  FROM public.positions
+  WHERE ticker = sp.ticker
+  ORDER BY start_date DESC
+  LIMIT 1
+) p ON true;
@@ -0,0 +1,60 @@
+-- Snapshot rows point at the position they were built from, so renamed or reused
+-- tickers can't mix up history. `ticker` on the row stays as it was at snapshot time.
+ALTER TABLE public.snapshot_positions
+  ADD COLUMN position_id uuid,
+  ADD CONSTRAINT snapshot_positions_position_id_fkey FOREIGN KEY (position_id) REFERENCES public.positions(id);
+CREATE INDEX snapshot_positions_position_id_idx ON public.snapshot_positions (position_id);
+
+-- Link existing rows to the latest position with that ticker whose holding overlaps the
+-- row's window. Finalized snapshots are locked, but this only records what they meant.
+ALTER TABLE public.snapshot_positions DISABLE TRIGGER snapshot_positions_lock_finalized;
+UPDATE public.snapshot_positions sp
+SET position_id = (
+  SELECT p.id
+  FROM public.positions p
+  WHERE p.ticker = sp.ticker
+    AND p.start_date <= sp.end_date
+    AND (p.end_date IS NULL OR p.end_date >= sp.start_date)
+  ORDER BY p.start_date DESC
+  LIMIT 1
+)
+WHERE sp.position_id IS NULL;
+ALTER TABLE public.snapshot_positions ENABLE TRIGGER snapshot_positions_lock_finalized;
+
+-- Symbols a position traded under before its current `positions.ticker`: `ticker` was
+-- in use until (not including) `renamed_on`
+CREATE TABLE public.position_ticker_aliases (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  position_id uuid NOT NULL,
+  ticker text NOT NULL,
+  renamed_on date NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT position_ticker_aliases_pkey PRIMARY KEY (id),
+  CONSTRAINT position_ticker_aliases_position_id_fkey FOREIGN KEY (position_id) REFERENCES public.positions(id) ON DELETE CASCADE,
+  CONSTRAINT position_ticker_aliases_position_renamed_key UNIQUE (position_id, renamed_on)
+);
+
+-- Delisted positions are closed out at a final price (end_price), with end_date as the
+-- last trading day
+ALTER TYPE public.position_status ADD VALUE IF NOT EXISTS 'Delisted';
+
+ALTER TABLE public.snapshot_positions DROP CONSTRAINT IF EXISTS snapshot_positions_status_check;
+ALTER TABLE public.snapshot_positions
+  ADD CONSTRAINT snapshot_positions_status_check CHECK (status = ANY (ARRAY['Open'::text, 'Closed'::text, 'Delisted'::text]));
+
+-- sp.* is expanded when a view is created, so pick up position_id; rows join their own
+-- position, falling back to the latest one with the ticker for rows that couldn't be linked
+DROP VIEW IF EXISTS public.snapshot_positions_with_status;
+CREATE VIEW public.snapshot_positions_with_status AS
+SELECT
+  sp.*,
+  p.status::text AS position_status,
+  p.blog_post_url
+FROM public.snapshot_positions sp
+LEFT JOIN LATERAL (
+  SELECT status, blog_post_url
+  FROM public.positions
+  WHERE CASE WHEN sp.position_id IS NULL THEN ticker = sp.ticker ELSE id = sp.position_id END
+  ORDER BY start_date DESC
+  LIMIT 1
+) p ON true;
@@ -0,0 +1,79 @@
+-- Admin and user roles on profiles. Admins can delete positions and snapshots, fetch
+-- prices and edit settings; everyone else gets 'user'. Promote the first admin with:
+--   UPDATE public.profiles SET role = 'admin' WHERE id = '<auth user id>';
+ALTER TABLE public.profiles
+  ADD COLUMN role text NOT NULL DEFAULT 'user',
+  ADD CONSTRAINT profiles_role_check CHECK (role IN ('admin', 'user'));
+
+-- Magic-link sign-in creates the auth user itself, so the profile is created here
+-- rather than by the sign-up form
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS trigger AS $$
+BEGIN
+  INSERT INTO public.profiles (id, full_name)
+  VALUES (NEW.id, NEW.raw_user_meta_data ->> 'full_name')
+  ON CONFLICT (id) DO NOTHING;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_auth_user_created
+AFTER INSERT ON auth.users
+FOR EACH ROW EXECUTE FUNCTION public.handle_new_user();
+
+INSERT INTO public.profiles (id, full_name)
+SELECT u.id, u.raw_user_meta_data ->> 'full_name'
+FROM auth.users u
+ON CONFLICT (id) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION public.is_admin()
+RETURNS boolean AS $$
+  SELECT EXISTS (SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = 'admin');
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- The service-role key, or a direct connection with no JWT at all (the SQL editor and
+-- migrations). The anon key has no user either, so checking auth.uid() isn't enough.
+CREATE OR REPLACE FUNCTION public.is_privileged_request()
+RETURNS boolean AS $$
+  SELECT COALESCE(auth.role(), 'service_role') = 'service_role';
+$$ LANGUAGE sql STABLE;
+
+-- Only admins can grant a role; privileged requests are let through
+CREATE OR REPLACE FUNCTION public.protect_profile_role()
+RETURNS trigger AS $$
+BEGIN
+  IF NOT public.is_privileged_request() AND NOT public.is_admin() AND (
+    (TG_OP = 'INSERT' AND NEW.role <> 'user') OR
+    (TG_OP = 'UPDATE' AND NEW.role IS DISTINCT FROM OLD.role)
+  ) THEN
+    RAISE EXCEPTION 'Only an admin can change roles';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER profiles_protect_role
+BEFORE INSERT OR UPDATE ON public.profiles
+FOR EACH ROW EXECUTE FUNCTION public.protect_profile_role();
+
+CREATE OR REPLACE FUNCTION public.require_admin()
+RETURNS trigger AS $$
+BEGIN
+  IF NOT public.is_privileged_request() AND NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only an admin can % %', lower(TG_OP), TG_TABLE_NAME;
+  END IF;
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER positions_require_admin_delete
+BEFORE DELETE ON public.positions
+FOR EACH ROW EXECUTE FUNCTION public.require_admin();
+
+CREATE TRIGGER snapshots_require_admin_delete
+BEFORE DELETE ON public.snapshots
+FOR EACH ROW EXECUTE FUNCTION public.require_admin();
+
+CREATE TRIGGER settings_require_admin
+BEFORE INSERT OR UPDATE OR DELETE ON public.settings
+FOR EACH ROW EXECUTE FUNCTION public.require_admin();
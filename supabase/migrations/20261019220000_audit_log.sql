@@ -0,0 +1,106 @@
+-- Audit trail: one row per insert, update or delete on the audited tables, with the
+-- acting user and the row before and after. position_id and snapshot_id are copied off
+-- the row so a position's or snapshot's history includes its child rows; they are not
+-- foreign keys, so history outlives deleted rows.
+CREATE TABLE public.audit_log (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  table_name text NOT NULL,
+  row_id text,
+  action text NOT NULL CHECK (action IN ('INSERT', 'UPDATE', 'DELETE')),
+  -- Null for the service role and the SQL editor
+  actor uuid DEFAULT auth.uid(),
+  old_data jsonb,
+  new_data jsonb,
+  position_id uuid,
+  snapshot_id uuid,
+  changed_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT audit_log_pkey PRIMARY KEY (id)
+);
+
+CREATE INDEX audit_log_changed_at_idx ON public.audit_log (changed_at DESC);
+CREATE INDEX audit_log_table_row_idx ON public.audit_log (table_name, row_id);
+CREATE INDEX audit_log_position_id_idx ON public.audit_log (position_id);
+CREATE INDEX audit_log_snapshot_id_idx ON public.audit_log (snapshot_id);
+
+-- Only admins can read the trail. There is no insert policy: record_audit() is SECURITY
+-- DEFINER, and the service role bypasses row-level security.
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY audit_log_admin_read ON public.audit_log
+FOR SELECT USING (public.is_admin());
+
+CREATE OR REPLACE FUNCTION public.record_audit()
+RETURNS trigger AS $$
+DECLARE
+  row_data jsonb := to_jsonb(COALESCE(NEW, OLD));
+BEGIN
+  -- Updates that change nothing aren't worth a row
+  IF TG_OP = 'UPDATE' AND to_jsonb(NEW) = to_jsonb(OLD) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.audit_log (table_name, row_id, action, old_data, new_data, position_id, snapshot_id)
+  VALUES (
+    TG_TABLE_NAME,
+    row_data ->> 'id',
+    TG_OP,
+    CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END,
+    CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END,
+    (CASE WHEN TG_TABLE_NAME = 'positions' THEN row_data ->> 'id' ELSE row_data ->> 'position_id' END)::uuid,
+    (CASE WHEN TG_TABLE_NAME = 'snapshots' THEN row_data ->> 'id' ELSE row_data ->> 'snapshot_id' END)::uuid
+  );
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER positions_audit
+AFTER INSERT OR UPDATE OR DELETE ON public.positions
+FOR EACH ROW EXECUTE FUNCTION public.record_audit();
+
+CREATE TRIGGER position_transactions_audit
+AFTER INSERT OR UPDATE OR DELETE ON public.position_transactions
+FOR EACH ROW EXECUTE FUNCTION public.record_audit();
+
+CREATE TRIGGER position_ticker_aliases_audit
+AFTER INSERT OR UPDATE OR DELETE ON public.position_ticker_aliases
+FOR EACH ROW EXECUTE FUNCTION public.record_audit();
+
+CREATE TRIGGER dividends_audit
+AFTER INSERT OR UPDATE OR DELETE ON public.dividends
+FOR EACH ROW EXECUTE FUNCTION public.record_audit();
+
+CREATE TRIGGER corporate_actions_audit
+AFTER INSERT OR UPDATE OR DELETE ON public.corporate_actions
+FOR EACH ROW EXECUTE FUNCTION public.record_audit();
+
+CREATE TRIGGER snapshots_audit
+AFTER INSERT OR UPDATE OR DELETE ON public.snapshots
+FOR EACH ROW EXECUTE FUNCTION public.record_audit();
+
+CREATE TRIGGER snapshot_positions_audit
+AFTER INSERT OR UPDATE OR DELETE ON public.snapshot_positions
+FOR EACH ROW EXECUTE FUNCTION public.record_audit();
+
+CREATE TRIGGER snapshot_benchmarks_audit
+AFTER INSERT OR UPDATE OR DELETE ON public.snapshot_benchmarks
+FOR EACH ROW EXECUTE FUNCTION public.record_audit();
+
+CREATE TRIGGER settings_audit
+AFTER INSERT OR UPDATE OR DELETE ON public.settings
+FOR EACH ROW EXECUTE FUNCTION public.record_audit();
+
+CREATE TRIGGER profiles_audit
+AFTER INSERT OR UPDATE OR DELETE ON public.profiles
+FOR EACH ROW EXECUTE FUNCTION public.record_audit();
+
+-- The trail is append-only
+CREATE OR REPLACE FUNCTION public.protect_audit_log()
+RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'The audit log is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER audit_log_append_only
+BEFORE UPDATE OR DELETE ON public.audit_log
+FOR EACH ROW EXECUTE FUNCTION public.protect_audit_log();
@@ -0,0 +1,45 @@
+-- Reopening a finalized snapshot is for admins only. Same function as the exclusion
+-- migration plus the admin check; the app hides the Reopen action from everyone else.
+CREATE OR REPLACE FUNCTION public.enforce_snapshot_status()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.status::text = 'finalized' THEN
+      RAISE EXCEPTION 'Snapshot % is finalized and cannot be deleted', OLD.id;
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF OLD.status::text = 'finalized' AND NEW.status::text = 'finalized' THEN
+    RAISE EXCEPTION 'Snapshot % is finalized and cannot be edited', OLD.id;
+  END IF;
+
+  IF NEW.status::text <> OLD.status::text THEN
+    IF NOT (
+      (OLD.status::text = 'pending' AND NEW.status::text = 'priced') OR
+      (OLD.status::text = 'priced' AND NEW.status::text IN ('pending', 'finalized')) OR
+      (OLD.status::text = 'finalized' AND NEW.status::text = 'priced')
+    ) THEN
+      RAISE EXCEPTION 'Snapshot % cannot move from % to %', OLD.id, OLD.status, NEW.status;
+    END IF;
+
+    IF OLD.status::text = 'finalized' AND NOT public.is_privileged_request() AND NOT public.is_admin() THEN
+      RAISE EXCEPTION 'Only an admin can reopen snapshot %', OLD.id;
+    END IF;
+
+    IF NEW.status::text IN ('priced', 'finalized') AND EXISTS (
+      SELECT 1 FROM public.snapshot_positions
+      WHERE snapshot_id = NEW.id
+        AND NOT excluded
+        AND (COALESCE(start_price_override, start_price) IS NULL OR COALESCE(end_price_override, end_price) IS NULL)
+    ) THEN
+      RAISE EXCEPTION 'Snapshot % has positions without start and end prices', NEW.id;
+    END IF;
+
+    INSERT INTO public.snapshot_status_history (snapshot_id, from_status, to_status)
+    VALUES (NEW.id, OLD.status::text, NEW.status::text);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;